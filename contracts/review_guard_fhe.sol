@@ -1,166 +1,867 @@
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint8, euint32, euint64, externalEuint8, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
 import { ZamaEthereumConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 contract ReviewGuardFHE is ZamaEthereumConfig {
+    enum CycleStatus {
+        None,
+        Created,
+        Open,
+        Closed,
+        Finalized
+    }
+
+    enum Relationship {
+        None,
+        Manager,
+        Peer,
+        DirectReport,
+        Self
+    }
+
+    struct Cycle {
+        string name;
+        CycleStatus status;
+        uint256 openedAt;
+        uint256 closedAt;
+        uint8 maxScore;
+        uint8 highPerformerScore;
+        uint8 lowPerformerScore;
+        uint256 minReviewers;
+        string[] criteria;
+    }
+
     struct Review {
         euint32 encryptedScore;
-        uint256 weight;
+        euint32[] encryptedCriteria;
+        uint256 cycleId;
+        euint32 encryptedWeight;
         uint256 departmentId;
         address reviewer;
         uint256 timestamp;
-        uint32 decryptedScore;
-        bool isVerified;
+    }
+
+    // Scaled by SCORE_SCALE, derived from one verified aggregate and never recomputed from itself
+    struct FinalScore {
+        uint256 score;
+        uint256 aggregateVersion;
+        uint256 calculatedAt;
+    }
+
+    struct CycleAggregate {
+        uint256 totalScore;
+        uint256 reviewCount;
+        uint256 totalWeight;
+        uint256 aggregateVersion;
+        FinalScore finalScore;
+        euint64 encryptedWeightedSum;
+        // Sum of the review weights, the weighted sum divided by it is the weighted average
+        euint64 encryptedTotalWeight;
+        euint64[] encryptedCriteriaSums;
+        euint32 encryptedReviewCount;
+        euint32 encryptedHighPerformerCount;
+        euint32 encryptedLowPerformerCount;
+        uint256 reviewerCount;
+        mapping(address => uint256) reviewIdOf;
+    }
+
+    // Department totals per cycle, covering every review of every employee in the department
+    struct DepartmentAggregate {
+        euint64 encryptedWeightedSum;
+        euint64 encryptedTotalWeight;
+        euint32 encryptedReviewCount;
+        euint32 encryptedHighPerformerCount;
+        euint32 encryptedLowPerformerCount;
+        uint256 reviewCount;
+        // Distinct reviewers, the anonymity threshold is counted in people rather than reviews
+        uint256 reviewerCount;
+        mapping(address => bool) hasReviewed;
     }
 
     struct Employee {
         string employeeId;
         string name;
-        uint256 totalScore;
-        uint256 reviewCount;
         uint256 departmentId;
-        mapping(string => Review) reviews;
+        address wallet;
+        mapping(address => Relationship) relationships;
+        mapping(uint256 => CycleAggregate) cycles;
+        uint256[] reviewIds;
+        mapping(uint256 => Review) reviews;
     }
 
+    uint256 public constant DEFAULT_MIN_REVIEWERS = 3;
+    uint256 public constant MAX_CRITERIA = 8;
+    uint256 public constant RELATIONSHIP_COUNT = 4;
+    // Final scores are fixed-point numbers with two decimals
+    uint256 public constant SCORE_SCALE = 100;
+    uint8 public constant DEFAULT_MAX_SCORE = 10;
+    uint8 public constant DEFAULT_HIGH_PERFORMER_SCORE = 8;
+    uint8 public constant DEFAULT_LOW_PERFORMER_SCORE = 4;
+
+    address public owner;
+    uint256 public minReviewers;
+    uint8 public maxScore;
+    // Scores at or above highPerformerScore and at or below lowPerformerScore are counted homomorphically
+    uint8 public highPerformerScore;
+    uint8 public lowPerformerScore;
+    string[] private criteria;
+    // Encrypted so the weighting scheme is only known to HR
+    mapping(Relationship => euint32) private relationshipWeights;
+
+    mapping(address => bool) public hrAdmins;
+    mapping(uint256 => mapping(address => bool)) public departmentManagers;
+
+    uint256 public lastReviewId;
+    uint256 public cycleCount;
+    mapping(uint256 => Cycle) public cycles;
+
     mapping(string => Employee) public employees;
     mapping(uint256 => string[]) public departmentEmployees;
+    mapping(uint256 => mapping(uint256 => DepartmentAggregate)) private departmentAggregates;
     mapping(string => bool) public employeeExists;
+    mapping(address => string) public walletEmployees;
+
+    event CycleCreated(uint256 indexed cycleId, string name);
+    event CycleStatusChanged(uint256 indexed cycleId, CycleStatus status);
+    event ReviewSubmitted(
+        string indexed employeeId,
+        uint256 indexed cycleId,
+        address indexed reviewer,
+        uint256 reviewId
+    );
+    event ReviewUpdated(
+        string indexed employeeId,
+        uint256 indexed cycleId,
+        address indexed reviewer,
+        uint256 reviewId
+    );
+    event AggregateDecryptionRequested(string indexed employeeId, uint256 indexed cycleId);
+    event DepartmentDecryptionRequested(uint256 indexed departmentId, uint256 indexed cycleId);
+    event AggregateDecrypted(
+        string indexed employeeId,
+        uint256 indexed cycleId,
+        uint64 weightedSum,
+        uint32 reviewCount,
+        uint64 totalWeight
+    );
+    event FinalScoreCalculated(
+        string indexed employeeId,
+        uint256 indexed cycleId,
+        uint256 finalScore,
+        uint256 aggregateVersion
+    );
+    event MinReviewersUpdated(uint256 minReviewers);
+    event MaxScoreUpdated(uint8 maxScore);
+    event PerformanceThresholdsUpdated(uint8 highPerformerScore, uint8 lowPerformerScore);
+    event CriteriaUpdated(string[] criteria);
+    event HrAdminUpdated(address indexed account, bool granted);
+    event DepartmentManagerUpdated(uint256 indexed departmentId, address indexed account, bool granted);
+    event ReviewerRelationshipUpdated(
+        string indexed employeeId,
+        address indexed reviewer,
+        Relationship relationship
+    );
+    event RelationshipWeightsUpdated(address indexed updatedBy);
+    event EmployeeWalletBound(string indexed employeeId, address indexed wallet);
+    event AggregateAccessGranted(string indexed employeeId, uint256 indexed cycleId, address indexed account);
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Only owner");
+        _;
+    }
+
+    modifier onlyHrAdmin() {
+        require(hrAdmins[msg.sender], "Only HR admin");
+        _;
+    }
+
+    modifier cycleExists(uint256 cycleId) {
+        require(cycles[cycleId].status != CycleStatus.None, "Cycle does not exist");
+        _;
+    }
+
+    modifier onlyEmployeeManager(string calldata employeeId) {
+        require(employeeExists[employeeId], "Employee does not exist");
+        require(
+            hrAdmins[msg.sender] || departmentManagers[employees[employeeId].departmentId][msg.sender],
+            "Only HR admin or department manager"
+        );
+        _;
+    }
+
+    modifier onlyDepartmentManager(uint256 departmentId) {
+        require(
+            hrAdmins[msg.sender] || departmentManagers[departmentId][msg.sender],
+            "Only HR admin or department manager"
+        );
+        _;
+    }
+
+    constructor() ZamaEthereumConfig() {
+        owner = msg.sender;
+        minReviewers = DEFAULT_MIN_REVIEWERS;
+        maxScore = DEFAULT_MAX_SCORE;
+        highPerformerScore = DEFAULT_HIGH_PERFORMER_SCORE;
+        lowPerformerScore = DEFAULT_LOW_PERFORMER_SCORE;
+
+        hrAdmins[msg.sender] = true;
+        emit HrAdminUpdated(msg.sender, true);
+
+        criteria.push("delivery");
+        criteria.push("collaboration");
+        criteria.push("communication");
+        criteria.push("ownership");
+
+        _setRelationshipWeight(Relationship.Manager, FHE.asEuint32(3));
+        _setRelationshipWeight(Relationship.Peer, FHE.asEuint32(2));
+        _setRelationshipWeight(Relationship.DirectReport, FHE.asEuint32(1));
+        _setRelationshipWeight(Relationship.Self, FHE.asEuint32(1));
+    }
+
+    function setHrAdmin(address account, bool granted) external onlyOwner {
+        require(account != address(0), "Invalid account");
+        require(account != owner || granted, "Owner must stay HR admin");
+
+        hrAdmins[account] = granted;
+
+        emit HrAdminUpdated(account, granted);
+    }
+
+    function setDepartmentManager(uint256 departmentId, address account, bool granted) external onlyHrAdmin {
+        require(account != address(0), "Invalid account");
+
+        departmentManagers[departmentId][account] = granted;
+
+        emit DepartmentManagerUpdated(departmentId, account, granted);
+    }
+
+    // Reviewers are eligible once their relationship to the employee is recorded, None revokes them
+    function setReviewerRelationship(
+        string calldata employeeId,
+        address reviewer,
+        Relationship relationship
+    ) external onlyEmployeeManager(employeeId) {
+        require(reviewer != address(0), "Invalid account");
+
+        employees[employeeId].relationships[reviewer] = relationship;
+
+        emit ReviewerRelationshipUpdated(employeeId, reviewer, relationship);
+    }
+
+    // One weight per relationship from Manager to Self, encrypted in a single input batch
+    function setRelationshipWeights(
+        externalEuint32[] calldata encryptedWeights,
+        bytes calldata inputProof
+    ) external onlyHrAdmin {
+        require(encryptedWeights.length == RELATIONSHIP_COUNT, "Invalid weight count");
+
+        for (uint256 i = 0; i < RELATIONSHIP_COUNT; i++) {
+            euint32 weight = FHE.fromExternal(encryptedWeights[i], inputProof);
+            require(FHE.isInitialized(weight), "Invalid encrypted input");
+            // A zero weight would silently drop reviews, count them at least once
+            _setRelationshipWeight(Relationship(i + 1), FHE.max(weight, uint32(1)));
+        }
+
+        emit RelationshipWeightsUpdated(msg.sender);
+    }
+
+    // HR admins appointed after the weights were set have to request access before decrypting them
+    function allowRelationshipWeights() external onlyHrAdmin {
+        for (uint256 i = 1; i <= RELATIONSHIP_COUNT; i++) {
+            FHE.allow(relationshipWeights[Relationship(i)], msg.sender);
+        }
+    }
+
+    function createCycle(string calldata name) external onlyHrAdmin returns (uint256 cycleId) {
+        cycleId = ++cycleCount;
+        cycles[cycleId].name = name;
+        cycles[cycleId].status = CycleStatus.Created;
+        // Cycles keep the criteria, score scale and thresholds they were created with
+        cycles[cycleId].criteria = criteria;
+        cycles[cycleId].maxScore = maxScore;
+        cycles[cycleId].highPerformerScore = highPerformerScore;
+        cycles[cycleId].lowPerformerScore = lowPerformerScore;
+        cycles[cycleId].minReviewers = minReviewers;
+
+        emit CycleCreated(cycleId, name);
+    }
+
+    function openCycle(uint256 cycleId) external onlyHrAdmin cycleExists(cycleId) {
+        Cycle storage cycle = cycles[cycleId];
+        require(cycle.status == CycleStatus.Created, "Cycle cannot be opened");
+
+        cycle.status = CycleStatus.Open;
+        cycle.openedAt = block.timestamp;
+
+        emit CycleStatusChanged(cycleId, CycleStatus.Open);
+    }
+
+    function closeCycle(uint256 cycleId) external onlyHrAdmin cycleExists(cycleId) {
+        Cycle storage cycle = cycles[cycleId];
+        require(cycle.status == CycleStatus.Open, "Cycle is not open");
+
+        cycle.status = CycleStatus.Closed;
+        cycle.closedAt = block.timestamp;
+
+        emit CycleStatusChanged(cycleId, CycleStatus.Closed);
+    }
+
+    function finalizeCycle(uint256 cycleId) external onlyHrAdmin cycleExists(cycleId) {
+        Cycle storage cycle = cycles[cycleId];
+        require(cycle.status == CycleStatus.Closed, "Cycle is not closed");
+
+        cycle.status = CycleStatus.Finalized;
+
+        emit CycleStatusChanged(cycleId, CycleStatus.Finalized);
+    }
+
+    function setCriteria(string[] calldata newCriteria) external onlyHrAdmin {
+        require(newCriteria.length > 0 && newCriteria.length <= MAX_CRITERIA, "Invalid criteria count");
+
+        criteria = newCriteria;
+
+        emit CriteriaUpdated(newCriteria);
+    }
+
+    // Applies to cycles created afterwards, running cycles keep the threshold they were created with
+    function setMinReviewers(uint256 newMinReviewers) external onlyHrAdmin {
+        require(newMinReviewers > 0, "Threshold must be positive");
+
+        minReviewers = newMinReviewers;
+
+        emit MinReviewersUpdated(newMinReviewers);
+    }
+
+    // Scores are submitted as 8-bit values, so the scale tops out at 255
+    function setMaxScore(uint8 newMaxScore) external onlyHrAdmin {
+        require(newMaxScore > 0, "Invalid score scale");
+
+        maxScore = newMaxScore;
 
-    event ReviewSubmitted(string indexed employeeId, address indexed reviewer);
-    event ReviewDecrypted(string indexed employeeId, uint32 decryptedScore);
-    event FinalScoreCalculated(string indexed employeeId, uint256 finalScore);
+        emit MaxScoreUpdated(newMaxScore);
+    }
+
+    function setPerformanceThresholds(uint8 newHighPerformerScore, uint8 newLowPerformerScore) external onlyHrAdmin {
+        require(newLowPerformerScore < newHighPerformerScore, "Invalid thresholds");
 
-    constructor() ZamaEthereumConfig() {}
+        highPerformerScore = newHighPerformerScore;
+        lowPerformerScore = newLowPerformerScore;
+
+        emit PerformanceThresholdsUpdated(newHighPerformerScore, newLowPerformerScore);
+    }
 
     function submitReview(
         string calldata employeeId,
-        externalEuint32 encryptedScore,
+        uint256 cycleId,
+        externalEuint8 encryptedScore,
+        externalEuint8[] calldata encryptedCriteria,
         bytes calldata inputProof,
-        uint256 weight,
         uint256 departmentId
-    ) external {
-        require(employeeExists[employeeId], "Employee does not exist");
-        require(weight > 0, "Weight must be positive");
+    ) external returns (uint256 reviewId) {
+        euint32 weight = _validateSubmission(employeeId, cycleId);
 
-        require(FHE.isInitialized(FHE.fromExternal(encryptedScore, inputProof)), "Invalid encrypted input");
+        // The overall score and every criterion come from a single input batch sharing one proof
+        euint32 score = _importScore(cycleId, encryptedScore, inputProof);
+        euint32[] memory criteriaScores = _importCriteria(cycleId, encryptedCriteria, inputProof);
 
         Employee storage employee = employees[employeeId];
         require(employee.departmentId == departmentId, "Department mismatch");
 
-        string memory reviewId = string(abi.encodePacked(employeeId, "_", uint256(block.timestamp)));
+        CycleAggregate storage aggregate = employee.cycles[cycleId];
+        require(aggregate.reviewIdOf[msg.sender] == 0, "Already reviewed");
+
+        // Review ids are global and monotonic so reviews in the same block never collide
+        reviewId = ++lastReviewId;
+        employee.reviewIds.push(reviewId);
         Review storage newReview = employee.reviews[reviewId];
 
-        newReview.encryptedScore = FHE.fromExternal(encryptedScore, inputProof);
-        newReview.weight = weight;
+        newReview.encryptedScore = score;
+        newReview.cycleId = cycleId;
+        newReview.encryptedWeight = weight;
         newReview.departmentId = departmentId;
         newReview.reviewer = msg.sender;
         newReview.timestamp = block.timestamp;
-        newReview.decryptedScore = 0;
-        newReview.isVerified = false;
 
         FHE.allowThis(newReview.encryptedScore);
-        FHE.makePubliclyDecryptable(newReview.encryptedScore);
+        for (uint256 i = 0; i < criteriaScores.length; i++) {
+            newReview.encryptedCriteria.push(criteriaScores[i]);
+        }
+
+        // Individual scores never leave the contract, only the running aggregate can be decrypted
+        euint64 weightedScore = _weighted(score, weight);
+        aggregate.encryptedWeightedSum = FHE.add(aggregate.encryptedWeightedSum, weightedScore);
+        aggregate.encryptedTotalWeight = FHE.add(aggregate.encryptedTotalWeight, FHE.asEuint64(weight));
+        if (aggregate.encryptedCriteriaSums.length == 0) {
+            for (uint256 i = 0; i < criteriaScores.length; i++) {
+                aggregate.encryptedCriteriaSums.push();
+            }
+        }
+        for (uint256 i = 0; i < criteriaScores.length; i++) {
+            aggregate.encryptedCriteriaSums[i] = FHE.add(
+                aggregate.encryptedCriteriaSums[i],
+                _weighted(criteriaScores[i], weight)
+            );
+            FHE.allowThis(aggregate.encryptedCriteriaSums[i]);
+        }
+        (euint32 isHigh, euint32 isLow) = _performerFlags(cycleId, score);
+        aggregate.encryptedReviewCount = FHE.add(aggregate.encryptedReviewCount, uint32(1));
+        aggregate.encryptedHighPerformerCount = FHE.add(aggregate.encryptedHighPerformerCount, isHigh);
+        aggregate.encryptedLowPerformerCount = FHE.add(aggregate.encryptedLowPerformerCount, isLow);
+        aggregate.reviewIdOf[msg.sender] = reviewId;
+        aggregate.reviewerCount++;
+
+        FHE.allowThis(aggregate.encryptedWeightedSum);
+        FHE.allowThis(aggregate.encryptedTotalWeight);
+        FHE.allowThis(aggregate.encryptedReviewCount);
+        FHE.allowThis(aggregate.encryptedHighPerformerCount);
+        FHE.allowThis(aggregate.encryptedLowPerformerCount);
+
+        DepartmentAggregate storage department = departmentAggregates[departmentId][cycleId];
+        department.encryptedWeightedSum = FHE.add(department.encryptedWeightedSum, weightedScore);
+        department.encryptedTotalWeight = FHE.add(department.encryptedTotalWeight, FHE.asEuint64(weight));
+        department.encryptedReviewCount = FHE.add(department.encryptedReviewCount, uint32(1));
+        department.encryptedHighPerformerCount = FHE.add(department.encryptedHighPerformerCount, isHigh);
+        department.encryptedLowPerformerCount = FHE.add(department.encryptedLowPerformerCount, isLow);
+        department.reviewCount++;
+        if (!department.hasReviewed[msg.sender]) {
+            department.hasReviewed[msg.sender] = true;
+            department.reviewerCount++;
+        }
+        _allowDepartmentAggregate(department);
+
+        emit ReviewSubmitted(employeeId, cycleId, msg.sender, reviewId);
+    }
 
-        emit ReviewSubmitted(employeeId, msg.sender);
+    function updateReview(
+        string calldata employeeId,
+        uint256 cycleId,
+        externalEuint8 encryptedScore,
+        externalEuint8[] calldata encryptedCriteria,
+        bytes calldata inputProof
+    ) external returns (uint256 reviewId) {
+        euint32 weight = _validateSubmission(employeeId, cycleId);
+
+        euint32 score = _importScore(cycleId, encryptedScore, inputProof);
+        euint32[] memory criteriaScores = _importCriteria(cycleId, encryptedCriteria, inputProof);
+
+        CycleAggregate storage aggregate = employees[employeeId].cycles[cycleId];
+        reviewId = aggregate.reviewIdOf[msg.sender];
+        require(reviewId != 0, "No review to update");
+
+        Review storage review = employees[employeeId].reviews[reviewId];
+
+        // Swap the old weighted score for the new one without ever decrypting either
+        euint64 oldWeightedScore = _weighted(review.encryptedScore, review.encryptedWeight);
+        euint64 weightedScore = _weighted(score, weight);
+        aggregate.encryptedWeightedSum = FHE.add(FHE.sub(aggregate.encryptedWeightedSum, oldWeightedScore), weightedScore);
+        FHE.allowThis(aggregate.encryptedWeightedSum);
+
+        // The relationship, and with it the weight, may have changed since the first submission
+        euint64 oldWeight = FHE.asEuint64(review.encryptedWeight);
+        euint64 newWeight = FHE.asEuint64(weight);
+        aggregate.encryptedTotalWeight = FHE.add(FHE.sub(aggregate.encryptedTotalWeight, oldWeight), newWeight);
+        FHE.allowThis(aggregate.encryptedTotalWeight);
+
+        // Performer counts move with the score, the cycle's thresholds never change
+        (euint32 wasHigh, euint32 wasLow) = _performerFlags(cycleId, review.encryptedScore);
+        (euint32 isHigh, euint32 isLow) = _performerFlags(cycleId, score);
+        aggregate.encryptedHighPerformerCount = FHE.add(FHE.sub(aggregate.encryptedHighPerformerCount, wasHigh), isHigh);
+        aggregate.encryptedLowPerformerCount = FHE.add(FHE.sub(aggregate.encryptedLowPerformerCount, wasLow), isLow);
+        FHE.allowThis(aggregate.encryptedHighPerformerCount);
+        FHE.allowThis(aggregate.encryptedLowPerformerCount);
+
+        DepartmentAggregate storage department = departmentAggregates[review.departmentId][cycleId];
+        department.encryptedWeightedSum = FHE.add(FHE.sub(department.encryptedWeightedSum, oldWeightedScore), weightedScore);
+        department.encryptedTotalWeight = FHE.add(FHE.sub(department.encryptedTotalWeight, oldWeight), newWeight);
+        department.encryptedHighPerformerCount = FHE.add(FHE.sub(department.encryptedHighPerformerCount, wasHigh), isHigh);
+        department.encryptedLowPerformerCount = FHE.add(FHE.sub(department.encryptedLowPerformerCount, wasLow), isLow);
+        _allowDepartmentAggregate(department);
+
+        for (uint256 i = 0; i < criteriaScores.length; i++) {
+            aggregate.encryptedCriteriaSums[i] = FHE.add(
+                FHE.sub(aggregate.encryptedCriteriaSums[i], _weighted(review.encryptedCriteria[i], review.encryptedWeight)),
+                _weighted(criteriaScores[i], weight)
+            );
+            FHE.allowThis(aggregate.encryptedCriteriaSums[i]);
+            review.encryptedCriteria[i] = criteriaScores[i];
+        }
+
+        review.encryptedScore = score;
+        review.encryptedWeight = weight;
+        review.timestamp = block.timestamp;
+
+        FHE.allowThis(review.encryptedScore);
+
+        emit ReviewUpdated(employeeId, cycleId, msg.sender, reviewId);
     }
 
-    function verifyReview(
+    function requestAggregateDecryption(
         string calldata employeeId,
-        string calldata reviewId,
-        bytes memory abiEncodedClearValue,
-        bytes memory decryptionProof
-    ) external {
-        require(employeeExists[employeeId], "Employee does not exist");
-        
-        Employee storage employee = employees[employeeId];
-        Review storage review = employee.reviews[reviewId];
-        require(!review.isVerified, "Review already verified");
+        uint256 cycleId
+    ) external onlyEmployeeManager(employeeId) cycleExists(cycleId) {
+        // Publishing twice in an open cycle would let the two sums be diffed down to a single review
+        require(_cycleEnded(cycleId), "Cycle is not closed");
+
+        CycleAggregate storage aggregate = employees[employeeId].cycles[cycleId];
+        require(FHE.isInitialized(aggregate.encryptedReviewCount), "No reviews available");
+        require(_meetsAnonymityThreshold(cycleId, aggregate.reviewerCount), "Not enough reviewers");
+
+        FHE.makePubliclyDecryptable(aggregate.encryptedWeightedSum);
+        FHE.makePubliclyDecryptable(aggregate.encryptedTotalWeight);
+        FHE.makePubliclyDecryptable(aggregate.encryptedReviewCount);
+        FHE.makePubliclyDecryptable(aggregate.encryptedHighPerformerCount);
+        FHE.makePubliclyDecryptable(aggregate.encryptedLowPerformerCount);
+        for (uint256 i = 0; i < aggregate.encryptedCriteriaSums.length; i++) {
+            FHE.makePubliclyDecryptable(aggregate.encryptedCriteriaSums[i]);
+        }
+
+        emit AggregateDecryptionRequested(employeeId, cycleId);
+    }
 
-        bytes32[] memory cts = new bytes32[](1);
-        cts[0] = FHE.toBytes32(review.encryptedScore);
+    function requestDepartmentDecryption(
+        uint256 departmentId,
+        uint256 cycleId
+    ) external onlyDepartmentManager(departmentId) cycleExists(cycleId) {
+        require(_cycleEnded(cycleId), "Cycle is not closed");
+
+        DepartmentAggregate storage department = departmentAggregates[departmentId][cycleId];
+        require(department.reviewCount > 0, "No reviews available");
+        require(_meetsAnonymityThreshold(cycleId, department.reviewerCount), "Not enough reviewers");
+
+        FHE.makePubliclyDecryptable(department.encryptedWeightedSum);
+        FHE.makePubliclyDecryptable(department.encryptedTotalWeight);
+        FHE.makePubliclyDecryptable(department.encryptedReviewCount);
+        FHE.makePubliclyDecryptable(department.encryptedHighPerformerCount);
+        FHE.makePubliclyDecryptable(department.encryptedLowPerformerCount);
+
+        emit DepartmentDecryptionRequested(departmentId, cycleId);
+    }
+
+    function verifyAggregate(
+        string calldata employeeId,
+        uint256 cycleId,
+        bytes memory abiEncodedClearValues,
+        bytes memory decryptionProof
+    ) external onlyEmployeeManager(employeeId) cycleExists(cycleId) {
+        require(cycles[cycleId].status != CycleStatus.Finalized, "Cycle already finalized");
 
-        FHE.checkSignatures(cts, abiEncodedClearValue, decryptionProof);
-        uint32 decodedValue = abi.decode(abiEncodedClearValue, (uint32));
+        CycleAggregate storage aggregate = employees[employeeId].cycles[cycleId];
 
-        review.decryptedScore = decodedValue;
-        review.isVerified = true;
+        bytes32[] memory cts = new bytes32[](3);
+        cts[0] = FHE.toBytes32(aggregate.encryptedWeightedSum);
+        cts[1] = FHE.toBytes32(aggregate.encryptedReviewCount);
+        cts[2] = FHE.toBytes32(aggregate.encryptedTotalWeight);
 
-        employee.totalScore += decodedValue * review.weight;
-        employee.reviewCount++;
+        FHE.checkSignatures(cts, abiEncodedClearValues, decryptionProof);
+        (uint64 weightedSum, uint32 reviewCount, uint64 totalWeight) = abi.decode(
+            abiEncodedClearValues,
+            (uint64, uint32, uint64)
+        );
 
-        emit ReviewDecrypted(employeeId, decodedValue);
+        // Re-verifying the recorded aggregate keeps its version, so it cannot reopen finalization
+        bool recorded = aggregate.aggregateVersion > 0 &&
+            aggregate.totalScore == weightedSum &&
+            aggregate.reviewCount == reviewCount &&
+            aggregate.totalWeight == totalWeight;
+        if (!recorded) {
+            aggregate.totalScore = weightedSum;
+            aggregate.reviewCount = reviewCount;
+            aggregate.totalWeight = totalWeight;
+            aggregate.aggregateVersion++;
+        }
+
+        emit AggregateDecrypted(employeeId, cycleId, weightedSum, reviewCount, totalWeight);
     }
 
-    function calculateFinalScore(string calldata employeeId) external {
-        require(employeeExists[employeeId], "Employee does not exist");
+    function calculateFinalScore(
+        string calldata employeeId,
+        uint256 cycleId
+    ) external onlyEmployeeManager(employeeId) cycleExists(cycleId) {
+        require(cycles[cycleId].status != CycleStatus.Finalized, "Cycle already finalized");
 
-        Employee storage employee = employees[employeeId];
-        require(employee.reviewCount > 0, "No reviews available");
+        CycleAggregate storage aggregate = employees[employeeId].cycles[cycleId];
+        require(aggregate.reviewCount > 0, "No reviews available");
 
-        uint256 finalScore = employee.totalScore / employee.reviewCount;
-        employee.totalScore = finalScore;
+        // Re-running on the same verified aggregate would only repeat the result
+        FinalScore storage finalScore = aggregate.finalScore;
+        require(finalScore.aggregateVersion < aggregate.aggregateVersion, "Score already finalized");
 
-        emit FinalScoreCalculated(employeeId, finalScore);
+        // Weighted average: every review counts as often as its weight
+        finalScore.score = (aggregate.totalScore * SCORE_SCALE) / aggregate.totalWeight;
+        finalScore.aggregateVersion = aggregate.aggregateVersion;
+        finalScore.calculatedAt = block.timestamp;
+
+        emit FinalScoreCalculated(employeeId, cycleId, finalScore.score, finalScore.aggregateVersion);
     }
 
     function addEmployee(
         string calldata employeeId,
         string calldata name,
         uint256 departmentId
-    ) external {
+    ) external onlyHrAdmin {
         require(!employeeExists[employeeId], "Employee already exists");
 
         Employee storage newEmployee = employees[employeeId];
         newEmployee.employeeId = employeeId;
         newEmployee.name = name;
         newEmployee.departmentId = departmentId;
-        newEmployee.totalScore = 0;
-        newEmployee.reviewCount = 0;
 
         employeeExists[employeeId] = true;
         departmentEmployees[departmentId].push(employeeId);
     }
 
-    function getEmployee(string calldata employeeId) external view returns (
+    // HR vouches for the binding, a wallet can only ever speak for one employee
+    function bindEmployeeWallet(string calldata employeeId, address wallet) external onlyHrAdmin {
+        require(employeeExists[employeeId], "Employee does not exist");
+        require(wallet != address(0), "Invalid account");
+        require(bytes(walletEmployees[wallet]).length == 0, "Wallet already bound");
+
+        Employee storage employee = employees[employeeId];
+        delete walletEmployees[employee.wallet];
+        employee.wallet = wallet;
+        walletEmployees[wallet] = employeeId;
+
+        emit EmployeeWalletBound(employeeId, wallet);
+    }
+
+    // Only granted once the cycle is closed, so successive handles cannot be diffed to isolate one review
+    function allowOwnAggregate(uint256 cycleId) external cycleExists(cycleId) {
+        string memory employeeId = walletEmployees[msg.sender];
+        require(bytes(employeeId).length > 0, "Wallet not bound");
+        require(_cycleEnded(cycleId), "Cycle is not closed");
+
+        CycleAggregate storage aggregate = employees[employeeId].cycles[cycleId];
+        require(FHE.isInitialized(aggregate.encryptedReviewCount), "No reviews available");
+        require(_meetsAnonymityThreshold(cycleId, aggregate.reviewerCount), "Not enough reviewers");
+
+        _allowAggregate(aggregate, msg.sender);
+
+        emit AggregateAccessGranted(employeeId, cycleId, msg.sender);
+    }
+
+    // Managers user-decrypt their team instead of publishing it, employees below the threshold stay sealed
+    function allowTeamAggregates(
+        uint256 departmentId,
+        uint256 cycleId
+    ) external onlyDepartmentManager(departmentId) cycleExists(cycleId) returns (uint256 granted) {
+        require(_cycleEnded(cycleId), "Cycle is not closed");
+
+        string[] storage team = departmentEmployees[departmentId];
+        for (uint256 i = 0; i < team.length; i++) {
+            CycleAggregate storage aggregate = employees[team[i]].cycles[cycleId];
+            if (!FHE.isInitialized(aggregate.encryptedReviewCount) || !_meetsAnonymityThreshold(cycleId, aggregate.reviewerCount)) {
+                continue;
+            }
+
+            _allowAggregate(aggregate, msg.sender);
+            granted++;
+
+            emit AggregateAccessGranted(team[i], cycleId, msg.sender);
+        }
+    }
+
+    function getEmployee(string calldata employeeId, uint256 cycleId) external view returns (
         string memory name,
         uint256 totalScore,
         uint256 reviewCount,
-        uint256 departmentId
+        uint256 departmentId,
+        uint256 reviewerCount,
+        uint256 totalWeight
     ) {
         require(employeeExists[employeeId], "Employee does not exist");
         Employee storage employee = employees[employeeId];
+        CycleAggregate storage aggregate = employee.cycles[cycleId];
 
         return (
             employee.name,
-            employee.totalScore,
-            employee.reviewCount,
-            employee.departmentId
+            aggregate.totalScore,
+            aggregate.reviewCount,
+            employee.departmentId,
+            aggregate.reviewerCount,
+            aggregate.totalWeight
         );
     }
 
-    function getReview(string calldata employeeId, string calldata reviewId) external view returns (
-        uint256 weight,
+    function getFinalScore(string calldata employeeId, uint256 cycleId) external view returns (
+        uint256 score,
+        uint256 aggregateVersion,
+        uint256 calculatedAt
+    ) {
+        require(employeeExists[employeeId], "Employee does not exist");
+        FinalScore storage finalScore = employees[employeeId].cycles[cycleId].finalScore;
+
+        return (finalScore.score, finalScore.aggregateVersion, finalScore.calculatedAt);
+    }
+
+    function getReview(string calldata employeeId, uint256 reviewId) external view returns (
+        uint256 cycleId,
         uint256 departmentId,
         address reviewer,
-        uint256 timestamp,
-        uint32 decryptedScore,
-        bool isVerified
+        uint256 timestamp
     ) {
         require(employeeExists[employeeId], "Employee does not exist");
         Employee storage employee = employees[employeeId];
         Review storage review = employee.reviews[reviewId];
+        require(review.reviewer != address(0), "Review does not exist");
 
         return (
-            review.weight,
+            review.cycleId,
             review.departmentId,
             review.reviewer,
-            review.timestamp,
-            review.decryptedScore,
-            review.isVerified
+            review.timestamp
+        );
+    }
+
+    function hasReviewed(
+        string calldata employeeId,
+        uint256 cycleId,
+        address reviewer
+    ) external view returns (bool) {
+        require(employeeExists[employeeId], "Employee does not exist");
+        return employees[employeeId].cycles[cycleId].reviewIdOf[reviewer] != 0;
+    }
+
+    function getReviewIdOf(
+        string calldata employeeId,
+        uint256 cycleId,
+        address reviewer
+    ) external view returns (uint256) {
+        require(employeeExists[employeeId], "Employee does not exist");
+        return employees[employeeId].cycles[cycleId].reviewIdOf[reviewer];
+    }
+
+    function getReviewIds(
+        string calldata employeeId,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (uint256[] memory reviewIds, uint256 total) {
+        require(employeeExists[employeeId], "Employee does not exist");
+        uint256[] storage allIds = employees[employeeId].reviewIds;
+        total = allIds.length;
+
+        if (offset >= total) {
+            return (new uint256[](0), total);
+        }
+
+        uint256 end = offset + limit;
+        if (end > total) {
+            end = total;
+        }
+
+        reviewIds = new uint256[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            reviewIds[i - offset] = allIds[i];
+        }
+    }
+
+    function getEncryptedAggregate(string calldata employeeId, uint256 cycleId) external view returns (
+        euint64 weightedSum,
+        euint32 reviewCount,
+        euint64 totalWeight
+    ) {
+        require(employeeExists[employeeId], "Employee does not exist");
+        CycleAggregate storage aggregate = employees[employeeId].cycles[cycleId];
+
+        return (aggregate.encryptedWeightedSum, aggregate.encryptedReviewCount, aggregate.encryptedTotalWeight);
+    }
+
+    function getEncryptedPerformerCounts(string calldata employeeId, uint256 cycleId) external view returns (
+        euint32 highPerformerCount,
+        euint32 lowPerformerCount
+    ) {
+        require(employeeExists[employeeId], "Employee does not exist");
+        CycleAggregate storage aggregate = employees[employeeId].cycles[cycleId];
+        return (aggregate.encryptedHighPerformerCount, aggregate.encryptedLowPerformerCount);
+    }
+
+    function getEncryptedCriteriaAggregate(
+        string calldata employeeId,
+        uint256 cycleId
+    ) external view returns (euint64[] memory weightedSums) {
+        require(employeeExists[employeeId], "Employee does not exist");
+        return employees[employeeId].cycles[cycleId].encryptedCriteriaSums;
+    }
+
+    function getCriteria() external view returns (string[] memory) {
+        return criteria;
+    }
+
+    function getCycleCriteria(uint256 cycleId) external view cycleExists(cycleId) returns (string[] memory) {
+        return cycles[cycleId].criteria;
+    }
+
+    function isAggregateDecryptable(string calldata employeeId, uint256 cycleId) external view returns (bool) {
+        require(employeeExists[employeeId], "Employee does not exist");
+        CycleAggregate storage aggregate = employees[employeeId].cycles[cycleId];
+
+        return FHE.isPubliclyDecryptable(aggregate.encryptedWeightedSum) &&
+            FHE.isPubliclyDecryptable(aggregate.encryptedReviewCount) &&
+            FHE.isPubliclyDecryptable(aggregate.encryptedTotalWeight);
+    }
+
+    function isAggregateAllowed(
+        string calldata employeeId,
+        uint256 cycleId,
+        address account
+    ) external view returns (bool) {
+        require(employeeExists[employeeId], "Employee does not exist");
+        CycleAggregate storage aggregate = employees[employeeId].cycles[cycleId];
+        return FHE.isAllowed(aggregate.encryptedWeightedSum, account) &&
+            FHE.isAllowed(aggregate.encryptedReviewCount, account) &&
+            FHE.isAllowed(aggregate.encryptedTotalWeight, account);
+    }
+
+    function getEmployeeWallet(string calldata employeeId) external view returns (address) {
+        require(employeeExists[employeeId], "Employee does not exist");
+        return employees[employeeId].wallet;
+    }
+
+    function isEligibleReviewer(string calldata employeeId, address reviewer) external view returns (bool) {
+        require(employeeExists[employeeId], "Employee does not exist");
+        return employees[employeeId].relationships[reviewer] != Relationship.None;
+    }
+
+    function getRelationshipWeight(Relationship relationship) external view returns (euint32) {
+        require(relationship != Relationship.None, "Invalid relationship");
+        return relationshipWeights[relationship];
+    }
+
+    function getRelationship(string calldata employeeId, address reviewer) external view returns (Relationship) {
+        require(employeeExists[employeeId], "Employee does not exist");
+        return employees[employeeId].relationships[reviewer];
+    }
+
+    function getDepartmentAggregate(uint256 departmentId, uint256 cycleId) external view returns (
+        euint64 weightedSum,
+        euint32 encryptedReviewCount,
+        euint32 highPerformerCount,
+        euint32 lowPerformerCount,
+        uint256 reviewCount,
+        euint64 totalWeight,
+        uint256 reviewerCount
+    ) {
+        DepartmentAggregate storage department = departmentAggregates[departmentId][cycleId];
+        return (
+            department.encryptedWeightedSum,
+            department.encryptedReviewCount,
+            department.encryptedHighPerformerCount,
+            department.encryptedLowPerformerCount,
+            department.reviewCount,
+            department.encryptedTotalWeight,
+            department.reviewerCount
         );
     }
 
+    function isDepartmentAggregateDecryptable(uint256 departmentId, uint256 cycleId) external view returns (bool) {
+        DepartmentAggregate storage department = departmentAggregates[departmentId][cycleId];
+        return FHE.isPubliclyDecryptable(department.encryptedWeightedSum) &&
+            FHE.isPubliclyDecryptable(department.encryptedTotalWeight) &&
+            FHE.isPubliclyDecryptable(department.encryptedReviewCount) &&
+            FHE.isPubliclyDecryptable(department.encryptedHighPerformerCount) &&
+            FHE.isPubliclyDecryptable(department.encryptedLowPerformerCount);
+    }
+
     function getDepartmentEmployees(uint256 departmentId) external view returns (string[] memory) {
         return departmentEmployees[departmentId];
     }
@@ -168,5 +869,88 @@ contract ReviewGuardFHE is ZamaEthereumConfig {
     function isAvailable() public pure returns (bool) {
         return true;
     }
+
+    // The weight comes from the HR weight table, never from the reviewer
+    function _validateSubmission(string calldata employeeId, uint256 cycleId) private view returns (euint32) {
+        require(employeeExists[employeeId], "Employee does not exist");
+        Relationship relationship = employees[employeeId].relationships[msg.sender];
+        require(relationship != Relationship.None, "Not an eligible reviewer");
+        require(cycles[cycleId].status == CycleStatus.Open, "Cycle is not open");
+
+        return relationshipWeights[relationship];
+    }
+
+    function _importCriteria(
+        uint256 cycleId,
+        externalEuint8[] calldata encryptedCriteria,
+        bytes calldata inputProof
+    ) private returns (euint32[] memory scores) {
+        require(encryptedCriteria.length == cycles[cycleId].criteria.length, "Criteria mismatch");
+
+        scores = new euint32[](encryptedCriteria.length);
+        for (uint256 i = 0; i < encryptedCriteria.length; i++) {
+            scores[i] = _importScore(cycleId, encryptedCriteria[i], inputProof);
+            FHE.allowThis(scores[i]);
+        }
+    }
+
+    // Out-of-range scores cannot be rejected without decrypting them, so they are clamped into 1..maxScore
+    function _importScore(
+        uint256 cycleId,
+        externalEuint8 encryptedScore,
+        bytes calldata inputProof
+    ) private returns (euint32) {
+        euint8 score = FHE.fromExternal(encryptedScore, inputProof);
+        require(FHE.isInitialized(score), "Invalid encrypted input");
+
+        uint8 cycleMaxScore = cycles[cycleId].maxScore;
+        euint8 clamped = FHE.select(FHE.le(score, cycleMaxScore), score, FHE.asEuint8(cycleMaxScore));
+        return FHE.asEuint32(FHE.max(clamped, uint8(1)));
+    }
+
+    function _weighted(euint32 score, euint32 weight) private returns (euint64) {
+        return FHE.mul(FHE.asEuint64(score), FHE.asEuint64(weight));
+    }
+
+    function _setRelationshipWeight(Relationship relationship, euint32 weight) private {
+        relationshipWeights[relationship] = weight;
+        FHE.allowThis(weight);
+        FHE.allow(weight, msg.sender);
+    }
+
+    function _performerFlags(uint256 cycleId, euint32 score) private returns (euint32 isHigh, euint32 isLow) {
+        Cycle storage cycle = cycles[cycleId];
+        isHigh = FHE.asEuint32(FHE.ge(score, uint32(cycle.highPerformerScore)));
+        isLow = FHE.asEuint32(FHE.le(score, uint32(cycle.lowPerformerScore)));
+    }
+
+    function _allowAggregate(CycleAggregate storage aggregate, address account) private {
+        FHE.allow(aggregate.encryptedWeightedSum, account);
+        FHE.allow(aggregate.encryptedTotalWeight, account);
+        FHE.allow(aggregate.encryptedReviewCount, account);
+        FHE.allow(aggregate.encryptedHighPerformerCount, account);
+        FHE.allow(aggregate.encryptedLowPerformerCount, account);
+        for (uint256 i = 0; i < aggregate.encryptedCriteriaSums.length; i++) {
+            FHE.allow(aggregate.encryptedCriteriaSums[i], account);
+        }
+    }
+
+    function _allowDepartmentAggregate(DepartmentAggregate storage department) private {
+        FHE.allowThis(department.encryptedWeightedSum);
+        FHE.allowThis(department.encryptedTotalWeight);
+        FHE.allowThis(department.encryptedReviewCount);
+        FHE.allowThis(department.encryptedHighPerformerCount);
+        FHE.allowThis(department.encryptedLowPerformerCount);
+    }
+
+    function _cycleEnded(uint256 cycleId) private view returns (bool) {
+        CycleStatus status = cycles[cycleId].status;
+        return status == CycleStatus.Closed || status == CycleStatus.Finalized;
+    }
+
+    // Checked against the cycle's own threshold, lowering minReviewers later cannot unseal a closed cycle
+    function _meetsAnonymityThreshold(uint256 cycleId, uint256 reviewerCount) private view returns (bool) {
+        return reviewerCount >= cycles[cycleId].minReviewers;
+    }
 }
 
@@ -334,12 +334,12 @@ async function main() {
   console.log("Deployer account:", wallet.address);
 
   try {
-    const UniversalFHEAdapterFactory = await hardhatEthers.getContractFactory("UniversalFHEAdapter", wallet);
-    const factory = await UniversalFHEAdapterFactory.deploy();
+    const ReviewGuardFHEFactory = await hardhatEthers.getContractFactory("ReviewGuardFHE", wallet);
+    const factory = await ReviewGuardFHEFactory.deploy();
     await factory.waitForDeployment();
 
     const deployedAddress = (factory as any).target || (factory as any).address;
-    console.log("UniversalFHEAdapter contract deployed at:", deployedAddress);
+    console.log("ReviewGuardFHE contract deployed at:", deployedAddress);
 
     if (fs.existsSync(walletsPath)) {
       const walletsContent = fs.readFileSync(walletsPath, "utf-8");
@@ -358,36 +358,19 @@ async function main() {
     if (!fs.existsSync(frontendConfigDir)) {
       console.warn("Frontend src directory not found, skipping config.json write:", frontendConfigDir);
     } else {
+      // Keep the FHEVM network and backend the app was configured with, only the deployment changes
+      const configPath = path.join(frontendConfigDir, "config.json");
+      const existing = fs.existsSync(configPath) ? JSON.parse(fs.readFileSync(configPath, "utf-8")) : {};
       const config = {
+        fhevmNetwork: "sepolia",
+        fhevmBackend: "relayer",
+        ...existing,
         network: rpc,
         contractAddress: deployedAddress,
         deployer: wallet.address,
       };
-      fs.writeFileSync(
-        path.join(frontendConfigDir, "config.json"),
-        JSON.stringify(config, null, 2)
-      );
+      fs.writeFileSync(configPath, JSON.stringify(config, null, 2) + "\n");
       console.log("Wrote frontend config: frontend/web/src/config.json");
-
-      try {
-        const artifactPath = path.join(
-          __dirname,
-          "..",
-          "artifacts",
-          "contracts",
-          "UniversalFHEAdapter.sol",
-          "UniversalFHEAdapter.json"
-        );
-        const targetAbiPath = path.join(frontendConfigDir, "abi");
-        if (!fs.existsSync(targetAbiPath)) fs.mkdirSync(targetAbiPath, { recursive: true });
-        fs.copyFileSync(artifactPath, path.join(targetAbiPath, "UniversalFHEAdapter.json"));
-        console.log("Copied ABI to frontend/web/src/abi/UniversalFHEAdapter.json");
-      } catch (e) {
-        console.warn(
-          "Failed to copy ABI automatically. Please copy artifacts/.../UniversalFHEAdapter.json manually to frontend/web/src/abi/UniversalFHEAdapter.json",
-          e
-        );
-      }
     }
   } catch (error) {
     console.error("Deployment failed:", error);
@@ -11,4 +11,7 @@ export { useFhevm } from './useFhevm.js';
 export { useContract } from './useContract.js';
 export { useDecrypt } from './useDecrypt.js';
 export { useEncrypt } from './useEncrypt.js';
+export { useAggregateScore } from './useAggregateScore.js';
+export { useOwnResults } from './useOwnResults.js';
+export { useTeamResults } from './useTeamResults.js';
 
@@ -0,0 +1,90 @@
+/**
+ * Wagmi-like hook for reading an employee's encrypted aggregate score
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import { AnonymityThresholdError, toFhevmError } from '../core/index.js';
+import type {
+  AggregateScore,
+  AnonymityStatus,
+  CriterionScore,
+  FhevmError,
+  PerformerCounts,
+  ReviewGuardClient,
+} from '../core/index.js';
+
+export function useAggregateScore(client: ReviewGuardClient | null, employeeId: string, cycleId: number) {
+  const [aggregate, setAggregate] = useState<AggregateScore | null>(null);
+  const [criteria, setCriteria] = useState<CriterionScore[]>([]);
+  const [performers, setPerformers] = useState<PerformerCounts | null>(null);
+  const [anonymity, setAnonymity] = useState<AnonymityStatus | null>(null);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [error, setError] = useState<FhevmError | null>(null);
+
+  const refreshAnonymity = useCallback(async () => {
+    if (!client || !employeeId || !cycleId) return null;
+
+    try {
+      const status = await client.getAnonymityStatus(employeeId, cycleId);
+      setAnonymity(status);
+      return status;
+    } catch (err) {
+      setError(toFhevmError(err, 'Failed to load reviewer threshold'));
+      return null;
+    }
+  }, [client, employeeId, cycleId]);
+
+  useEffect(() => {
+    setAggregate(null);
+    setCriteria([]);
+    setPerformers(null);
+    setAnonymity(null);
+    setError(null);
+    refreshAnonymity();
+  }, [refreshAnonymity]);
+
+  const decrypt = useCallback(async () => {
+    if (!client || !employeeId || !cycleId) return null;
+
+    setIsDecrypting(true);
+    setError(null);
+
+    try {
+      // Only the aggregate is ever made public, never the individual reviews
+      if (!(await client.isAggregateDecryptable(employeeId, cycleId))) {
+        const status = await refreshAnonymity();
+        if (status && !status.canDecrypt) {
+          throw new AnonymityThresholdError(`${status.remaining} more reviews needed before the aggregate can be revealed`);
+        }
+
+        await client.requestAggregateDecryption(employeeId, cycleId);
+      }
+
+      const [result, criteriaScores, performerCounts] = await Promise.all([
+        client.decryptAggregate(employeeId, cycleId),
+        client.decryptCriteriaAggregate(employeeId, cycleId),
+        client.decryptPerformerCounts(employeeId, cycleId),
+      ]);
+      setAggregate(result);
+      setCriteria(criteriaScores);
+      setPerformers(performerCounts);
+      return result;
+    } catch (err) {
+      setError(toFhevmError(err, 'Aggregate decryption failed'));
+      throw err;
+    } finally {
+      setIsDecrypting(false);
+    }
+  }, [client, employeeId, cycleId, refreshAnonymity]);
+
+  return {
+    aggregate,
+    criteria,
+    performers,
+    anonymity,
+    refreshAnonymity,
+    decrypt,
+    isDecrypting,
+    error,
+  };
+}
@@ -3,11 +3,12 @@
  */
 
 import { useState, useCallback } from 'react';
-import { publicDecryptV09 } from '../core/index.js';
+import { publicDecryptV09, toFhevmError } from '../core/index.js';
+import type { FhevmError } from '../core/index.js';
 
 export function useDecrypt() {
   const [isDecrypting, setIsDecrypting] = useState(false);
-  const [error, setError] = useState<string>('');
+  const [error, setError] = useState<FhevmError | null>(null);
 
   const verifyDecryption = useCallback(async (
     handles: string[], 
@@ -15,7 +16,7 @@ export function useDecrypt() {
     verifyFunction: (abiEncodedClearValues: string, decryptionProof: string) => Promise<any>
   ) => {
     setIsDecrypting(true);
-    setError('');
+    setError(null);
     
     try {
       const decryptionResult = await publicDecryptV09(handles);
@@ -32,7 +33,7 @@ export function useDecrypt() {
         transactionReceipt: receipt
       };
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Decryption verification failed');
+      setError(toFhevmError(err, 'Decryption verification failed'));
       throw err;
     } finally {
       setIsDecrypting(false);
@@ -3,21 +3,22 @@
  */
 
 import { useState, useCallback } from 'react';
-import { createEncryptedInput } from '../core/index.js';
+import { createEncryptedInput, toFhevmError } from '../core/index.js';
+import type { EncryptScale, FhevmError } from '../core/index.js';
 
 export function useEncrypt() {
   const [isEncrypting, setIsEncrypting] = useState(false);
-  const [error, setError] = useState<string>('');
+  const [error, setError] = useState<FhevmError | null>(null);
 
-  const encrypt = useCallback(async (contractAddress: string, userAddress: string, value: number) => {
+  const encrypt = useCallback(async (contractAddress: string, userAddress: string, value: number, scale?: EncryptScale) => {
     setIsEncrypting(true);
-    setError('');
+    setError(null);
     
     try {
-      const result = await createEncryptedInput(contractAddress, userAddress, value);
+      const result = await createEncryptedInput(contractAddress, userAddress, value, scale);
       return result;
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Encryption failed');
+      setError(toFhevmError(err, 'Encryption failed'));
       throw err;
     } finally {
       setIsEncrypting(false);
@@ -3,28 +3,30 @@
  */
 
 import { useState, useCallback } from 'react';
-import { initializeFheInstance } from '../core/index.js';
+import { initializeFheInstance, toFhevmError } from '../core/index.js';
+import type { FheInstanceOptions, FhevmError } from '../core/index.js';
 
-export function useFhevm() {
+export function useFhevm(options?: FheInstanceOptions) {
   const [instance, setInstance] = useState<any>(null);
   const [status, setStatus] = useState<'idle' | 'loading' | 'ready' | 'error'>('idle');
-  const [error, setError] = useState<string>('');
+  const [error, setError] = useState<FhevmError | null>(null);
 
+  // Custom network, backend and signer objects must be memoized by the caller, or initialize changes every render
   const initialize = useCallback(async () => {
     setStatus('loading');
-    setError('');
+    setError(null);
     
     try {
-      const fheInstance = await initializeFheInstance();
+      const fheInstance = await initializeFheInstance(options);
       setInstance(fheInstance);
       setStatus('ready');
       console.log('✅ FHEVM initialized');
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Unknown error');
+      setError(toFhevmError(err, 'Unknown error'));
       setStatus('error');
       console.error('❌ FHEVM initialization failed:', err);
     }
-  }, []);
+  }, [options?.network, options?.rpcUrl, options?.backend, options?.signer]);
 
   return {
     instance,
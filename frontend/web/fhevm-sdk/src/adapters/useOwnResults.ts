@@ -0,0 +1,56 @@
+/**
+ * Wagmi-like hook for an employee decrypting their own results
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import { toFhevmError } from '../core/index.js';
+import type { EmployeeResults, FhevmError, ReviewGuardClient } from '../core/index.js';
+
+export function useOwnResults(client: ReviewGuardClient | null, account: string | undefined, cycleId: number) {
+  const [employeeId, setEmployeeId] = useState<string | null>(null);
+  const [results, setResults] = useState<EmployeeResults | null>(null);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [error, setError] = useState<FhevmError | null>(null);
+
+  useEffect(() => {
+    setEmployeeId(null);
+    setResults(null);
+    setError(null);
+    if (!client || !account) return;
+
+    client.getBoundEmployeeId(account)
+      .then(setEmployeeId)
+      .catch((err) => setError(toFhevmError(err, 'Failed to load employee binding')));
+  }, [client, account, cycleId]);
+
+  const decrypt = useCallback(async () => {
+    if (!client || !account || !employeeId || !cycleId) return null;
+
+    setIsDecrypting(true);
+    setError(null);
+
+    try {
+      // The contract grants the ACL once, later decryptions only need a fresh signature
+      if (!(await client.isAggregateAllowed(employeeId, cycleId, account))) {
+        await client.allowOwnAggregate(cycleId);
+      }
+
+      const own = await client.decryptOwnResults(cycleId);
+      setResults(own);
+      return own;
+    } catch (err) {
+      setError(toFhevmError(err, 'Decrypting your results failed'));
+      throw err;
+    } finally {
+      setIsDecrypting(false);
+    }
+  }, [client, account, employeeId, cycleId]);
+
+  return {
+    employeeId,
+    results,
+    decrypt,
+    isDecrypting,
+    error,
+  };
+}
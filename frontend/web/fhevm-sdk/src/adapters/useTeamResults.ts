@@ -0,0 +1,62 @@
+/**
+ * Wagmi-like hook for a manager decrypting their team's results
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import { toFhevmError } from '../core/index.js';
+import type { FhevmError, ReviewGuardClient, TeamMemberResults } from '../core/index.js';
+
+export function useTeamResults(
+  client: ReviewGuardClient | null,
+  account: string | undefined,
+  departmentId: number,
+  cycleId: number
+) {
+  const [team, setTeam] = useState<TeamMemberResults[]>([]);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [error, setError] = useState<FhevmError | null>(null);
+
+  useEffect(() => {
+    setTeam([]);
+    setError(null);
+  }, [client, account, departmentId, cycleId]);
+
+  const decrypt = useCallback(async () => {
+    if (!client || !account || !cycleId) return null;
+
+    setIsDecrypting(true);
+    setError(null);
+
+    try {
+      // Only ask for new grants when a member past the threshold is still sealed for this account
+      const [roster, minReviewers] = await Promise.all([
+        client.getDepartmentRoster(departmentId, cycleId),
+        client.getCycleMinReviewers(cycleId),
+      ]);
+      const sealed = await Promise.all(
+        roster
+          .filter((employee) => employee.reviewerCount >= minReviewers)
+          .map(async (employee) => !(await client.isAggregateAllowed(employee.employeeId, cycleId, account)))
+      );
+      if (sealed.some(Boolean)) {
+        await client.allowTeamAggregates(departmentId, cycleId);
+      }
+
+      const results = await client.decryptTeamResults(departmentId, cycleId);
+      setTeam(results);
+      return results;
+    } catch (err) {
+      setError(toFhevmError(err, 'Decrypting team results failed'));
+      throw err;
+    } finally {
+      setIsDecrypting(false);
+    }
+  }, [client, account, departmentId, cycleId]);
+
+  return {
+    team,
+    decrypt,
+    isDecrypting,
+    error,
+  };
+}
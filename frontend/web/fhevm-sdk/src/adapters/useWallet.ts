@@ -3,6 +3,7 @@
  */
 
 import { useState, useCallback, useEffect } from 'react';
+import { DecryptionSession } from '../core/index.js';
 
 export function useWallet() {
   const [address, setAddress] = useState<string>('');
@@ -73,6 +74,8 @@ export function useWallet() {
     setIsConnected(false);
     setChainId(0);
     setError('');
+    // A disconnected wallet should not leave a usable decryption signature behind
+    DecryptionSession.clear().catch((err) => console.error('❌ Clearing decryption sessions failed:', err));
     console.log('🔌 Wallet disconnected');
   }, []);
 
@@ -4,13 +4,14 @@
  */
 
 import { ethers } from 'ethers';
-import { createEncryptedInput } from './fhevm.js';
+import { getDefaultFhevmClient } from './fhevm.js';
+import type { EncryptScale, FhevmClient } from './fhevm.js';
 
 export class FhevmContract {
   private contract: ethers.Contract;
   private address: string;
 
-  constructor(contract: ethers.Contract, address: string) {
+  constructor(contract: ethers.Contract, address: string, private readonly fhevm: FhevmClient = getDefaultFhevmClient()) {
     this.contract = contract;
     this.address = address;
   }
@@ -45,8 +46,8 @@ export class FhevmContract {
   /**
    * Create encrypted input for contract
    */
-  async createEncryptedInput(userAddress: string, value: number) {
-    return createEncryptedInput(this.address, userAddress, value);
+  async createEncryptedInput(userAddress: string, value: number, scale?: EncryptScale) {
+    return this.fhevm.createEncryptedInput(this.address, userAddress, value, scale);
   }
 }
 
@@ -0,0 +1,404 @@
+/**
+ * EIP-712 decryption sessions - Universal SDK
+ * One keypair and one signature are reused for every user decryption until the session expires
+ */
+
+import { ethers } from 'ethers';
+import { SessionExpiredError } from './errors.js';
+
+export const DEFAULT_SESSION_DURATION_DAYS = 1;
+
+/** The relayer accepts at most this many contracts in one EIP-712 decryption request */
+export const MAX_SESSION_CONTRACTS = 10;
+
+// Sessions this close to expiry are renewed rather than handed to the relayer
+const EXPIRY_MARGIN_SECONDS = 60;
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+export interface DecryptionSessionOptions {
+  /** How long the signature stays valid, defaults to DEFAULT_SESSION_DURATION_DAYS */
+  durationDays?: number;
+  /** Extra contracts to cover up front while the session has room, so later calls against them need no new signature */
+  contractAddresses?: string[];
+  /** Where sessions are persisted, IndexedDB in browsers and memory elsewhere by default */
+  store?: SessionStore;
+}
+
+/** Everything needed to resume a session without asking the wallet again */
+export interface StoredSession {
+  userAddress: string;
+  chainId: string;
+  contractAddresses: string[];
+  startTimestamp: number;
+  durationDays: number;
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+}
+
+export interface SessionStore {
+  load(key: string): Promise<StoredSession | null>;
+  save(key: string, session: StoredSession): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export class MemorySessionStore implements SessionStore {
+  private readonly sessions = new Map<string, StoredSession>();
+
+  async load(key: string): Promise<StoredSession | null> {
+    return this.sessions.get(key) ?? null;
+  }
+
+  async save(key: string, session: StoredSession): Promise<void> {
+    this.sessions.set(key, session);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.sessions.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.sessions.clear();
+  }
+}
+
+const DB_VERSION = 1;
+const SESSIONS = 'sessions';
+const KEYS = 'keys';
+const WRAPPING_KEY = 'wrapping-key';
+
+interface EncryptedRecord {
+  iv: Uint8Array<ArrayBuffer>;
+  ciphertext: ArrayBuffer;
+}
+
+/**
+ * Persists sessions in IndexedDB, encrypted with AES-GCM.
+ * The AES key is generated non-extractable and stored next to the sessions, so the private key never touches disk in clear
+ */
+export class IndexedDbSessionStore implements SessionStore {
+  private db: Promise<IDBDatabase> | null = null;
+  private key: Promise<CryptoKey> | null = null;
+
+  constructor(private readonly dbName = 'fhevm-sdk-sessions') {}
+
+  async load(key: string): Promise<StoredSession | null> {
+    const record = await this.request<EncryptedRecord | undefined>(SESSIONS, 'readonly', (store) => store.get(key));
+    if (!record) {
+      return null;
+    }
+
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: record.iv },
+        await this.wrappingKey(),
+        record.ciphertext
+      );
+      return JSON.parse(new TextDecoder().decode(plaintext)) as StoredSession;
+    } catch {
+      // A record written under a lost key cannot be read back, treat it as absent
+      await this.delete(key);
+      return null;
+    }
+  }
+
+  async save(key: string, session: StoredSession): Promise<void> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      await this.wrappingKey(),
+      new TextEncoder().encode(JSON.stringify(session))
+    );
+    const record: EncryptedRecord = { iv, ciphertext };
+    await this.request(SESSIONS, 'readwrite', (store) => store.put(record, key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.request(SESSIONS, 'readwrite', (store) => store.delete(key));
+  }
+
+  async clear(): Promise<void> {
+    await this.request(SESSIONS, 'readwrite', (store) => store.clear());
+  }
+
+  private wrappingKey(): Promise<CryptoKey> {
+    // Concurrent calls share one lookup, so a single store never generates two keys
+    this.key ??= this.loadWrappingKey().catch((error) => {
+      this.key = null;
+      throw error;
+    });
+    return this.key;
+  }
+
+  private async loadWrappingKey(): Promise<CryptoKey> {
+    const existing = await this.readWrappingKey();
+    if (existing) {
+      return existing;
+    }
+
+    const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+    try {
+      // add rather than put, a key another store or tab wrote in the meantime must not be replaced
+      await this.request(KEYS, 'readwrite', (store) => store.add(key, WRAPPING_KEY));
+      return key;
+    } catch (error) {
+      const winner = await this.readWrappingKey();
+      if (!winner) {
+        throw error;
+      }
+      return winner;
+    }
+  }
+
+  private readWrappingKey(): Promise<CryptoKey | undefined> {
+    return this.request<CryptoKey | undefined>(KEYS, 'readonly', (store) => store.get(WRAPPING_KEY));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, DB_VERSION);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(SESSIONS);
+          request.result.createObjectStore(KEYS);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+
+  private async request<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+export function defaultSessionStore(): SessionStore {
+  return typeof indexedDB === 'undefined' ? new MemorySessionStore() : new IndexedDbSessionStore();
+}
+
+export interface HandleContractPair {
+  handle: string;
+  contractAddress: string;
+}
+
+/**
+ * A keypair plus the user's EIP-712 signature authorizing it for a set of contracts.
+ * Open one with DecryptionSession.open, it is resumed from the store while it is valid and covers the contracts
+ */
+export class DecryptionSession {
+  private constructor(
+    private readonly fhe: any,
+    private readonly stored: StoredSession
+  ) {}
+
+  get userAddress(): string {
+    return this.stored.userAddress;
+  }
+
+  get chainId(): string {
+    return this.stored.chainId;
+  }
+
+  get contractAddresses(): string[] {
+    return [...this.stored.contractAddresses];
+  }
+
+  /** Unix timestamp in seconds */
+  get expiresAt(): number {
+    return this.stored.startTimestamp + this.stored.durationDays * SECONDS_PER_DAY;
+  }
+
+  isExpired(now = Math.floor(Date.now() / 1000)): boolean {
+    return now + EXPIRY_MARGIN_SECONDS >= this.expiresAt;
+  }
+
+  covers(contractAddresses: string[]): boolean {
+    const covered = new Set(this.stored.contractAddresses);
+    return contractAddresses.every((address) => covered.has(ethers.getAddress(address)));
+  }
+
+  /**
+   * Resume the signer's session or sign a new one.
+   * A new session keeps covering the contracts of the one it replaces
+   */
+  static async open(
+    fhe: any,
+    signer: any,
+    contractAddresses: string[],
+    options: DecryptionSessionOptions = {}
+  ): Promise<DecryptionSession> {
+    const store = options.store ?? sharedSessionStore();
+    const userAddress = ethers.getAddress(await signer.getAddress());
+    const network = await signer.provider?.getNetwork?.();
+    const chainId = network ? network.chainId.toString() : 'unknown';
+    const key = `${chainId}:${userAddress.toLowerCase()}`;
+
+    const covered = new Set(contractAddresses.map((address) => ethers.getAddress(address)));
+    if (covered.size > MAX_SESSION_CONTRACTS) {
+      throw new Error(
+        `A decryption session covers at most ${MAX_SESSION_CONTRACTS} contracts, got ${covered.size}, split the request by contract`
+      );
+    }
+    // The extra contracts are a hint, they only join while the session has room
+    for (const address of options.contractAddresses ?? []) {
+      if (covered.size < MAX_SESSION_CONTRACTS) {
+        covered.add(ethers.getAddress(address));
+      }
+    }
+
+    // Opens for the same user queue behind the one in flight, which usually leaves a session they can resume
+    const pending = pendingOpensOf(store);
+    const opening = (pending.get(key) ?? Promise.resolve())
+      .catch(() => undefined)
+      .then(() =>
+        DecryptionSession.resumeOrSign(fhe, signer, store, key, {
+          userAddress,
+          chainId,
+          contractAddresses: [...covered],
+          durationDays: options.durationDays ?? DEFAULT_SESSION_DURATION_DAYS,
+        })
+      );
+    pending.set(key, opening);
+    try {
+      return await opening;
+    } finally {
+      if (pending.get(key) === opening) {
+        pending.delete(key);
+      }
+    }
+  }
+
+  private static async resumeOrSign(
+    fhe: any,
+    signer: any,
+    store: SessionStore,
+    key: string,
+    request: Pick<StoredSession, 'userAddress' | 'chainId' | 'contractAddresses' | 'durationDays'>
+  ): Promise<DecryptionSession> {
+    const active = activeSessionsOf(store);
+    const covered = new Set(request.contractAddresses);
+    const existing = active.get(key) ?? (await store.load(key));
+    if (existing) {
+      const current = new DecryptionSession(fhe, existing);
+      if (!current.isExpired() && current.covers([...covered])) {
+        active.set(key, existing);
+        return current;
+      }
+      // Carry the old contracts over while they fit, otherwise the new session only covers this request
+      const carried = new Set([...covered, ...current.contractAddresses]);
+      if (!current.isExpired() && carried.size <= MAX_SESSION_CONTRACTS) {
+        carried.forEach((address) => covered.add(address));
+      }
+    }
+
+    const stored = await DecryptionSession.sign(fhe, signer, { ...request, contractAddresses: [...covered] });
+    active.set(key, stored);
+    await store.save(key, stored);
+    return new DecryptionSession(fhe, stored);
+  }
+
+  /**
+   * Forget every session of a store, e.g. when the wallet disconnects
+   */
+  static async clear(store: SessionStore = sharedSessionStore()): Promise<void> {
+    activeSessions.delete(store);
+    await store.clear();
+  }
+
+  /**
+   * Decrypt handles the user is allowed on, without prompting the wallet
+   */
+  async userDecrypt(pairs: HandleContractPair[]): Promise<Record<string, bigint | boolean | string>> {
+    if (this.isExpired()) {
+      throw new SessionExpiredError('Decryption session expired, open a new one');
+    }
+    if (!this.covers(pairs.map((pair) => pair.contractAddress))) {
+      throw new Error('Decryption session does not cover every contract of the request');
+    }
+
+    return this.fhe.userDecrypt(
+      pairs,
+      this.stored.privateKey,
+      this.stored.publicKey,
+      this.stored.signature.replace('0x', ''),
+      this.stored.contractAddresses,
+      this.stored.userAddress,
+      String(this.stored.startTimestamp),
+      String(this.stored.durationDays)
+    );
+  }
+
+  private static async sign(
+    fhe: any,
+    signer: any,
+    session: Pick<StoredSession, 'userAddress' | 'chainId' | 'contractAddresses' | 'durationDays'>
+  ): Promise<StoredSession> {
+    const keypair = fhe.generateKeypair();
+    const startTimestamp = Math.floor(Date.now() / 1000);
+    const eip712 = fhe.createEIP712(
+      keypair.publicKey,
+      session.contractAddresses,
+      String(startTimestamp),
+      String(session.durationDays)
+    );
+
+    const signature = await signer.signTypedData(
+      eip712.domain,
+      {
+        UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
+      },
+      eip712.message
+    );
+
+    return {
+      ...session,
+      startTimestamp,
+      publicKey: keypair.publicKey,
+      privateKey: keypair.privateKey,
+      signature,
+    };
+  }
+}
+
+// Sessions resumed in this page per store, so each store is only read once per signer
+const activeSessions = new WeakMap<SessionStore, Map<string, StoredSession>>();
+const pendingOpens = new WeakMap<SessionStore, Map<string, Promise<DecryptionSession>>>();
+let defaultStore: SessionStore | null = null;
+
+function activeSessionsOf(store: SessionStore): Map<string, StoredSession> {
+  let active = activeSessions.get(store);
+  if (!active) {
+    active = new Map();
+    activeSessions.set(store, active);
+  }
+  return active;
+}
+
+function pendingOpensOf(store: SessionStore): Map<string, Promise<DecryptionSession>> {
+  let pending = pendingOpens.get(store);
+  if (!pending) {
+    pending = new Map();
+    pendingOpens.set(store, pending);
+  }
+  return pending;
+}
+
+/**
+ * Store used when none is given, shared by every caller in the page
+ */
+export function sharedSessionStore(): SessionStore {
+  defaultStore ??= defaultSessionStore();
+  return defaultStore;
+}
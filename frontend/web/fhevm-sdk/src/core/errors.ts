@@ -0,0 +1,172 @@
+/**
+ * Typed FHEVM errors - Universal SDK
+ * Relayer, KMS, coprocessor and wallet failures classified by cause, with a hint on whether retrying can help
+ */
+
+export type FhevmErrorCode =
+  | 'RELAYER_UNAVAILABLE'
+  | 'ACL_DENIED'
+  | 'INVALID_HANDLE'
+  | 'SIGNATURE_REJECTED'
+  | 'PROOF_VERIFICATION_FAILED'
+  | 'SESSION_EXPIRED'
+  | 'ANONYMITY_THRESHOLD_NOT_MET'
+  | 'UNKNOWN';
+
+const DEFAULT_RETRY_AFTER_MS = 2_000;
+const RATE_LIMIT_RETRY_AFTER_MS = 10_000;
+
+export interface FhevmErrorOptions {
+  /** Error this one was classified from */
+  cause?: unknown;
+  /** Suggested wait before retrying, only set on retryable errors */
+  retryAfterMs?: number;
+}
+
+/**
+ * Base of every error the SDK's encryption and decryption calls throw.
+ * Errors it could not classify keep the code UNKNOWN and the original message
+ */
+export class FhevmError extends Error {
+  readonly code: FhevmErrorCode = 'UNKNOWN';
+  /** Whether repeating the same call can succeed */
+  readonly retryable: boolean = false;
+  readonly retryAfterMs?: number;
+  readonly cause?: unknown;
+
+  constructor(message: string, options: FhevmErrorOptions = {}) {
+    super(message);
+    this.name = 'FhevmError';
+    this.cause = options.cause;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/** The relayer or the node could not be reached, was rate limited or failed internally */
+export class RelayerUnavailableError extends FhevmError {
+  readonly code = 'RELAYER_UNAVAILABLE';
+  readonly retryable = true;
+
+  constructor(message: string, options: FhevmErrorOptions = {}) {
+    super(message, { retryAfterMs: DEFAULT_RETRY_AFTER_MS, ...options });
+    this.name = 'RelayerUnavailableError';
+  }
+}
+
+/** The user or the contract is not allowed on a handle, the contract has to grant access first */
+export class AclDeniedError extends FhevmError {
+  readonly code = 'ACL_DENIED';
+
+  constructor(message: string, options?: FhevmErrorOptions) {
+    super(message, options);
+    this.name = 'AclDeniedError';
+  }
+}
+
+/** A handle is malformed, of the wrong type or unknown to the coprocessor */
+export class InvalidHandleError extends FhevmError {
+  readonly code = 'INVALID_HANDLE';
+
+  constructor(message: string, options?: FhevmErrorOptions) {
+    super(message, options);
+    this.name = 'InvalidHandleError';
+  }
+}
+
+/** The wallet refused to sign, or the EIP-712 signature does not authorize the request */
+export class SignatureRejectedError extends FhevmError {
+  readonly code = 'SIGNATURE_REJECTED';
+  // The user may approve when asked again
+  readonly retryable = true;
+
+  constructor(message: string, options?: FhevmErrorOptions) {
+    super(message, options);
+    this.name = 'SignatureRejectedError';
+  }
+}
+
+/** KMS or coprocessor signatures returned by the relayer do not check out against the on-chain signer sets */
+export class ProofVerificationError extends FhevmError {
+  readonly code = 'PROOF_VERIFICATION_FAILED';
+
+  constructor(message: string, options?: FhevmErrorOptions) {
+    super(message, options);
+    this.name = 'ProofVerificationError';
+  }
+}
+
+/** The decryption session expired, retrying opens a new one */
+export class SessionExpiredError extends FhevmError {
+  readonly code = 'SESSION_EXPIRED';
+  readonly retryable = true;
+
+  constructor(message: string, options?: FhevmErrorOptions) {
+    super(message, options);
+    this.name = 'SessionExpiredError';
+  }
+}
+
+/** Too few distinct reviewers for the aggregate to be revealed without exposing individual reviews */
+export class AnonymityThresholdError extends FhevmError {
+  readonly code = 'ANONYMITY_THRESHOLD_NOT_MET';
+
+  constructor(message: string, options?: FhevmErrorOptions) {
+    super(message, options);
+    this.name = 'AnonymityThresholdError';
+  }
+}
+
+// The relayer SDK tags its HTTP failures with a cause code, everything else is only told apart by message
+const RELAYER_FAILURE_CODES = [
+  'RELAYER_FETCH_ERROR',
+  'RELAYER_NO_JSON_ERROR',
+  'RELAYER_UNEXPECTED_JSON_ERROR',
+  'RELAYER_INTERNAL_ERROR',
+  'RELAYER_UNKNOWN_ERROR',
+];
+
+// Checked in order, messages of the relayer SDK, the Hardhat plugin's mock, the mock backend and ReviewGuardFHE reverts
+const MESSAGE_CLASSES: [RegExp, new (message: string, options?: FhevmErrorOptions) => FhevmError][] = [
+  [/failed to fetch|networkerror|fetch failed|econnrefused|rate limit/i, RelayerUnavailableError],
+  [/is not authorized|not allowed for public decryption/i, AclDeniedError],
+  [/^User decrypt request has expired/, SessionExpiredError],
+  [/list of (kms|coprocessor) signers|duplicate (kms|coprocessor) signer|incorrect handle|coprocessor signature/i, ProofVerificationError],
+  [/eip-712 signature|not covered by the user decrypt signature|not listed in the contractaddresses/i, SignatureRejectedError],
+  [/^Handle \S+ is not of valid (length|type)|^Unsupported handle type|^Handle \S+ is unknown to the mock backend/, InvalidHandleError],
+  [/Not enough reviewers/, AnonymityThresholdError],
+];
+
+/**
+ * Classify any thrown value, FhevmErrors are returned unchanged.
+ * The fallback message is used when the value is not an Error
+ */
+export function toFhevmError(error: unknown, fallbackMessage = 'FHEVM operation failed'): FhevmError {
+  if (error instanceof FhevmError) {
+    return error;
+  }
+
+  const err = error as any;
+  const message = typeof err?.message === 'string' && err.message ? err.message : fallbackMessage;
+
+  // ethers wraps wallet rejections as ACTION_REJECTED, EIP-1193 wallets use code 4001
+  if (err?.code === 'ACTION_REJECTED' || err?.code === 4001 || err?.info?.error?.code === 4001) {
+    return new SignatureRejectedError('The wallet rejected the signature request', { cause: error });
+  }
+
+  const cause = err?.cause;
+  if (RELAYER_FAILURE_CODES.includes(cause?.code)) {
+    // 4xx responses other than rate limiting are rejections of the request itself
+    const status: number | undefined = cause.status;
+    if (status === undefined || status === 429 || status >= 500) {
+      const retryAfterMs = status === 429 ? RATE_LIMIT_RETRY_AFTER_MS : DEFAULT_RETRY_AFTER_MS;
+      return new RelayerUnavailableError(message, { cause: error, retryAfterMs });
+    }
+  }
+
+  for (const [pattern, ErrorClass] of MESSAGE_CLASSES) {
+    if (pattern.test(message)) {
+      return new ErrorClass(message, { cause: error });
+    }
+  }
+  return new FhevmError(message, { cause: error });
+}
@@ -5,13 +5,35 @@
  */
 
 import { ethers } from "ethers";
+import { DecryptionSession, MAX_SESSION_CONTRACTS, defaultSessionStore, sharedSessionStore } from "./decryptionSession.js";
+import type { DecryptionSessionOptions, HandleContractPair, SessionStore } from "./decryptionSession.js";
+import { InvalidHandleError, toFhevmError } from "./errors.js";
+import { mockBackend } from "./mockBackend.js";
+import { resolveNetwork } from "./networks.js";
+import { createEip1193Provider, resolveNodeSigner } from "./nodeProvider.js";
+import type { NodeSignerSource } from "./nodeProvider.js";
+import type { FhevmNetwork, FhevmNetworkConfig } from "./networks.js";
 
-let fheInstance: any = null;
+/**
+ * Instance config the relayer SDK expects, without the provider
+ */
+function toInstanceConfig(network: FhevmNetworkConfig) {
+  return {
+    chainId: network.chainId,
+    gatewayChainId: network.gatewayChainId,
+    aclContractAddress: network.aclContractAddress,
+    kmsContractAddress: network.kmsContractAddress,
+    inputVerifierContractAddress: network.inputVerifierContractAddress,
+    verifyingContractAddressDecryption: network.verifyingContractAddressDecryption,
+    verifyingContractAddressInputVerification: network.verifyingContractAddressInputVerification,
+    relayerUrl: network.relayerUrl,
+  };
+}
 
 /**
  * Initialize FHEVM instance for browser environment
  */
-async function initializeBrowserFheInstance() {
+async function createBrowserFheInstance(network: FhevmNetworkConfig) {
   if (typeof window === 'undefined' || !window.ethereum) {
     throw new Error('Ethereum provider not found. Please install MetaMask or connect a wallet.');
   }
@@ -23,7 +45,7 @@ async function initializeBrowserFheInstance() {
     throw new Error('RelayerSDK not loaded. Please include the script tag in your HTML:\n<script src="https://cdn.zama.org/relayer-sdk-js/0.3.0-5/relayer-sdk-js.umd.cjs"></script>');
   }
 
-  const { initSDK, createInstance, SepoliaConfig } = sdk;
+  const { initSDK, createInstance } = sdk;
 
   // Try to initialize SDK with CDN first (default behavior)
   // If it fails (e.g., CORS error), fallback to local WASM files
@@ -41,11 +63,10 @@ async function initializeBrowserFheInstance() {
     console.log('✅ FHEVM SDK initialized with local WASM files');
   }
 
-  const config = { ...SepoliaConfig, network: window.ethereum };
+  const config = { ...toInstanceConfig(network), network: window.ethereum };
 
   try {
-    fheInstance = await createInstance(config);
-    return fheInstance;
+    return await createInstance(config);
   } catch (err) {
     console.error('FHEVM browser instance creation failed:', err);
     throw err;
@@ -54,344 +75,743 @@ async function initializeBrowserFheInstance() {
 
 /**
  * Initialize FHEVM instance for Node.js environment
- * REAL FUNCTIONALITY - uses actual RelayerSDK
+ * REAL FUNCTIONALITY - uses actual RelayerSDK, backed by a JSON-RPC provider and the job's signer
  */
-async function initializeNodeFheInstance(rpcUrl?: string) {
+async function createNodeFheInstance(network: FhevmNetworkConfig, rpcUrl?: string, signerSource?: NodeSignerSource) {
   try {
     console.log('🚀 Initializing REAL FHEVM Node.js instance...');
     
     // Use eval to prevent webpack from analyzing these imports
     const relayerSDKModule = await eval('import("@zama-fhe/relayer-sdk/node")');
-    const { createInstance, SepoliaConfig, generateKeypair } = relayerSDKModule;
-    
-    // Create an EIP-1193 compatible provider for Node.js
-    const ethersModule = await eval('import("ethers")');
-    const provider = new ethersModule.ethers.JsonRpcProvider(rpcUrl || 'https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3');
+    const { createInstance } = relayerSDKModule;
     
-    // Create EIP-1193 provider wrapper
-    const eip1193Provider = {
-      request: async ({ method, params }: { method: string; params: any[] }) => {
-        switch (method) {
-          case 'eth_chainId':
-            return '0xaa36a7'; // Sepolia chain ID
-          case 'eth_accounts':
-            return ['---YOUR-ADDRESS-HERE---'];
-          case 'eth_requestAccounts':
-            return ['---YOUR-ADDRESS-HERE---'];
-          case 'eth_call':
-            // Use the real provider for blockchain calls
-            return await provider.call(params[0]);
-          case 'eth_sendTransaction':
-            // Use the real provider for transactions
-            return await provider.broadcastTransaction(params[0]);
-          default:
-            throw new Error(`Unsupported method: ${method}`);
-        }
-      },
-      on: () => {},
-      removeListener: () => {}
-    };
+    const url = rpcUrl ?? network.rpcUrl;
+    if (!url) {
+      throw new Error(`No RPC URL for FHEVM network "${network.name}", pass rpcUrl`);
+    }
+    const provider = new ethers.JsonRpcProvider(url, network.chainId, { staticNetwork: true });
+    const signer = signerSource ? await resolveNodeSigner(signerSource, provider) : null;
     
     const config = { 
-      ...SepoliaConfig, 
-      network: eip1193Provider 
+      ...toInstanceConfig(network), 
+      network: createEip1193Provider(provider, signer) 
     };
     
-    fheInstance = await createInstance(config);
+    const instance = await createInstance(config);
     console.log('✅ REAL FHEVM Node.js instance created successfully!');
-    return fheInstance;
+    return { instance, signer };
   } catch (err) {
     console.error('FHEVM Node.js instance creation failed:', err);
     throw err;
   }
 }
 
+export interface FheInstanceOptions {
+  /** Preset name or custom config, defaults to Sepolia */
+  network?: FhevmNetwork;
+  /** Overrides the network's RPC URL in Node.js */
+  rpcUrl?: string;
+  /** Account used for transactions and user decryption in Node.js, browsers use the injected wallet */
+  signer?: NodeSignerSource;
+  /** Where instances come from, the relayer by default, 'mock' for local development without one */
+  backend?: FhevmBackendName | FhevmBackend;
+}
+
 /**
- * Initialize FHEVM instance - Environment-aware
- * MAINTAINS BACKWARD COMPATIBILITY
+ * Creates the relayer-compatible instance the SDK encrypts and decrypts with
  */
-export async function initializeFheInstance(options?: { rpcUrl?: string }) {
-  // Detect environment
-  if (typeof window !== 'undefined' && window.ethereum) {
-    // Browser environment - use existing working code
-    return initializeBrowserFheInstance();
-  } else {
+export interface FhevmBackend {
+  readonly name: string;
+  createInstance(network: FhevmNetworkConfig, options: FheInstanceOptions): Promise<{ instance: any; signer: ethers.Signer | null }>;
+}
+
+export type FhevmBackendName = 'relayer' | 'mock';
+
+/**
+ * The Zama relayer SDK, from the page's script tag in browsers and the Node.js package elsewhere
+ */
+export const relayerBackend: FhevmBackend = {
+  name: 'relayer',
+  async createInstance(network, options) {
+    // Detect environment
+    if (typeof window !== 'undefined' && window.ethereum) {
+      // Browser environment - use existing working code
+      return { instance: await createBrowserFheInstance(network), signer: null };
+    }
     // Node.js environment - use new functionality
-    return initializeNodeFheInstance(options?.rpcUrl);
+    return createNodeFheInstance(network, options.rpcUrl, options.signer);
+  },
+};
+
+function resolveBackend(backend: FhevmBackendName | FhevmBackend = 'relayer'): FhevmBackend {
+  if (typeof backend !== 'string') {
+    return backend;
+  }
+  switch (backend) {
+    case 'relayer':
+      return relayerBackend;
+    case 'mock':
+      return mockBackend();
+    default:
+      throw new Error(`Unknown FHEVM backend "${backend}", expected relayer or mock`);
   }
 }
 
-export function getFheInstance() {
-  return fheInstance;
+
+/** Clear value each FHE type decrypts to */
+export interface FheValueTypes {
+  ebool: boolean;
+  euint8: bigint;
+  euint16: bigint;
+  euint32: bigint;
+  euint64: bigint;
+  euint128: bigint;
+  eaddress: string;
+  euint256: bigint;
+}
+
+export type FheType = keyof FheValueTypes;
+
+export type ClearValue<T extends FheType> = FheValueTypes[T];
+
+export type DecryptedValue = ClearValue<FheType>;
+
+// FHE type and encrypted bits, keyed by the type byte of the handle
+const HANDLE_TYPES: Record<number, { type: FheType; bits: number }> = {
+  0: { type: 'ebool', bits: 2 },
+  2: { type: 'euint8', bits: 8 },
+  3: { type: 'euint16', bits: 16 },
+  4: { type: 'euint32', bits: 32 },
+  5: { type: 'euint64', bits: 64 },
+  6: { type: 'euint128', bits: 128 },
+  7: { type: 'eaddress', bits: 160 },
+  8: { type: 'euint256', bits: 256 },
+};
+
+function handleTypeOf(handle: string) {
+  const handleType = handle.length === 66 ? HANDLE_TYPES[parseInt(handle.slice(-4, -2), 16)] : undefined;
+  if (!handleType) {
+    throw new InvalidHandleError(`Invalid ciphertext handle ${handle}`);
+  }
+  return handleType;
 }
 
 /**
- * Decrypt a single encrypted value using EIP-712 user decryption (matches showcase API)
+ * FHE type of a handle, read from the type byte the coprocessor embeds in it
  */
-export async function decryptValue(encryptedBytes: string, contractAddress: string, signer: any): Promise<number> {
-  const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
+export function fheTypeOf(handle: string): FheType {
+  return handleTypeOf(handle).type;
+}
 
-  try {
-    console.log('🔐 Using EIP-712 user decryption for handle:', encryptedBytes);
-    
-    // Use EIP-712 user decryption instead of public decryption
-    const keypair = fhe.generateKeypair();
-    const handleContractPairs = [
-      {
-        handle: encryptedBytes,
-        contractAddress: contractAddress,
-      },
-    ];
-    
-    const startTimeStamp = Math.floor(Date.now() / 1000).toString();
-    const durationDays = "10";
-    const contractAddresses = [contractAddress];
-
-    const eip712 = fhe.createEIP712(
-      keypair.publicKey,
-      contractAddresses,
-      startTimeStamp,
-      durationDays
-    );
+/**
+ * Encrypted bit width of a handle, read from the type byte the coprocessor embeds in it
+ */
+export function encryptedBitsOf(handle: string): number {
+  return handleTypeOf(handle).bits;
+}
 
-    const signature = await signer.signTypedData(
-      eip712.domain,
-      {
-        UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
-      },
-      eip712.message
-    );
+/**
+ * Normalize a decrypted value to the clear type of its FHE type, without losing precision
+ */
+export function toClearValue<T extends FheType>(value: unknown, type: T): ClearValue<T> {
+  if (type === 'ebool') {
+    return (value === true || value === 1 || value === 1n || value === '1' || value === 'true') as ClearValue<T>;
+  }
+  if (type === 'eaddress') {
+    const address = typeof value === 'string' ? value : '0x' + BigInt(value as bigint).toString(16).padStart(40, '0');
+    return ethers.getAddress(address) as ClearValue<T>;
+  }
+  return BigInt(value as bigint | number | string) as ClearValue<T>;
+}
 
-    const result = await fhe.userDecrypt(
-      handleContractPairs,
-      keypair.privateKey,
-      keypair.publicKey,
-      signature.replace("0x", ""),
-      contractAddresses,
-      await signer.getAddress(),
-      startTimeStamp,
-      durationDays
-    );
+/** The relayer rejects decryption requests above this many encrypted bits */
+export const MAX_DECRYPTION_BITS = 2048;
 
-    return Number(result[encryptedBytes]);
-  } catch (error: any) {
-    // Check for relayer/network error
-    if (error?.message?.includes('Failed to fetch') || error?.message?.includes('NetworkError')) {
-      throw new Error('Decryption service is temporarily unavailable. Please try again later.');
+/**
+ * Split handles into requests the relayer accepts, keeping their order
+ */
+export function chunkByEncryptedBits<T extends { handle: string }>(
+  pairs: T[],
+  maxBits = MAX_DECRYPTION_BITS
+): T[][] {
+  const chunks: T[][] = [];
+  let current: T[] = [];
+  let bits = 0;
+  for (const pair of pairs) {
+    const size = encryptedBitsOf(pair.handle);
+    if (current.length > 0 && bits + size > maxBits) {
+      chunks.push(current);
+      current = [];
+      bits = 0;
     }
-    throw error;
+    current.push(pair);
+    bits += size;
+  }
+  if (current.length > 0) {
+    chunks.push(current);
   }
+  return chunks;
 }
 
 /**
- * Batch decrypt multiple encrypted values using EIP-712 user decryption
+ * Group handles so no group spans more contracts than one decryption session covers.
+ * Handles of the same contract stay in the same group
  */
-export async function batchDecryptValues(
-  handles: string[], 
-  contractAddress: string, 
-  signer: any
-): Promise<Record<string, number>> {
-  const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
+export function chunkByContracts<T extends { contractAddress: string }>(
+  pairs: T[],
+  maxContracts = MAX_SESSION_CONTRACTS
+): T[][] {
+  const byContract = new Map<string, T[]>();
+  for (const pair of pairs) {
+    const address = ethers.getAddress(pair.contractAddress);
+    byContract.set(address, [...(byContract.get(address) ?? []), pair]);
+  }
 
-  try {
-    console.log('🔐 Using EIP-712 batch user decryption for handles:', handles);
-    
-    const keypair = fhe.generateKeypair();
-    const handleContractPairs = handles.map(handle => ({
-      handle,
-      contractAddress: contractAddress,
-    }));
-    
-    const startTimeStamp = Math.floor(Date.now() / 1000).toString();
-    const durationDays = "10";
-    const contractAddresses = [contractAddress];
-
-    const eip712 = fhe.createEIP712(
-      keypair.publicKey,
-      contractAddresses,
-      startTimeStamp,
-      durationDays
-    );
+  const contracts = [...byContract.values()];
+  const groups: T[][] = [];
+  for (let i = 0; i < contracts.length; i += maxContracts) {
+    groups.push(contracts.slice(i, i + maxContracts).flat());
+  }
+  return groups;
+}
 
-    const signature = await signer.signTypedData(
-      eip712.domain,
-      {
-        UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
-      },
-      eip712.message
-    );
+/**
+ * Plaintext scale an encrypted value has to fit, defaults to the full 32-bit range
+ */
+export interface EncryptScale {
+  min?: number;
+  max?: number;
+}
 
-    const result = await fhe.userDecrypt(
-      handleContractPairs,
-      keypair.privateKey,
-      keypair.publicKey,
-      signature.replace("0x", ""),
-      contractAddresses,
-      await signer.getAddress(),
-      startTimeStamp,
-      durationDays
-    );
+const UINT8_MAX = 0xff;
+const UINT32_MAX = 0xffffffff;
 
-    // Convert result to numbers
-    const decryptedValues: Record<string, number> = {};
-    for (const handle of handles) {
-      decryptedValues[handle] = Number(result[handle]);
-    }
+/**
+ * Smallest supported bit width for values up to `max`: add8 up to 255, add32 beyond
+ */
+export function bitWidthFor(max: number): 8 | 32 {
+  return max <= UINT8_MAX ? 8 : 32;
+}
 
-    return decryptedValues;
-  } catch (error: any) {
-    if (error?.message?.includes('Failed to fetch') || error?.message?.includes('NetworkError')) {
-      throw new Error('Decryption service is temporarily unavailable. Please try again later.');
-    }
-    throw error;
+/**
+ * Validate a plaintext against its scale and add it with the matching bit width
+ */
+function addScaledValue(inputHandle: any, value: number, scale: EncryptScale = {}) {
+  const min = scale.min ?? 0;
+  const max = scale.max ?? UINT32_MAX;
+  if (max > UINT32_MAX) {
+    throw new Error(`Scale maximum ${max} does not fit in 32 bits`);
+  }
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new Error(`Value ${value} is outside the allowed range ${min}-${max}`);
+  }
+
+  if (bitWidthFor(max) === 8) {
+    inputHandle.add8(value);
+  } else {
+    inputHandle.add32(value);
   }
 }
 
 /**
- * Encrypt values using FHEVM
- * 
- * 📝 BIT SIZE SUPPORT:
- * FHEVM supports different bit sizes for encrypted values. If your contract uses a different bit size
- * than the default 32-bit, you can use the appropriate method:
- * - add8(value)   - for 8-bit values (0-255)
- * - add16(value) - for 16-bit values (0-65535) 
- * - add32(value) - for 32-bit values (0-4294967295) - DEFAULT
- * - add64(value) - for 64-bit values (0-18446744073709551615)
- * - add128(value) - for 128-bit values
- * - add256(value) - for 256-bit values
- * 
- * Example: If your contract expects 8-bit values, replace add32() with add8()
+ * Encrypt an input and fetch its proof, relayer and coprocessor failures are rethrown as FhevmErrors
  */
-export async function encryptValue(
-  contractAddress: string,
-  address: string,
-  plainDigits: number[]
-) {
-  const relayer = getFheInstance();
-  if (!relayer) throw new Error("FHEVM not initialized");
-
-  const inputHandle = relayer.createEncryptedInput(contractAddress, address);
-  for (const d of plainDigits) {
-    inputHandle.add8(d);
+async function encryptWithProof(inputHandle: any) {
+  try {
+    return await inputHandle.encrypt();
+  } catch (error) {
+    throw toFhevmError(error, 'Encryption failed');
   }
-  
-  const ciphertextBlob = await inputHandle.encrypt();
-  return ciphertextBlob;
+}
+
+export interface FhevmClientOptions extends FheInstanceOptions {
+  /** Where this client's decryption sessions are persisted, defaults to a store of its own */
+  sessionStore?: SessionStore;
 }
 
 /**
- * Create encrypted input for contract interaction (matches showcase API)
+ * One FHEVM instance with its network and decryption sessions.
+ * Create one per chain or signer, the free functions below use a shared default client
  */
-export async function createEncryptedInput(contractAddress: string, userAddress: string, value: number) {
-  const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
+export class FhevmClient {
+  private instance: any = null;
+  private network: FhevmNetworkConfig | null = null;
+  private signer: ethers.Signer | null = null;
+  private readonly sessionStore: SessionStore;
+
+  constructor(private readonly options: FhevmClientOptions = {}) {
+    this.sessionStore = options.sessionStore ?? defaultSessionStore();
+  }
+
+  get isInitialized(): boolean {
+    return this.instance !== null;
+  }
+
+  /**
+   * Initialize FHEVM instance through the configured backend - Environment-aware
+   * Options override the ones the client was created with
+   */
+  async initialize(options?: FheInstanceOptions) {
+    const merged: FheInstanceOptions = { ...this.options, ...options };
+    const network = resolveNetwork(merged.network);
+
+    ({ instance: this.instance, signer: this.signer } = await resolveBackend(merged.backend).createInstance(network, merged));
+    this.network = network;
+    return this.instance;
+  }
 
-  console.log(`🔐 Creating encrypted input for contract ${contractAddress}, user ${userAddress}, value ${value}`);
+  getInstance() {
+    return this.instance;
+  }
+
+  /**
+   * Network the instance was created for, null before initialization
+   */
+  getNetwork(): FhevmNetworkConfig | null {
+    return this.network;
+  }
+
+  /**
+   * Signer the Node.js instance was created with, pass it wherever a signer is expected.
+   * Null in browsers and when no signer was given
+   */
+  getSigner(): ethers.Signer | null {
+    return this.signer;
+  }
+
+  /**
+   * Forget this client's decryption sessions, e.g. when the wallet disconnects
+   */
+  async clearSessions(): Promise<void> {
+    await DecryptionSession.clear(this.sessionStore);
+  }
+
+  /**
+   * Resume the signer's EIP-712 decryption session or sign a new one covering the contracts
+   */
+  async getDecryptionSession(
+    signer: any,
+    contractAddresses: string[],
+    options?: DecryptionSessionOptions
+  ): Promise<DecryptionSession> {
+    return DecryptionSession.open(this.requireInstance(), signer, contractAddresses, {
+      ...options,
+      store: options?.store ?? this.sessionStore,
+    });
+  }
+
+  /**
+   * Decrypt a single encrypted value using EIP-712 user decryption (matches showcase API)
+   * Resolves to a bigint, boolean or address according to the handle's type, pass the type to narrow it.
+   * The wallet is only asked to sign when no valid session covers the contract
+   */
+  async decryptValue<T extends FheType>(
+    encryptedBytes: string,
+    contractAddress: string,
+    signer: any,
+    type: T,
+    options?: DecryptionSessionOptions
+  ): Promise<ClearValue<T>>;
+  async decryptValue(
+    encryptedBytes: string,
+    contractAddress: string,
+    signer: any,
+    options?: DecryptionSessionOptions
+  ): Promise<DecryptedValue>;
+  async decryptValue(
+    encryptedBytes: string,
+    contractAddress: string,
+    signer: any,
+    typeOrOptions?: FheType | DecryptionSessionOptions,
+    options?: DecryptionSessionOptions
+  ): Promise<DecryptedValue> {
+    const decrypted = typeof typeOrOptions === 'string'
+      ? await this.batchDecryptValues([encryptedBytes], contractAddress, signer, typeOrOptions, options)
+      : await this.batchDecryptValues([encryptedBytes], contractAddress, signer, typeOrOptions);
+    return decrypted[encryptedBytes];
+  }
+
+  /**
+   * Batch decrypt multiple encrypted values using EIP-712 user decryption
+   * Pass a type when every handle shares it to get narrowed values, mismatching handles are rejected.
+   * The wallet is only asked to sign when no valid session covers the contract
+   */
+  async batchDecryptValues<T extends FheType>(
+    handles: string[],
+    contractAddress: string,
+    signer: any,
+    type: T,
+    options?: DecryptionSessionOptions
+  ): Promise<Record<string, ClearValue<T>>>;
+  async batchDecryptValues(
+    handles: string[],
+    contractAddress: string,
+    signer: any,
+    options?: DecryptionSessionOptions
+  ): Promise<Record<string, DecryptedValue>>;
+  async batchDecryptValues(
+    handles: string[], 
+    contractAddress: string, 
+    signer: any,
+    typeOrOptions?: FheType | DecryptionSessionOptions,
+    options?: DecryptionSessionOptions
+  ): Promise<Record<string, DecryptedValue>> {
+    const type = typeof typeOrOptions === 'string' ? typeOrOptions : undefined;
+    if (type) {
+      for (const handle of handles) {
+        if (fheTypeOf(handle) !== type) {
+          throw new InvalidHandleError(`Handle ${handle} is ${fheTypeOf(handle)}, expected ${type}`);
+        }
+      }
+    }
+
+    return this.userDecryptHandles(
+      handles.map(handle => ({ handle, contractAddress })),
+      signer,
+      typeof typeOrOptions === 'string' ? options : typeOrOptions
+    );
+  }
+
+  /**
+   * User-decrypt handles from any number of contracts, with one EIP-712 signature per MAX_SESSION_CONTRACTS contracts.
+   * Requests are split to stay under the relayer's contract and bit limits, the results are keyed by handle and typed by its FHE type
+   */
+  async userDecryptHandles(
+    pairs: HandleContractPair[],
+    signer: any,
+    options?: DecryptionSessionOptions
+  ): Promise<Record<string, DecryptedValue>> {
+    const unique = [...new Map(pairs.map(pair => [pair.handle.toLowerCase(), pair])).values()];
+    if (unique.length === 0) {
+      return {};
+    }
+
+    try {
+      console.log('🔐 Using EIP-712 batch user decryption for handles:', unique.map(pair => pair.handle));
+
+      // The relayer keys its results by lowercase handle
+      const clear: Record<string, DecryptedValue> = {};
+      for (const group of chunkByContracts(unique)) {
+        const session = await this.getDecryptionSession(signer, group.map(pair => pair.contractAddress), options);
+        for (const chunk of chunkByEncryptedBits(group)) {
+          const result = await session.userDecrypt(chunk);
+          for (const [handle, value] of Object.entries(result)) {
+            clear[handle.toLowerCase()] = value;
+          }
+        }
+      }
+
+      const decrypted: Record<string, DecryptedValue> = {};
+      for (const pair of pairs) {
+        decrypted[pair.handle] = toClearValue(clear[pair.handle.toLowerCase()], fheTypeOf(pair.handle));
+      }
+      return decrypted;
+    } catch (error) {
+      throw toFhevmError(error, 'Decryption failed');
+    }
+  }
+
+  /**
+   * Encrypt values using FHEVM
+   * 
+   * 📝 BIT SIZE SUPPORT:
+   * FHEVM supports different bit sizes for encrypted values. If your contract uses a different bit size
+   * than the default 32-bit, you can use the appropriate method:
+   * - add8(value)   - for 8-bit values (0-255)
+   * - add16(value) - for 16-bit values (0-65535) 
+   * - add32(value) - for 32-bit values (0-4294967295) - DEFAULT
+   * - add64(value) - for 64-bit values (0-18446744073709551615)
+   * - add128(value) - for 128-bit values
+   * - add256(value) - for 256-bit values
+   * 
+   * Example: If your contract expects 8-bit values, replace add32() with add8()
+   */
+  async encryptValue(
+    contractAddress: string,
+    address: string,
+    plainDigits: number[]
+  ) {
+    const relayer = this.requireInstance();
+
+    const inputHandle = relayer.createEncryptedInput(contractAddress, address);
+    for (const d of plainDigits) {
+      inputHandle.add8(d);
+    }
+  
+    const ciphertextBlob = await encryptWithProof(inputHandle);
+    return ciphertextBlob;
+  }
+
+  /**
+   * Create encrypted input for contract interaction (matches showcase API)
+   * The value is checked against the scale, which also decides between add8 and add32
+   */
+  async createEncryptedInput(
+    contractAddress: string,
+    userAddress: string,
+    value: number,
+    scale?: EncryptScale
+  ) {
+    const fhe = this.requireInstance();
+
+    console.log(`🔐 Creating encrypted input for contract ${contractAddress}, user ${userAddress}, value ${value}`);
   
-  const inputHandle = fhe.createEncryptedInput(contractAddress, userAddress);
-  inputHandle.add32(value);
-  const result = await inputHandle.encrypt();
+    const inputHandle = fhe.createEncryptedInput(contractAddress, userAddress);
+    addScaledValue(inputHandle, value, scale);
+    const result = await encryptWithProof(inputHandle);
   
-  console.log('✅ Encrypted input created successfully');
-  console.log('🔍 Encrypted result structure:', result);
+    console.log('✅ Encrypted input created successfully');
+    console.log('🔍 Encrypted result structure:', result);
   
-  // The FHEVM SDK returns an object with handles and inputProof
-  // We need to extract the correct values for the contract
-  if (result && typeof result === 'object') {
-    // If result has handles array, use the first handle
-    if (result.handles && Array.isArray(result.handles) && result.handles.length > 0) {
-      return {
-        encryptedData: result.handles[0],
-        proof: result.inputProof
-      };
+    // The FHEVM SDK returns an object with handles and inputProof
+    // We need to extract the correct values for the contract
+    if (result && typeof result === 'object') {
+      // If result has handles array, use the first handle
+      if (result.handles && Array.isArray(result.handles) && result.handles.length > 0) {
+        return {
+          encryptedData: result.handles[0],
+          proof: result.inputProof
+        };
+      }
+      // If result has encryptedData and proof properties
+      else if (result.encryptedData && result.proof) {
+        return {
+          encryptedData: result.encryptedData,
+          proof: result.proof
+        };
+      }
+      // Fallback: use the result as-is
+      else {
+        return {
+          encryptedData: result,
+          proof: result
+        };
+      }
     }
-    // If result has encryptedData and proof properties
-    else if (result.encryptedData && result.proof) {
-      return {
-        encryptedData: result.encryptedData,
-        proof: result.proof
-      };
+  
+    // If result is not an object, use it directly
+    return {
+      encryptedData: result,
+      proof: result
+    };
+  }
+
+  /**
+   * Encrypt several values of the same scale in one input batch that shares a single proof
+   */
+  async createEncryptedInputs(
+    contractAddress: string,
+    userAddress: string,
+    values: number[],
+    scale?: EncryptScale
+  ) {
+    const fhe = this.requireInstance();
+
+    const inputHandle = fhe.createEncryptedInput(contractAddress, userAddress);
+    for (const value of values) {
+      addScaledValue(inputHandle, value, scale);
     }
-    // Fallback: use the result as-is
-    else {
-      return {
-        encryptedData: result,
-        proof: result
-      };
+    const result = await encryptWithProof(inputHandle);
+
+    if (!result || !Array.isArray(result.handles) || result.handles.length !== values.length) {
+      throw new Error('Invalid encrypted input batch');
     }
+
+    return {
+      handles: result.handles as string[],
+      proof: result.inputProof,
+    };
   }
-  
-  // If result is not an object, use it directly
-  return {
-    encryptedData: result,
-    proof: result
-  };
-}
 
-export async function publicDecryptV09(handles: string[]): Promise<{
-  clearValues: { [handle: string]: bigint };
-  abiEncodedClearValues: string;
-  decryptionProof: string;
-}> {
-  const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
+  async publicDecryptV09(handles: string[]): Promise<{
+    clearValues: { [handle: string]: bigint };
+    abiEncodedClearValues: string;
+    decryptionProof: string;
+  }> {
+    const fhe = this.requireInstance();
 
-  try {
-    console.log('🔐 Starting v0.9 public decryption for handles:', handles);
+    try {
+      console.log('🔐 Starting v0.9 public decryption for handles:', handles);
     
-    if (typeof fhe.publicDecrypt === 'function') {
-      const result = await fhe.publicDecrypt(handles);
+      if (typeof fhe.publicDecrypt === 'function') {
+        const result = await fhe.publicDecrypt(handles);
       
-      if (result && result.clearValues && result.abiEncodedClearValues && result.decryptionProof) {
-        return result;
+        if (result && result.clearValues && result.abiEncodedClearValues && result.decryptionProof) {
+          return result;
+        } else {
+          throw new Error('Invalid publicDecrypt result structure');
+        }
       } else {
-        throw new Error('Invalid publicDecrypt result structure');
-      }
-    } else {
-      console.warn('⚠️ Using fallback decryption for v0.9 compatibility');
+        console.warn('⚠️ Using fallback decryption for v0.9 compatibility');
       
-      const clearValues: { [handle: string]: bigint } = {};
-      let abiEncodedClearValues = '0x';
-      const decryptionProof = '0x';
+        const clearValues: { [handle: string]: bigint } = {};
+        let abiEncodedClearValues = '0x';
+        const decryptionProof = '0x';
       
-      for (const handle of handles) {
-        if (typeof handle === "string" && handle.startsWith("0x") && handle.length === 66) {
-          const values = await fhe.publicDecrypt([handle]);
-          const clearValue = BigInt(values[handle]);
-          clearValues[handle] = clearValue;
-        } else {
-          throw new Error('Invalid ciphertext handle for decryption');
+        for (const handle of handles) {
+          if (typeof handle === "string" && handle.startsWith("0x") && handle.length === 66) {
+            const values = await fhe.publicDecrypt([handle]);
+            const clearValue = BigInt(values[handle]);
+            clearValues[handle] = clearValue;
+          } else {
+            throw new InvalidHandleError('Invalid ciphertext handle for decryption');
+          }
         }
-      }
 
-      if (handles.length === 1) {
+        if (handles.length === 1) {
 
-        abiEncodedClearValues = ethers.AbiCoder.defaultAbiCoder().encode(
-          ['uint32'], 
-          [Number(clearValues[handles[0]])]
-        );
-      } else {
+          abiEncodedClearValues = ethers.AbiCoder.defaultAbiCoder().encode(
+            ['uint32'], 
+            [Number(clearValues[handles[0]])]
+          );
+        } else {
 
-        const values = handles.map(handle => Number(clearValues[handle]));
-        abiEncodedClearValues = ethers.AbiCoder.defaultAbiCoder().encode(
-          Array(values.length).fill('uint32'), 
-          values
-        );
-      }
+          const values = handles.map(handle => Number(clearValues[handle]));
+          abiEncodedClearValues = ethers.AbiCoder.defaultAbiCoder().encode(
+            Array(values.length).fill('uint32'), 
+            values
+          );
+        }
       
-      return {
-        clearValues,
-        abiEncodedClearValues,
-        decryptionProof
-      };
-    }
-  } catch (error: any) {
-    if (error?.message?.includes('Failed to fetch') || error?.message?.includes('NetworkError')) {
-      throw new Error('Decryption service is temporarily unavailable. Please try again later.');
+        return {
+          clearValues,
+          abiEncodedClearValues,
+          decryptionProof
+        };
+      }
+    } catch (error) {
+      throw toFhevmError(error, 'Decryption failed');
     }
-    throw error;
   }
+
+  private requireInstance() {
+    if (!this.instance) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
+    return this.instance;
+  }
+}
+
+// The free functions delegate to this client, see FhevmClient for their docs
+let defaultClient: FhevmClient | null = null;
+
+/**
+ * Client behind the free functions, created on first use
+ */
+export function getDefaultFhevmClient(): FhevmClient {
+  // Shares the page's session store, so DecryptionSession.clear() also forgets its sessions
+  defaultClient ??= new FhevmClient({ sessionStore: sharedSessionStore() });
+  return defaultClient;
+}
+
+/**
+ * Initialize the default client's FHEVM instance
+ * MAINTAINS BACKWARD COMPATIBILITY
+ */
+export async function initializeFheInstance(options?: FheInstanceOptions) {
+  return getDefaultFhevmClient().initialize(options);
+}
+
+export function getFheInstance() {
+  return getDefaultFhevmClient().getInstance();
+}
+
+export function getFheNetwork(): FhevmNetworkConfig | null {
+  return getDefaultFhevmClient().getNetwork();
 }
 
+export function getFheSigner(): ethers.Signer | null {
+  return getDefaultFhevmClient().getSigner();
+}
+
+export async function getDecryptionSession(
+  signer: any,
+  contractAddresses: string[],
+  options?: DecryptionSessionOptions
+): Promise<DecryptionSession> {
+  return getDefaultFhevmClient().getDecryptionSession(signer, contractAddresses, options);
+}
+
+export async function decryptValue<T extends FheType>(
+  encryptedBytes: string,
+  contractAddress: string,
+  signer: any,
+  type: T,
+  options?: DecryptionSessionOptions
+): Promise<ClearValue<T>>;
+export async function decryptValue(
+  encryptedBytes: string,
+  contractAddress: string,
+  signer: any,
+  options?: DecryptionSessionOptions
+): Promise<DecryptedValue>;
+export async function decryptValue(
+  encryptedBytes: string,
+  contractAddress: string,
+  signer: any,
+  typeOrOptions?: FheType | DecryptionSessionOptions,
+  options?: DecryptionSessionOptions
+): Promise<DecryptedValue> {
+  const client = getDefaultFhevmClient();
+  return typeof typeOrOptions === 'string'
+    ? client.decryptValue(encryptedBytes, contractAddress, signer, typeOrOptions, options)
+    : client.decryptValue(encryptedBytes, contractAddress, signer, typeOrOptions);
+}
+
+export async function batchDecryptValues<T extends FheType>(
+  handles: string[],
+  contractAddress: string,
+  signer: any,
+  type: T,
+  options?: DecryptionSessionOptions
+): Promise<Record<string, ClearValue<T>>>;
+export async function batchDecryptValues(
+  handles: string[],
+  contractAddress: string,
+  signer: any,
+  options?: DecryptionSessionOptions
+): Promise<Record<string, DecryptedValue>>;
+export async function batchDecryptValues(
+  handles: string[],
+  contractAddress: string,
+  signer: any,
+  typeOrOptions?: FheType | DecryptionSessionOptions,
+  options?: DecryptionSessionOptions
+): Promise<Record<string, DecryptedValue>> {
+  const client = getDefaultFhevmClient();
+  return typeof typeOrOptions === 'string'
+    ? client.batchDecryptValues(handles, contractAddress, signer, typeOrOptions, options)
+    : client.batchDecryptValues(handles, contractAddress, signer, typeOrOptions);
+}
+
+export async function userDecryptHandles(
+  pairs: HandleContractPair[],
+  signer: any,
+  options?: DecryptionSessionOptions
+): Promise<Record<string, DecryptedValue>> {
+  return getDefaultFhevmClient().userDecryptHandles(pairs, signer, options);
+}
+
+export async function encryptValue(contractAddress: string, address: string, plainDigits: number[]) {
+  return getDefaultFhevmClient().encryptValue(contractAddress, address, plainDigits);
+}
+
+export async function createEncryptedInput(
+  contractAddress: string,
+  userAddress: string,
+  value: number,
+  scale?: EncryptScale
+) {
+  return getDefaultFhevmClient().createEncryptedInput(contractAddress, userAddress, value, scale);
+}
+
+export async function createEncryptedInputs(
+  contractAddress: string,
+  userAddress: string,
+  values: number[],
+  scale?: EncryptScale
+) {
+  return getDefaultFhevmClient().createEncryptedInputs(contractAddress, userAddress, values, scale);
+}
+
+export async function publicDecryptV09(handles: string[]) {
+  return getDefaultFhevmClient().publicDecryptV09(handles);
+}
@@ -5,5 +5,11 @@
 
 // Core FHEVM functionality - All functions consolidated in fhevm.ts
 export * from './fhevm.js';
+export * from './errors.js';
+export * from './networks.js';
+export * from './nodeProvider.js';
+export * from './mockBackend.js';
+export * from './decryptionSession.js';
 export * from './contracts.js';
+export * from './reviewGuard.js';
 
@@ -0,0 +1,282 @@
+/**
+ * Mock FHE backend - Universal SDK
+ * MockFhevmInstance from @fhevm/mock-utils, offline in memory or against a Hardhat node running @fhevm/hardhat-plugin
+ */
+
+import { ethers } from 'ethers';
+import type { MockFhevmInstance, contracts, relayer } from '@fhevm/mock-utils';
+import type { FhevmBackend, FheInstanceOptions } from './fhevm.js';
+import { HARDHAT_NETWORK, type FhevmNetworkConfig } from './networks.js';
+import { resolveNodeSigner } from './nodeProvider.js';
+
+type MockUtils = typeof import('@fhevm/mock-utils');
+type MockFhevmInstanceConfig = Parameters<MockUtils['MockFhevmInstance']['create']>[2];
+type VerifierProperties = contracts.KMSVerifier['kmsVerifierProperties'];
+
+// ACL reads MockFhevmInstance makes before decrypting, answered from the cleartext store offline
+const ACL_INTERFACE = new ethers.Interface([
+  'function isAllowedForDecryption(bytes32 handle) view returns (bool)',
+  'function persistAllowed(bytes32 handle, address account) view returns (bool)',
+]);
+
+/**
+ * Cleartexts behind the handles the offline mock has produced, keyed by lowercase handle.
+ * Seed it with `set` to make handles computed elsewhere decryptable
+ */
+export class MockCleartextStore {
+  private readonly values = new Map<string, bigint>();
+
+  get(handle: string): bigint | undefined {
+    return this.values.get(handle.toLowerCase());
+  }
+
+  set(handle: string, value: bigint): void {
+    this.values.set(handle.toLowerCase(), value);
+  }
+
+  has(handle: string): boolean {
+    return this.values.has(handle.toLowerCase());
+  }
+
+  clear(): void {
+    this.values.clear();
+  }
+}
+
+export interface MockBackendOptions {
+  /** Cleartexts of the offline mock, a fresh store by default */
+  store?: MockCleartextStore;
+  /**
+   * Send proofs and decryptions to the Hardhat node at the network's RPC URL.
+   * By default the node is only asked on the hardhat preset or an explicit rpcUrl, false keeps everything in memory
+   */
+  hardhatNode?: boolean;
+}
+
+/**
+ * In-memory stand-in for a Hardhat node: answers the relayer methods and ACL reads MockFhevmInstance sends,
+ * signing with throwaway coprocessor and KMS keys the instance is told to trust
+ */
+class OfflineMockRelay implements ethers.Eip1193Provider {
+  readonly provider: ethers.BrowserProvider;
+  private readonly coprocessorSigner = ethers.Wallet.createRandom();
+  private readonly kmsSigner = ethers.Wallet.createRandom();
+  private inputVerifier?: contracts.InputVerifier;
+  private kmsVerifier?: contracts.KMSVerifier;
+
+  constructor(
+    private readonly mockUtils: MockUtils,
+    private readonly network: FhevmNetworkConfig,
+    private readonly store: MockCleartextStore
+  ) {
+    this.provider = new ethers.BrowserProvider(this, network.chainId);
+  }
+
+  /** Verifier settings of the mock chain, so nothing has to be read from contracts */
+  get inputVerifierProperties(): VerifierProperties {
+    const { domain } = this.mockUtils.constants.INPUT_VERIFICATION_EIP712;
+    return verifierProperties(this.coprocessorSigner, domain, this.network.gatewayChainId, this.network.verifyingContractAddressInputVerification);
+  }
+
+  get kmsVerifierProperties(): VerifierProperties {
+    const { domain } = this.mockUtils.constants.PUBLIC_DECRYPT_EIP712;
+    return verifierProperties(this.kmsSigner, domain, this.network.gatewayChainId, this.network.verifyingContractAddressDecryption);
+  }
+
+  async initialize(): Promise<void> {
+    const { InputVerifier, KMSVerifier } = this.mockUtils.contracts;
+    this.inputVerifier = await InputVerifier.create(
+      this.provider,
+      this.network.inputVerifierContractAddress as `0x${string}`,
+      undefined,
+      this.inputVerifierProperties
+    );
+    this.kmsVerifier = await KMSVerifier.create(
+      this.provider,
+      this.network.kmsContractAddress as `0x${string}`,
+      undefined,
+      this.kmsVerifierProperties
+    );
+  }
+
+  async request({ method, params }: { method: string; params?: any[] | Record<string, any> }): Promise<any> {
+    const [payload] = (params ?? []) as any[];
+    switch (method) {
+      case 'eth_chainId':
+        return ethers.toQuantity(this.network.chainId);
+      case 'eth_call':
+        return this.aclCall(payload);
+      case 'fhevm_relayer_v1_input_proof':
+        return this.inputProof(payload);
+      case 'fhevm_relayer_v1_user_decrypt':
+        return this.userDecrypt(payload);
+      case 'fhevm_relayer_v1_public_decrypt':
+        return this.publicDecrypt(payload);
+      default:
+        throw new Error(`The offline mock backend does not support ${method}`);
+    }
+  }
+
+  private aclCall(transaction: { to: string; data: string }) {
+    if (ethers.getAddress(transaction.to) !== ethers.getAddress(this.network.aclContractAddress)) {
+      throw new Error(`The offline mock backend only answers ACL calls, not calls to ${transaction.to}`);
+    }
+    const call = ACL_INTERFACE.parseTransaction({ data: transaction.data });
+    if (!call) {
+      throw new Error('The offline mock backend does not know this ACL method');
+    }
+    return ACL_INTERFACE.encodeFunctionResult(call.fragment, [this.store.has(call.args[0])]);
+  }
+
+  private async inputProof(payload: relayer.MockRelayerV1InputProofPayload) {
+    const { FhevmHandle, constants } = this.mockUtils;
+    const contractChainId = Number(payload.contractChainId);
+    const handles = FhevmHandle.computeHandles(
+      ethers.getBytes(payload.ciphertextWithInputVerification),
+      payload.mockData.fhevmTypes,
+      payload.mockData.aclContractAddress,
+      contractChainId,
+      constants.FHEVM_HANDLE_VERSION
+    ).map((handle) => ethers.hexlify(handle));
+    handles.forEach((handle, i) => this.store.set(handle, BigInt(payload.mockData.clearTextValuesBigIntHex[i])));
+
+    const { domain, types, message } = this.verifiers().inputVerifier.createCiphertextVerificationEIP712(
+      handles,
+      contractChainId,
+      payload.contractAddress,
+      payload.userAddress,
+      payload.extraData
+    );
+    const signature = await this.coprocessorSigner.signTypedData(domain, types, message);
+    return { handles: handles.map(strip0x), signatures: [strip0x(signature)] };
+  }
+
+  private async userDecrypt(payload: relayer.RelayerV1UserDecryptPayload) {
+    await this.mockUtils.MockFhevmInstance.verifyUserDecryptSignature(
+      payload.publicKey,
+      payload.signature,
+      payload.contractAddresses,
+      payload.userAddress,
+      payload.requestValidity.startTimestamp,
+      payload.requestValidity.durationDays,
+      this.network.verifyingContractAddressDecryption,
+      Number(payload.contractsChainId)
+    );
+    const values = payload.handleContractPairs.map(({ handle }) => this.cleartext(handle));
+    return { payload: { decrypted_values: values.map((value) => ethers.toBeHex(value)) }, signature: ethers.ZeroHash };
+  }
+
+  private async publicDecrypt(payload: relayer.RelayerV1PublicDecryptPayload) {
+    const values = payload.ciphertextHandles.map((handle) => this.cleartext(handle));
+    const { abiEncodedClearResult, signatures } = await this.verifiers().kmsVerifier.computeDecryptionSignatures(
+      payload.ciphertextHandles,
+      values,
+      payload.extraData
+    );
+    return { decrypted_value: abiEncodedClearResult, signatures };
+  }
+
+  private verifiers() {
+    if (!this.inputVerifier || !this.kmsVerifier) {
+      throw new Error('Offline mock relay not initialized');
+    }
+    return { inputVerifier: this.inputVerifier, kmsVerifier: this.kmsVerifier };
+  }
+
+  private cleartext(handle: string): bigint {
+    const value = this.store.get(handle);
+    if (value === undefined) {
+      throw new Error(`Handle ${handle} is unknown to the mock backend`);
+    }
+    return value;
+  }
+}
+
+/**
+ * Mock backend, selected with `backend: 'mock'` or `backend: mockBackend(options)`.
+ * Against a Hardhat node the node's mock coprocessor keeps the cleartexts, otherwise they stay in memory
+ */
+export function mockBackend(options: MockBackendOptions = {}): FhevmBackend {
+  return {
+    name: 'mock',
+    async createInstance(network: FhevmNetworkConfig, instanceOptions: FheInstanceOptions) {
+      const url = instanceOptions.rpcUrl ?? network.rpcUrl;
+      if (!url && options.hardhatNode) {
+        throw new Error(`No RPC URL for FHEVM network "${network.name}", pass rpcUrl`);
+      }
+      const provider = url ? new ethers.JsonRpcProvider(url, network.chainId, { staticNetwork: true }) : null;
+      const mockUtils: MockUtils = await import('@fhevm/mock-utils');
+
+      // Other presets point at public RPCs that never run the plugin, asking them would only cost a round trip
+      const probe = options.hardhatNode ?? (network === HARDHAT_NETWORK || instanceOptions.rpcUrl !== undefined);
+      let instance: MockFhevmInstance;
+      if (provider && probe && (await isHardhatMockNode(provider, options.hardhatNode))) {
+        // The node deployed the verifiers, their signers and domains are read from it
+        instance = await mockUtils.MockFhevmInstance.create(provider, provider, toMockConfig(network), {
+          inputVerifierProperties: {},
+          kmsVerifierProperties: {},
+        });
+      } else {
+        const relay = new OfflineMockRelay(mockUtils, network, options.store ?? new MockCleartextStore());
+        await relay.initialize();
+        instance = await mockUtils.MockFhevmInstance.create(relay, relay.provider, toMockConfig(network), {
+          inputVerifierProperties: relay.inputVerifierProperties,
+          kmsVerifierProperties: relay.kmsVerifierProperties,
+        });
+      }
+
+      const signer = instanceOptions.signer ? await resolveNodeSigner(instanceOptions.signer, provider) : null;
+      return { instance, signer };
+    },
+  };
+}
+
+async function isHardhatMockNode(provider: ethers.JsonRpcProvider, required?: boolean): Promise<boolean> {
+  try {
+    await provider.send('fhevm_relayer_metadata', []);
+    return true;
+  } catch (error) {
+    if (required) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`The RPC URL does not answer like a Hardhat node running @fhevm/hardhat-plugin: ${reason}`);
+    }
+    return false;
+  }
+}
+
+function toMockConfig(network: FhevmNetworkConfig): MockFhevmInstanceConfig {
+  return {
+    verifyingContractAddressDecryption: network.verifyingContractAddressDecryption as `0x${string}`,
+    verifyingContractAddressInputVerification: network.verifyingContractAddressInputVerification as `0x${string}`,
+    kmsContractAddress: network.kmsContractAddress as `0x${string}`,
+    inputVerifierContractAddress: network.inputVerifierContractAddress as `0x${string}`,
+    aclContractAddress: network.aclContractAddress as `0x${string}`,
+    chainId: network.chainId,
+    gatewayChainId: network.gatewayChainId,
+  };
+}
+
+function verifierProperties(
+  signer: ethers.HDNodeWallet,
+  domain: { name: string; version: string },
+  gatewayChainId: number,
+  verifyingContract: string
+): VerifierProperties {
+  return {
+    signers: [signer],
+    signersAddresses: [signer.address as `0x${string}`],
+    threshold: 1,
+    eip712Domain: {
+      fields: 0x0f,
+      name: domain.name,
+      version: domain.version,
+      chainId: BigInt(gatewayChainId),
+      verifyingContract,
+      salt: ethers.ZeroHash,
+    },
+  };
+}
+
+function strip0x(value: string): string {
+  return value.startsWith('0x') ? value.slice(2) : value;
+}
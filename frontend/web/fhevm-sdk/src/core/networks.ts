@@ -0,0 +1,103 @@
+/**
+ * FHEVM network presets - Universal SDK
+ * Everything the relayer SDK needs to build an instance for a chain
+ */
+
+import { ethers } from 'ethers';
+
+export interface FhevmNetworkConfig {
+  /** Human readable name, used in error messages */
+  name: string;
+  /** Host chain the contracts live on */
+  chainId: number;
+  /** Chain of the gateway the decryption and input verification contracts live on */
+  gatewayChainId: number;
+  aclContractAddress: string;
+  kmsContractAddress: string;
+  inputVerifierContractAddress: string;
+  /** Gateway contract the KMS signs user and public decryptions for */
+  verifyingContractAddressDecryption: string;
+  /** Gateway contract the coprocessors sign input proofs for */
+  verifyingContractAddressInputVerification: string;
+  /** Relayer the instance sends input proofs and decryption requests to */
+  relayerUrl?: string;
+  /** JSON-RPC endpoint of the host chain, used when no wallet provides one */
+  rpcUrl?: string;
+}
+
+export const SEPOLIA_NETWORK: FhevmNetworkConfig = {
+  name: 'sepolia',
+  chainId: 11155111,
+  gatewayChainId: 10901,
+  aclContractAddress: '0xf0Ffdc93b7E186bC2f8CB3dAA75D86d1930A433D',
+  kmsContractAddress: '0xbE0E383937d564D7FF0BC3b46c51f0bF8d5C311A',
+  inputVerifierContractAddress: '0xBBC1fFCdc7C316aAAd72E807D9b0272BE8F84DA0',
+  verifyingContractAddressDecryption: '0x5D8BD78e2ea6bbE41f26dFe9fdaEAa349e077478',
+  verifyingContractAddressInputVerification: '0x483b9dE06E4E4C7D35CCf5837A1668487406D955',
+  relayerUrl: 'https://relayer.testnet.zama.org',
+  rpcUrl: 'https://ethereum-sepolia-rpc.publicnode.com',
+};
+
+/**
+ * Local Hardhat node running the @fhevm/hardhat-plugin, which deploys the host contracts at fixed addresses.
+ * No relayer runs next to the node, set relayerUrl when you run one
+ */
+export const HARDHAT_NETWORK: FhevmNetworkConfig = {
+  name: 'hardhat',
+  chainId: 31337,
+  gatewayChainId: 10901,
+  aclContractAddress: '0x50157CFfD6bBFA2DECe204a89ec419c23ef5755D',
+  kmsContractAddress: '0x901F8942346f7AB3a01F6D7613119Bca447Bb030',
+  inputVerifierContractAddress: '0x36772142b74871f255CbD7A3e89B401d3e45825f',
+  verifyingContractAddressDecryption: '0x5ffdaAB0373E62E2ea2944776209aEf29E631A64',
+  verifyingContractAddressInputVerification: '0x812b06e1CDCE800494b79fFE4f925A504a9A9810',
+  rpcUrl: 'http://127.0.0.1:8545',
+};
+
+export const FHEVM_NETWORKS = {
+  sepolia: SEPOLIA_NETWORK,
+  hardhat: HARDHAT_NETWORK,
+} as const;
+
+export type FhevmNetworkName = keyof typeof FHEVM_NETWORKS;
+
+/** A preset name, or a custom config such as a preset with some fields overridden */
+export type FhevmNetwork = FhevmNetworkName | FhevmNetworkConfig;
+
+const ADDRESS_FIELDS = [
+  'aclContractAddress',
+  'kmsContractAddress',
+  'inputVerifierContractAddress',
+  'verifyingContractAddressDecryption',
+  'verifyingContractAddressInputVerification',
+] as const;
+
+/**
+ * Resolve a preset name or validate a custom config, defaults to Sepolia
+ */
+export function resolveNetwork(network: FhevmNetwork = 'sepolia'): FhevmNetworkConfig {
+  if (typeof network === 'string') {
+    const preset = FHEVM_NETWORKS[network];
+    if (!preset) {
+      throw new Error(`Unknown FHEVM network "${network}", expected one of ${Object.keys(FHEVM_NETWORKS).join(', ')}`);
+    }
+    return preset;
+  }
+
+  for (const field of ADDRESS_FIELDS) {
+    if (!ethers.isAddress(network[field])) {
+      throw new Error(`Invalid ${field} for FHEVM network "${network.name}": ${network[field]}`);
+    }
+  }
+  if (!Number.isSafeInteger(network.chainId) || !Number.isSafeInteger(network.gatewayChainId)) {
+    throw new Error(`Invalid chain IDs for FHEVM network "${network.name}"`);
+  }
+  return network;
+}
+
+/**
+ * Hex chain ID as returned by eth_chainId
+ */
+export function chainIdHex(network: FhevmNetworkConfig): string {
+  return ethers.toQuantity(network.chainId);
+}
@@ -0,0 +1,103 @@
+/**
+ * Node.js provider and signer - Universal SDK
+ * Backs the relayer SDK with a real JSON-RPC provider and an ethers signer outside the browser
+ */
+
+import { ethers } from 'ethers';
+
+/**
+ * Where a Node.js job gets its account from: any ethers signer (including remote ones),
+ * a private key, or an encrypted JSON keystore
+ */
+export type NodeSignerSource =
+  | ethers.Signer
+  | { privateKey: string }
+  | { keystore: string; password: string };
+
+/**
+ * Build the signer for a source, connected to the provider when it has none
+ */
+export async function resolveNodeSigner(
+  source: NodeSignerSource,
+  provider: ethers.Provider | null
+): Promise<ethers.Signer> {
+  // Checked first, a Wallet also exposes privateKey
+  if ('getAddress' in source) {
+    return source.provider ? source : source.connect(provider);
+  }
+  if ('privateKey' in source) {
+    return new ethers.Wallet(source.privateKey, provider);
+  }
+  const wallet = await ethers.Wallet.fromEncryptedJson(source.keystore, source.password);
+  return wallet.connect(provider);
+}
+
+export interface Eip1193Provider {
+  request(args: { method: string; params?: any[] }): Promise<any>;
+  on(event: string, listener: (...args: any[]) => void): void;
+  removeListener(event: string, listener: (...args: any[]) => void): void;
+}
+
+/**
+ * EIP-1193 provider over a JSON-RPC provider.
+ * Account, transaction and signing methods go to the signer, everything else is forwarded to the node
+ */
+export function createEip1193Provider(
+  provider: ethers.JsonRpcProvider,
+  signer: ethers.Signer | null
+): Eip1193Provider {
+  const requireSigner = (method: string) => {
+    if (!signer) {
+      throw new Error(`${method} needs a signer, pass one to initializeFheInstance()`);
+    }
+    return signer;
+  };
+
+  return {
+    request: async ({ method, params = [] }) => {
+      switch (method) {
+        case 'eth_accounts':
+        case 'eth_requestAccounts':
+          return signer ? [await signer.getAddress()] : [];
+        case 'eth_sendTransaction': {
+          const tx = params[0];
+          const response = await requireSigner(method).sendTransaction({
+            to: tx.to,
+            data: tx.data ?? tx.input,
+            value: tx.value,
+            gasLimit: tx.gas,
+            gasPrice: tx.gasPrice,
+            maxFeePerGas: tx.maxFeePerGas,
+            maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+            nonce: tx.nonce === undefined ? undefined : Number(tx.nonce),
+          });
+          return response.hash;
+        }
+        case 'eth_signTypedData_v4': {
+          const account = requireSigner(method);
+          await assertAccount(account, params[0]);
+          const typedData = typeof params[1] === 'string' ? JSON.parse(params[1]) : params[1];
+          // ethers derives the domain type itself and rejects it in the types
+          const { EIP712Domain: _domain, ...types } = typedData.types;
+          return account.signTypedData(typedData.domain, types, typedData.message);
+        }
+        case 'personal_sign': {
+          const account = requireSigner(method);
+          await assertAccount(account, params[1]);
+          return account.signMessage(ethers.isHexString(params[0]) ? ethers.getBytes(params[0]) : params[0]);
+        }
+        default:
+          return provider.send(method, params);
+      }
+    },
+    on: () => {},
+    removeListener: () => {},
+  };
+}
+
+async function assertAccount(signer: ethers.Signer, address: string) {
+  const account = await signer.getAddress();
+  if (address && ethers.getAddress(address) !== account) {
+    throw new Error(`Signer is ${account}, cannot sign for ${address}`);
+  }
+}
@@ -0,0 +1,1012 @@
+/**
+ * ReviewGuardFHE Client - Universal SDK
+ * Typed wrapper around the generated ReviewGuardFHE bindings
+ */
+
+import { ethers } from 'ethers';
+import { ReviewGuardFHE__factory } from '../typechain/index.js';
+import type { ReviewGuardFHE } from '../typechain/index.js';
+import { getDefaultFhevmClient } from './fhevm.js';
+import type { DecryptedValue, EncryptScale, FhevmClient } from './fhevm.js';
+
+/** Mirrors ReviewGuardFHE.CycleStatus, indexed by the on-chain enum value */
+export const CYCLE_STATUSES = ['none', 'created', 'open', 'closed', 'finalized'] as const;
+
+export type CycleStatus = (typeof CYCLE_STATUSES)[number];
+
+/** Mirrors ReviewGuardFHE.Relationship, indexed by the on-chain enum value */
+export const RELATIONSHIPS = ['none', 'manager', 'peer', 'directReport', 'self'] as const;
+
+export type Relationship = (typeof RELATIONSHIPS)[number];
+
+/** Relationships that carry a review weight, in the order the contract expects them */
+export const WEIGHTED_RELATIONSHIPS = ['manager', 'peer', 'directReport', 'self'] as const;
+
+/** Review weight per relationship, as configured by HR */
+export type RelationshipWeights = Record<(typeof WEIGHTED_RELATIONSHIPS)[number], number>;
+
+export interface ReviewCycle {
+  cycleId: number;
+  name: string;
+  status: CycleStatus;
+  openedAt: number;
+  closedAt: number;
+  /** Scores in this cycle range from 1 to maxScore */
+  maxScore: number;
+  /** Scores at or above count as high performers */
+  highPerformerScore: number;
+  /** Scores at or below count as low performers */
+  lowPerformerScore: number;
+  /** Distinct reviewers an aggregate of this cycle needs before it can be decrypted */
+  minReviewers: number;
+  criteria: string[];
+}
+
+export interface Employee {
+  employeeId: string;
+  cycleId: number;
+  name: string;
+  totalScore: number;
+  reviewCount: number;
+  departmentId: number;
+  reviewerCount: number;
+  /** Sum of the review weights of the verified aggregate */
+  totalWeight: number;
+}
+
+export interface Review {
+  employeeId: string;
+  reviewId: number;
+  cycleId: number;
+  departmentId: number;
+  reviewer: string;
+  timestamp: number;
+}
+
+export interface ReviewSubmission {
+  employeeId: string;
+  cycleId: number;
+  score: number;
+  /** One score per criterion, in the order of the cycle's criteria */
+  criteria: number[];
+  departmentId: number;
+}
+
+export type ReviewUpdate = Omit<ReviewSubmission, 'departmentId'>;
+
+export interface SubmittedReview {
+  employeeId: string;
+  reviewId: number;
+  receipt: ethers.TransactionReceipt;
+}
+
+export interface PageOptions {
+  offset?: number;
+  limit?: number;
+}
+
+export interface ReviewIdPage {
+  reviewIds: number[];
+  total: number;
+}
+
+export interface ReviewPage {
+  reviews: Review[];
+  offset: number;
+  total: number;
+}
+
+export interface EncryptedAggregate {
+  weightedSum: string;
+  reviewCount: string;
+  totalWeight: string;
+}
+
+export interface AggregateScore {
+  weightedSum: number;
+  reviewCount: number;
+  totalWeight: number;
+  /** Weighted average, the weighted sum divided by the sum of the review weights */
+  average: number;
+}
+
+export interface CriterionScore {
+  criterion: string;
+  weightedSum: number;
+  average: number;
+}
+
+/** How many review scores reached the cycle's high and low performer thresholds */
+export interface PerformerCounts {
+  highPerformerCount: number;
+  lowPerformerCount: number;
+}
+
+export interface PerformanceThresholds {
+  highPerformerScore: number;
+  lowPerformerScore: number;
+}
+
+export interface DepartmentScore extends AggregateScore, PerformerCounts {}
+
+export interface DepartmentStats {
+  departmentId: number;
+  cycleId: number;
+  /** Threshold status, counted in distinct reviewers across the department */
+  anonymity: AnonymityStatus;
+  /** Null until the threshold is met and the totals were published */
+  score: DepartmentScore | null;
+}
+
+/** An employee's results for a closed cycle, user-decrypted by an account the contract granted access */
+export interface EmployeeResults {
+  employeeId: string;
+  cycleId: number;
+  aggregate: AggregateScore;
+  criteria: CriterionScore[];
+  performers: PerformerCounts;
+}
+
+export interface TeamMemberResults {
+  employee: Employee;
+  anonymity: AnonymityStatus;
+  /** Null while the connected account has no access, e.g. below the reviewer threshold */
+  results: EmployeeResults | null;
+}
+
+export interface VerifiedAggregate {
+  aggregate: AggregateScore;
+  receipt: ethers.TransactionReceipt;
+}
+
+export interface AnonymityStatus {
+  reviewerCount: number;
+  minReviewers: number;
+  remaining: number;
+  canDecrypt: boolean;
+}
+
+export interface AccountRoles {
+  account: string;
+  isOwner: boolean;
+  isHrAdmin: boolean;
+  isDepartmentManager: boolean;
+}
+
+/** Mirrors ReviewGuardFHE.SCORE_SCALE, final scores are stored with two decimals */
+export const SCORE_SCALE = 100;
+
+export interface FinalScore {
+  employeeId: string;
+  cycleId: number;
+  finalScore: number;
+  /** Which verified aggregate of the cycle the score was calculated from, starting at 1 */
+  aggregateVersion: number;
+  calculatedAt: number;
+}
+
+export interface CalculatedFinalScore extends FinalScore {
+  receipt: ethers.TransactionReceipt;
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+
+export class ReviewGuardClient {
+  readonly contract: ReviewGuardFHE;
+  readonly address: string;
+
+  /**
+   * Encryption and decryption go through `fhevm`, the default client unless another chain or signer needs its own
+   */
+  constructor(
+    address: string,
+    runner: ethers.ContractRunner,
+    private readonly fhevm: FhevmClient = getDefaultFhevmClient()
+  ) {
+    this.contract = ReviewGuardFHE__factory.connect(address, runner);
+    this.address = address;
+  }
+
+  /**
+   * Check the contract is deployed and responding
+   */
+  async isAvailable(): Promise<boolean> {
+    return this.contract.isAvailable();
+  }
+
+  async employeeExists(employeeId: string): Promise<boolean> {
+    return this.contract.employeeExists(employeeId);
+  }
+
+  async getOwner(): Promise<string> {
+    return this.contract.owner();
+  }
+
+  async isHrAdmin(account: string): Promise<boolean> {
+    return this.contract.hrAdmins(account);
+  }
+
+  async isDepartmentManager(departmentId: number, account: string): Promise<boolean> {
+    return this.contract.departmentManagers(departmentId, account);
+  }
+
+  async isEligibleReviewer(employeeId: string, reviewer: string): Promise<boolean> {
+    return this.contract.isEligibleReviewer(employeeId, reviewer);
+  }
+
+  /**
+   * Resolve the roles an account holds, optionally for a given department
+   */
+  async getRoles(account: string, departmentId?: number): Promise<AccountRoles> {
+    const [owner, isHrAdmin, isDepartmentManager] = await Promise.all([
+      this.getOwner(),
+      this.isHrAdmin(account),
+      departmentId === undefined ? false : this.isDepartmentManager(departmentId, account),
+    ]);
+    return {
+      account,
+      isOwner: owner.toLowerCase() === account.toLowerCase(),
+      isHrAdmin,
+      isDepartmentManager,
+    };
+  }
+
+  /**
+   * Grant or revoke the HR admin role, only callable by the contract owner
+   */
+  async setHrAdmin(account: string, granted: boolean): Promise<ethers.TransactionReceipt> {
+    return this.wait(this.contract.setHrAdmin(account, granted));
+  }
+
+  /**
+   * Grant or revoke a department manager, only callable by HR admins
+   */
+  async setDepartmentManager(
+    departmentId: number,
+    account: string,
+    granted: boolean
+  ): Promise<ethers.TransactionReceipt> {
+    return this.wait(this.contract.setDepartmentManager(departmentId, account, granted));
+  }
+
+  async getRelationship(employeeId: string, reviewer: string): Promise<Relationship> {
+    return RELATIONSHIPS[Number(await this.contract.getRelationship(employeeId, reviewer))];
+  }
+
+  /**
+   * Record how a wallet relates to an employee, callable by HR admins and the department manager.
+   * The relationship decides the review weight, 'none' revokes the reviewer
+   */
+  async setReviewerRelationship(
+    employeeId: string,
+    reviewer: string,
+    relationship: Relationship
+  ): Promise<ethers.TransactionReceipt> {
+    return this.wait(
+      this.contract.setReviewerRelationship(employeeId, reviewer, RELATIONSHIPS.indexOf(relationship))
+    );
+  }
+
+  /**
+   * Decrypt the weight table for the connected HR admin.
+   * The weights are encrypted on-chain, HR admins appointed later need allowRelationshipWeights first
+   */
+  async getRelationshipWeights(): Promise<RelationshipWeights> {
+    const handles = await Promise.all(
+      WEIGHTED_RELATIONSHIPS.map((relationship) =>
+        this.contract.getRelationshipWeight(RELATIONSHIPS.indexOf(relationship))
+      )
+    );
+    const decrypted = await this.fhevm.batchDecryptValues(handles, this.address, this.contract.runner, 'euint32');
+    const [manager, peer, directReport, self] = handles.map((handle) => Number(decrypted[handle]));
+    return { manager, peer, directReport, self };
+  }
+
+  /**
+   * Grant the connected HR admin access to decrypt the weight table
+   */
+  async allowRelationshipWeights(): Promise<ethers.TransactionReceipt> {
+    return this.wait(this.contract.allowRelationshipWeights());
+  }
+
+  /**
+   * Replace the weight table, only callable by HR admins.
+   * All weights are encrypted in one batch, reviews already submitted keep their weight until they are updated
+   */
+  async setRelationshipWeights(weights: RelationshipWeights): Promise<ethers.TransactionReceipt> {
+    const hrAdmin = await this.signerAddress();
+    const encrypted = await this.fhevm.createEncryptedInputs(
+      this.address,
+      hrAdmin,
+      WEIGHTED_RELATIONSHIPS.map((relationship) => weights[relationship])
+    );
+    return this.wait(this.contract.setRelationshipWeights(encrypted.handles, encrypted.proof));
+  }
+
+  /**
+   * Register a new employee in a department, only callable by HR admins
+   */
+  async addEmployee(employeeId: string, name: string, departmentId: number): Promise<ethers.TransactionReceipt> {
+    return this.wait(this.contract.addEmployee(employeeId, name, departmentId));
+  }
+
+  /**
+   * Load an employee together with their results for a review cycle
+   */
+  async getEmployee(employeeId: string, cycleId: number): Promise<Employee> {
+    const employee = await this.contract.getEmployee(employeeId, cycleId);
+    return {
+      employeeId,
+      cycleId,
+      name: employee.name,
+      totalScore: Number(employee.totalScore),
+      reviewCount: Number(employee.reviewCount),
+      departmentId: Number(employee.departmentId),
+      reviewerCount: Number(employee.reviewerCount),
+      totalWeight: Number(employee.totalWeight),
+    };
+  }
+
+  /**
+   * Bind a wallet to an employee, only callable by HR admins.
+   * A wallet speaks for one employee, rebinding releases the previous wallet
+   */
+  async bindEmployeeWallet(employeeId: string, wallet: string): Promise<ethers.TransactionReceipt> {
+    return this.wait(this.contract.bindEmployeeWallet(employeeId, wallet));
+  }
+
+  /**
+   * The wallet bound to an employee, or null if none was bound yet
+   */
+  async getEmployeeWallet(employeeId: string): Promise<string | null> {
+    const wallet = await this.contract.getEmployeeWallet(employeeId);
+    return wallet === ethers.ZeroAddress ? null : wallet;
+  }
+
+  /**
+   * The employee a wallet is bound to, or null for wallets that are not bound
+   */
+  async getBoundEmployeeId(account: string): Promise<string | null> {
+    const employeeId = await this.contract.walletEmployees(account);
+    return employeeId === '' ? null : employeeId;
+  }
+
+  async getDepartmentEmployees(departmentId: number): Promise<string[]> {
+    return this.contract.getDepartmentEmployees(departmentId);
+  }
+
+  /**
+   * Load every employee record of a department for a review cycle
+   */
+  async getDepartmentRoster(departmentId: number, cycleId: number): Promise<Employee[]> {
+    const employeeIds = await this.getDepartmentEmployees(departmentId);
+    return Promise.all(employeeIds.map((employeeId) => this.getEmployee(employeeId, cycleId)));
+  }
+
+  async getCycle(cycleId: number): Promise<ReviewCycle> {
+    const [cycle, criteria] = await Promise.all([
+      this.contract.cycles(cycleId),
+      this.contract.getCycleCriteria(cycleId),
+    ]);
+    return {
+      cycleId,
+      name: cycle.name,
+      status: CYCLE_STATUSES[Number(cycle.status)],
+      openedAt: Number(cycle.openedAt),
+      closedAt: Number(cycle.closedAt),
+      maxScore: Number(cycle.maxScore),
+      highPerformerScore: Number(cycle.highPerformerScore),
+      lowPerformerScore: Number(cycle.lowPerformerScore),
+      minReviewers: Number(cycle.minReviewers),
+      criteria: [...criteria],
+    };
+  }
+
+  /**
+   * Load every review cycle, oldest first
+   */
+  async getCycles(): Promise<ReviewCycle[]> {
+    const count = Number(await this.contract.cycleCount());
+    return Promise.all(Array.from({ length: count }, (_, i) => this.getCycle(i + 1)));
+  }
+
+  /**
+   * Create a review cycle, only callable by HR admins
+   */
+  async createCycle(name: string): Promise<ReviewCycle> {
+    const receipt = await this.wait(this.contract.createCycle(name));
+
+    const event = this.findEvent(receipt, this.contract.getEvent('CycleCreated').fragment);
+    return this.getCycle(Number(event.args.cycleId));
+  }
+
+  async openCycle(cycleId: number): Promise<ethers.TransactionReceipt> {
+    return this.wait(this.contract.openCycle(cycleId));
+  }
+
+  async closeCycle(cycleId: number): Promise<ethers.TransactionReceipt> {
+    return this.wait(this.contract.closeCycle(cycleId));
+  }
+
+  /**
+   * Freeze the recorded results of a closed cycle
+   */
+  async finalizeCycle(cycleId: number): Promise<ethers.TransactionReceipt> {
+    return this.wait(this.contract.finalizeCycle(cycleId));
+  }
+
+  /**
+   * Criteria that newly created cycles will use
+   */
+  async getCriteria(): Promise<string[]> {
+    return [...(await this.contract.getCriteria())];
+  }
+
+  /**
+   * Replace the criteria for future cycles, only callable by HR admins
+   */
+  async setCriteria(criteria: string[]): Promise<ethers.TransactionReceipt> {
+    return this.wait(this.contract.setCriteria(criteria));
+  }
+
+  /**
+   * Minimum number of distinct reviewers new cycles are created with
+   */
+  async getMinReviewers(): Promise<number> {
+    return Number(await this.contract.minReviewers());
+  }
+
+  /**
+   * Minimum number of distinct reviewers before an aggregate of the cycle can be decrypted
+   */
+  async getCycleMinReviewers(cycleId: number): Promise<number> {
+    return Number((await this.contract.cycles(cycleId)).minReviewers);
+  }
+
+  /**
+   * Change the reviewer threshold for cycles created afterwards, only callable by HR admins
+   */
+  async setMinReviewers(minReviewers: number): Promise<ethers.TransactionReceipt> {
+    return this.wait(this.contract.setMinReviewers(minReviewers));
+  }
+
+  /**
+   * High and low performer thresholds new cycles are created with
+   */
+  async getPerformanceThresholds(): Promise<PerformanceThresholds> {
+    const [highPerformerScore, lowPerformerScore] = await Promise.all([
+      this.contract.highPerformerScore(),
+      this.contract.lowPerformerScore(),
+    ]);
+    return {
+      highPerformerScore: Number(highPerformerScore),
+      lowPerformerScore: Number(lowPerformerScore),
+    };
+  }
+
+  /**
+   * Change the performer thresholds for cycles created afterwards, only callable by HR admins
+   */
+  async setPerformanceThresholds(thresholds: PerformanceThresholds): Promise<ethers.TransactionReceipt> {
+    return this.wait(
+      this.contract.setPerformanceThresholds(thresholds.highPerformerScore, thresholds.lowPerformerScore)
+    );
+  }
+
+  /**
+   * Top of the score scale new cycles are created with
+   */
+  async getMaxScore(): Promise<number> {
+    return Number(await this.contract.maxScore());
+  }
+
+  /**
+   * Change the score scale for cycles created afterwards, only callable by HR admins
+   */
+  async setMaxScore(maxScore: number): Promise<ethers.TransactionReceipt> {
+    return this.wait(this.contract.setMaxScore(maxScore));
+  }
+
+  /**
+   * How far an employee is from the reviewer threshold
+   */
+  async getAnonymityStatus(employeeId: string, cycleId: number): Promise<AnonymityStatus> {
+    const [employee, minReviewers] = await Promise.all([
+      this.getEmployee(employeeId, cycleId),
+      this.getCycleMinReviewers(cycleId),
+    ]);
+    return toAnonymityStatus(employee.reviewerCount, minReviewers);
+  }
+
+  /**
+   * Encrypt a score for the connected signer and submit it to an open review cycle.
+   * Scores outside the cycle's scale are rejected here, the contract clamps anything that slips through
+   */
+  async submitReview(submission: ReviewSubmission): Promise<SubmittedReview> {
+    const reviewer = await this.signerAddress();
+    const encrypted = await this.fhevm.createEncryptedInputs(
+      this.address,
+      reviewer,
+      [submission.score, ...submission.criteria],
+      await this.scoreScale(submission.cycleId)
+    );
+
+    const receipt = await this.wait(
+      this.contract.submitReview(
+        submission.employeeId,
+        submission.cycleId,
+        encrypted.handles[0],
+        encrypted.handles.slice(1),
+        encrypted.proof,
+        submission.departmentId
+      )
+    );
+
+    const event = this.findEvent(receipt, this.contract.getEvent('ReviewSubmitted').fragment);
+    return {
+      employeeId: submission.employeeId,
+      reviewId: Number(event.args.reviewId),
+      receipt,
+    };
+  }
+
+  /**
+   * Replace the connected signer's encrypted score while the cycle is still open
+   */
+  async updateReview(update: ReviewUpdate): Promise<SubmittedReview> {
+    const reviewer = await this.signerAddress();
+    const encrypted = await this.fhevm.createEncryptedInputs(
+      this.address,
+      reviewer,
+      [update.score, ...update.criteria],
+      await this.scoreScale(update.cycleId)
+    );
+
+    const receipt = await this.wait(
+      this.contract.updateReview(
+        update.employeeId,
+        update.cycleId,
+        encrypted.handles[0],
+        encrypted.handles.slice(1),
+        encrypted.proof
+      )
+    );
+
+    const event = this.findEvent(receipt, this.contract.getEvent('ReviewUpdated').fragment);
+    return {
+      employeeId: update.employeeId,
+      reviewId: Number(event.args.reviewId),
+      receipt,
+    };
+  }
+
+  /**
+   * Whether a reviewer, the connected signer by default, already reviewed the employee in a cycle
+   */
+  async hasReviewed(employeeId: string, cycleId: number, reviewer?: string): Promise<boolean> {
+    return this.contract.hasReviewed(employeeId, cycleId, reviewer ?? (await this.signerAddress()));
+  }
+
+  async getReview(employeeId: string, reviewId: number): Promise<Review> {
+    const review = await this.contract.getReview(employeeId, reviewId);
+    return {
+      employeeId,
+      reviewId,
+      cycleId: Number(review.cycleId),
+      departmentId: Number(review.departmentId),
+      reviewer: review.reviewer,
+      timestamp: Number(review.timestamp),
+    };
+  }
+
+  /**
+   * Page through the ids of an employee's reviews, oldest first
+   */
+  async getReviewIds(employeeId: string, options: PageOptions = {}): Promise<ReviewIdPage> {
+    const { offset = 0, limit = DEFAULT_PAGE_SIZE } = options;
+    const page = await this.contract.getReviewIds(employeeId, offset, limit);
+    return {
+      reviewIds: page.reviewIds.map(Number),
+      total: Number(page.total),
+    };
+  }
+
+  /**
+   * Page through an employee's review records, oldest first
+   */
+  async listReviews(employeeId: string, options: PageOptions = {}): Promise<ReviewPage> {
+    const { offset = 0 } = options;
+    const page = await this.getReviewIds(employeeId, options);
+    const reviews = await Promise.all(page.reviewIds.map((reviewId) => this.getReview(employeeId, reviewId)));
+    return { reviews, offset, total: page.total };
+  }
+
+  /**
+   * Handles of the encrypted weighted score sum, review count and sum of the review weights
+   */
+  async getEncryptedAggregate(employeeId: string, cycleId: number): Promise<EncryptedAggregate> {
+    const aggregate = await this.contract.getEncryptedAggregate(employeeId, cycleId);
+    return {
+      weightedSum: aggregate.weightedSum,
+      reviewCount: aggregate.reviewCount,
+      totalWeight: aggregate.totalWeight,
+    };
+  }
+
+  /**
+   * Handles of the encrypted weighted sum of every criterion
+   */
+  async getEncryptedCriteriaAggregate(employeeId: string, cycleId: number): Promise<string[]> {
+    return [...(await this.contract.getEncryptedCriteriaAggregate(employeeId, cycleId))];
+  }
+
+  async isAggregateDecryptable(employeeId: string, cycleId: number): Promise<boolean> {
+    return this.contract.isAggregateDecryptable(employeeId, cycleId);
+  }
+
+  /**
+   * Mark the employee aggregate as publicly decryptable, reverts below the reviewer threshold
+   */
+  async requestAggregateDecryption(employeeId: string, cycleId: number): Promise<ethers.TransactionReceipt> {
+    return this.wait(this.contract.requestAggregateDecryption(employeeId, cycleId));
+  }
+
+  /**
+   * Publicly decrypt the employee aggregate without touching the chain
+   */
+  async decryptAggregate(employeeId: string, cycleId: number): Promise<AggregateScore> {
+    const aggregate = await this.getEncryptedAggregate(employeeId, cycleId);
+    if (aggregate.reviewCount === ethers.ZeroHash) {
+      return { weightedSum: 0, reviewCount: 0, totalWeight: 0, average: 0 };
+    }
+
+    const decryption = await this.fhevm.publicDecryptV09([
+      aggregate.weightedSum,
+      aggregate.reviewCount,
+      aggregate.totalWeight,
+    ]);
+    return toAggregateScore(
+      decryption.clearValues[aggregate.weightedSum],
+      decryption.clearValues[aggregate.reviewCount],
+      decryption.clearValues[aggregate.totalWeight]
+    );
+  }
+
+  /**
+   * Publicly decrypt an employee's performer counts, published together with the aggregate
+   */
+  async decryptPerformerCounts(employeeId: string, cycleId: number): Promise<PerformerCounts> {
+    const counts = await this.contract.getEncryptedPerformerCounts(employeeId, cycleId);
+    if (counts.highPerformerCount === ethers.ZeroHash) {
+      return { highPerformerCount: 0, lowPerformerCount: 0 };
+    }
+
+    const decryption = await this.fhevm.publicDecryptV09([counts.highPerformerCount, counts.lowPerformerCount]);
+    return {
+      highPerformerCount: Number(decryption.clearValues[counts.highPerformerCount]),
+      lowPerformerCount: Number(decryption.clearValues[counts.lowPerformerCount]),
+    };
+  }
+
+  /**
+   * Whether an account was granted user decryption of an employee aggregate
+   */
+  async isAggregateAllowed(employeeId: string, cycleId: number, account: string): Promise<boolean> {
+    return this.contract.isAggregateAllowed(employeeId, cycleId, account);
+  }
+
+  /**
+   * Grant the connected employee wallet access to its own aggregate.
+   * Reverts while the cycle is open and below the reviewer threshold
+   */
+  async allowOwnAggregate(cycleId: number): Promise<ethers.TransactionReceipt> {
+    return this.wait(this.contract.allowOwnAggregate(cycleId));
+  }
+
+  /**
+   * Decrypt the connected employee's own results with EIP-712 user decryption.
+   * Nothing is made public, a single signature covers the aggregate, counts and criteria
+   */
+  async decryptOwnResults(cycleId: number): Promise<EmployeeResults> {
+    const employeeId = await this.getBoundEmployeeId(await this.signerAddress());
+    if (!employeeId) {
+      throw new Error('Connected wallet is not bound to an employee');
+    }
+
+    const [criteria, handles] = await Promise.all([
+      this.contract.getCycleCriteria(cycleId),
+      this.getResultHandles(employeeId, cycleId),
+    ]);
+    const decrypted = await this.fhevm.batchDecryptValues(resultHandleList(handles), this.address, this.contract.runner);
+    return toEmployeeResults(employeeId, cycleId, criteria, handles, decrypted);
+  }
+
+  /**
+   * Grant the connected manager access to every team aggregate past the reviewer threshold.
+   * Reverts while the cycle is open, resolves to the number of employees granted
+   */
+  async allowTeamAggregates(departmentId: number, cycleId: number): Promise<number> {
+    const receipt = await this.wait(this.contract.allowTeamAggregates(departmentId, cycleId));
+    const fragment = this.contract.getEvent('AggregateAccessGranted').fragment;
+    return receipt.logs.filter((log) => this.contract.interface.parseLog(log)?.topic === fragment.topicHash).length;
+  }
+
+  /**
+   * Decrypt the results of every team member the connected account was granted.
+   * The whole team is decrypted with a single EIP-712 signature, members without access come back sealed
+   */
+  async decryptTeamResults(departmentId: number, cycleId: number): Promise<TeamMemberResults[]> {
+    const account = await this.signerAddress();
+    const [roster, minReviewers, criteria] = await Promise.all([
+      this.getDepartmentRoster(departmentId, cycleId),
+      this.getCycleMinReviewers(cycleId),
+      this.contract.getCycleCriteria(cycleId),
+    ]);
+    const handles = await Promise.all(
+      roster.map(async (employee) =>
+        (await this.isAggregateAllowed(employee.employeeId, cycleId, account))
+          ? this.getResultHandles(employee.employeeId, cycleId)
+          : null
+      )
+    );
+
+    const granted = handles.flatMap((memberHandles) => (memberHandles ? resultHandleList(memberHandles) : []));
+    const decrypted =
+      granted.length > 0 ? await this.fhevm.batchDecryptValues(granted, this.address, this.contract.runner) : {};
+    return roster.map((employee, i) => {
+      const memberHandles = handles[i];
+      return {
+        employee,
+        anonymity: toAnonymityStatus(employee.reviewerCount, minReviewers),
+        results: memberHandles
+          ? toEmployeeResults(employee.employeeId, cycleId, criteria, memberHandles, decrypted)
+          : null,
+      };
+    });
+  }
+
+  /**
+   * Mark the department totals as publicly decryptable, reverts below the reviewer threshold
+   */
+  async requestDepartmentDecryption(departmentId: number, cycleId: number): Promise<ethers.TransactionReceipt> {
+    return this.wait(this.contract.requestDepartmentDecryption(departmentId, cycleId));
+  }
+
+  /**
+   * Department totals for a cycle, decrypted only once the anonymity threshold is met and they were published
+   */
+  async getDepartmentStats(departmentId: number, cycleId: number): Promise<DepartmentStats> {
+    const [department, minReviewers] = await Promise.all([
+      this.contract.getDepartmentAggregate(departmentId, cycleId),
+      this.getCycleMinReviewers(cycleId),
+    ]);
+    const anonymity = toAnonymityStatus(Number(department.reviewerCount), minReviewers);
+    const stats: DepartmentStats = { departmentId, cycleId, anonymity, score: null };
+    if (!anonymity.canDecrypt || !(await this.contract.isDepartmentAggregateDecryptable(departmentId, cycleId))) {
+      return stats;
+    }
+
+    const decryption = await this.fhevm.publicDecryptV09([
+      department.weightedSum,
+      department.encryptedReviewCount,
+      department.totalWeight,
+      department.highPerformerCount,
+      department.lowPerformerCount,
+    ]);
+    stats.score = {
+      ...toAggregateScore(
+        decryption.clearValues[department.weightedSum],
+        decryption.clearValues[department.encryptedReviewCount],
+        decryption.clearValues[department.totalWeight]
+      ),
+      highPerformerCount: Number(decryption.clearValues[department.highPerformerCount]),
+      lowPerformerCount: Number(decryption.clearValues[department.lowPerformerCount]),
+    };
+    return stats;
+  }
+
+  /**
+   * Publicly decrypt the per-criterion aggregate, published together with the overall one
+   */
+  async decryptCriteriaAggregate(employeeId: string, cycleId: number): Promise<CriterionScore[]> {
+    const [criteria, sums, aggregate] = await Promise.all([
+      this.contract.getCycleCriteria(cycleId),
+      this.getEncryptedCriteriaAggregate(employeeId, cycleId),
+      this.getEncryptedAggregate(employeeId, cycleId),
+    ]);
+    if (sums.length === 0) {
+      return criteria.map((criterion) => ({ criterion, weightedSum: 0, average: 0 }));
+    }
+
+    const decryption = await this.fhevm.publicDecryptV09([...sums, aggregate.totalWeight]);
+    const totalWeight = Number(decryption.clearValues[aggregate.totalWeight]);
+    return criteria.map((criterion, i) => {
+      const weightedSum = Number(decryption.clearValues[sums[i]]);
+      return {
+        criterion,
+        weightedSum,
+        average: totalWeight > 0 ? weightedSum / totalWeight : 0,
+      };
+    });
+  }
+
+  /**
+   * Publicly decrypt the employee aggregate and record it on-chain with the KMS proof
+   */
+  async verifyAggregate(employeeId: string, cycleId: number): Promise<VerifiedAggregate> {
+    const aggregate = await this.getEncryptedAggregate(employeeId, cycleId);
+    // The contract checks the proof against the handles in this order
+    const decryption = await this.fhevm.publicDecryptV09([
+      aggregate.weightedSum,
+      aggregate.reviewCount,
+      aggregate.totalWeight,
+    ]);
+
+    const receipt = await this.wait(
+      this.contract.verifyAggregate(
+        employeeId,
+        cycleId,
+        decryption.abiEncodedClearValues,
+        decryption.decryptionProof
+      )
+    );
+
+    return {
+      aggregate: toAggregateScore(
+        decryption.clearValues[aggregate.weightedSum],
+        decryption.clearValues[aggregate.reviewCount],
+        decryption.clearValues[aggregate.totalWeight]
+      ),
+      receipt,
+    };
+  }
+
+  /**
+   * Calculate the final score from the latest verified aggregate.
+   * Reverts with "Score already finalized" until a newer aggregate is verified
+   */
+  async calculateFinalScore(employeeId: string, cycleId: number): Promise<CalculatedFinalScore> {
+    const receipt = await this.wait(this.contract.calculateFinalScore(employeeId, cycleId));
+
+    const event = this.findEvent(receipt, this.contract.getEvent('FinalScoreCalculated').fragment);
+    const block = await receipt.getBlock();
+    return {
+      employeeId,
+      cycleId,
+      finalScore: Number(event.args.finalScore) / SCORE_SCALE,
+      aggregateVersion: Number(event.args.aggregateVersion),
+      calculatedAt: block.timestamp,
+      receipt,
+    };
+  }
+
+  /**
+   * The recorded final score of an employee in a cycle, or null before it was calculated
+   */
+  async getFinalScore(employeeId: string, cycleId: number): Promise<FinalScore | null> {
+    const record = await this.contract.getFinalScore(employeeId, cycleId);
+    if (record.aggregateVersion === 0n) {
+      return null;
+    }
+    return {
+      employeeId,
+      cycleId,
+      finalScore: Number(record.score) / SCORE_SCALE,
+      aggregateVersion: Number(record.aggregateVersion),
+      calculatedAt: Number(record.calculatedAt),
+    };
+  }
+
+  private async getResultHandles(employeeId: string, cycleId: number): Promise<ResultHandles> {
+    const [aggregate, counts, criteria] = await Promise.all([
+      this.getEncryptedAggregate(employeeId, cycleId),
+      this.contract.getEncryptedPerformerCounts(employeeId, cycleId),
+      this.getEncryptedCriteriaAggregate(employeeId, cycleId),
+    ]);
+    return {
+      ...aggregate,
+      highPerformerCount: counts.highPerformerCount,
+      lowPerformerCount: counts.lowPerformerCount,
+      criteria,
+    };
+  }
+
+  private async scoreScale(cycleId: number): Promise<EncryptScale> {
+    const cycle = await this.contract.cycles(cycleId);
+    return { min: 1, max: Number(cycle.maxScore) };
+  }
+
+  private async signerAddress(): Promise<string> {
+    const runner = this.contract.runner as ethers.Signer | null;
+    if (!runner || typeof runner.getAddress !== 'function') {
+      throw new Error('ReviewGuardClient needs a signer to send transactions');
+    }
+    return runner.getAddress();
+  }
+
+  private async wait(
+    pending: Promise<ethers.ContractTransactionResponse>
+  ): Promise<ethers.TransactionReceipt> {
+    const tx = await pending;
+    const receipt = await tx.wait();
+    if (!receipt) {
+      throw new Error("Transaction receipt is null");
+    }
+    return receipt;
+  }
+
+  private findEvent(receipt: ethers.TransactionReceipt, fragment: ethers.EventFragment): ethers.LogDescription {
+    for (const log of receipt.logs) {
+      const parsed = this.contract.interface.parseLog(log);
+      if (parsed && parsed.topic === fragment.topicHash) {
+        return parsed;
+      }
+    }
+    throw new Error(`${fragment.name} event not found in transaction ${receipt.hash}`);
+  }
+}
+
+/** Every handle the contract grants together when it allows an account on an employee aggregate */
+interface ResultHandles extends EncryptedAggregate {
+  highPerformerCount: string;
+  lowPerformerCount: string;
+  criteria: string[];
+}
+
+function resultHandleList(handles: ResultHandles): string[] {
+  return [
+    handles.weightedSum,
+    handles.reviewCount,
+    handles.totalWeight,
+    handles.highPerformerCount,
+    handles.lowPerformerCount,
+    ...handles.criteria,
+  ];
+}
+
+function toEmployeeResults(
+  employeeId: string,
+  cycleId: number,
+  criteria: string[],
+  handles: ResultHandles,
+  decrypted: Record<string, DecryptedValue>
+): EmployeeResults {
+  const totalWeight = Number(decrypted[handles.totalWeight]);
+  return {
+    employeeId,
+    cycleId,
+    aggregate: toAggregateScore(
+      decrypted[handles.weightedSum] as bigint,
+      decrypted[handles.reviewCount] as bigint,
+      decrypted[handles.totalWeight] as bigint
+    ),
+    criteria: criteria.map((criterion, i) => {
+      const weightedSum = Number(decrypted[handles.criteria[i]]);
+      return { criterion, weightedSum, average: totalWeight > 0 ? weightedSum / totalWeight : 0 };
+    }),
+    performers: {
+      highPerformerCount: Number(decrypted[handles.highPerformerCount]),
+      lowPerformerCount: Number(decrypted[handles.lowPerformerCount]),
+    },
+  };
+}
+
+function toAggregateScore(weightedSum: bigint, reviewCount: bigint, totalWeight: bigint): AggregateScore {
+  const weight = Number(totalWeight);
+  return {
+    weightedSum: Number(weightedSum),
+    reviewCount: Number(reviewCount),
+    totalWeight: weight,
+    average: weight > 0 ? Number(weightedSum) / weight : 0,
+  };
+}
+
+export function toAnonymityStatus(reviewerCount: number, minReviewers: number): AnonymityStatus {
+  const remaining = Math.max(minReviewers - reviewerCount, 0);
+  return {
+    reviewerCount,
+    minReviewers,
+    remaining,
+    canDecrypt: remaining === 0,
+  };
+}
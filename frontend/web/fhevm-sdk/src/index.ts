@@ -6,6 +6,10 @@
 // Core FHEVM functionality
 export * from './core/index.js';
 
+// Generated contract bindings
+export { ReviewGuardFHE__factory } from './typechain/index.js';
+export type { ReviewGuardFHE } from './typechain/index.js';
+
 // Framework adapters - explicit exports to avoid conflicts
-export { useWallet, useFhevm, useContract, useDecrypt, useEncrypt } from './adapters/react.js';
+export { useWallet, useFhevm, useContract, useDecrypt, useEncrypt, useAggregateScore, useOwnResults, useTeamResults } from './adapters/react.js';
 
@@ -0,0 +1,2133 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "./common.js";
+
+export interface ReviewGuardFHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "DEFAULT_HIGH_PERFORMER_SCORE"
+      | "DEFAULT_LOW_PERFORMER_SCORE"
+      | "DEFAULT_MAX_SCORE"
+      | "DEFAULT_MIN_REVIEWERS"
+      | "MAX_CRITERIA"
+      | "RELATIONSHIP_COUNT"
+      | "SCORE_SCALE"
+      | "addEmployee"
+      | "allowOwnAggregate"
+      | "allowRelationshipWeights"
+      | "allowTeamAggregates"
+      | "bindEmployeeWallet"
+      | "calculateFinalScore"
+      | "closeCycle"
+      | "confidentialProtocolId"
+      | "createCycle"
+      | "cycleCount"
+      | "cycles"
+      | "departmentEmployees"
+      | "departmentManagers"
+      | "employeeExists"
+      | "employees"
+      | "finalizeCycle"
+      | "getCriteria"
+      | "getCycleCriteria"
+      | "getDepartmentAggregate"
+      | "getDepartmentEmployees"
+      | "getEmployee"
+      | "getEmployeeWallet"
+      | "getEncryptedAggregate"
+      | "getEncryptedCriteriaAggregate"
+      | "getEncryptedPerformerCounts"
+      | "getFinalScore"
+      | "getRelationship"
+      | "getRelationshipWeight"
+      | "getReview"
+      | "getReviewIdOf"
+      | "getReviewIds"
+      | "hasReviewed"
+      | "highPerformerScore"
+      | "hrAdmins"
+      | "isAggregateAllowed"
+      | "isAggregateDecryptable"
+      | "isAvailable"
+      | "isDepartmentAggregateDecryptable"
+      | "isEligibleReviewer"
+      | "lastReviewId"
+      | "lowPerformerScore"
+      | "maxScore"
+      | "minReviewers"
+      | "openCycle"
+      | "owner"
+      | "requestAggregateDecryption"
+      | "requestDepartmentDecryption"
+      | "setCriteria"
+      | "setDepartmentManager"
+      | "setHrAdmin"
+      | "setMaxScore"
+      | "setMinReviewers"
+      | "setPerformanceThresholds"
+      | "setRelationshipWeights"
+      | "setReviewerRelationship"
+      | "submitReview"
+      | "updateReview"
+      | "verifyAggregate"
+      | "walletEmployees"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AggregateAccessGranted"
+      | "AggregateDecrypted"
+      | "AggregateDecryptionRequested"
+      | "CriteriaUpdated"
+      | "CycleCreated"
+      | "CycleStatusChanged"
+      | "DepartmentDecryptionRequested"
+      | "DepartmentManagerUpdated"
+      | "EmployeeWalletBound"
+      | "FinalScoreCalculated"
+      | "HrAdminUpdated"
+      | "MaxScoreUpdated"
+      | "MinReviewersUpdated"
+      | "PerformanceThresholdsUpdated"
+      | "PublicDecryptionVerified"
+      | "RelationshipWeightsUpdated"
+      | "ReviewSubmitted"
+      | "ReviewUpdated"
+      | "ReviewerRelationshipUpdated"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "DEFAULT_HIGH_PERFORMER_SCORE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "DEFAULT_LOW_PERFORMER_SCORE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "DEFAULT_MAX_SCORE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "DEFAULT_MIN_REVIEWERS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_CRITERIA",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "RELATIONSHIP_COUNT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "SCORE_SCALE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addEmployee",
+    values: [string, string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "allowOwnAggregate",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "allowRelationshipWeights",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "allowTeamAggregates",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "bindEmployeeWallet",
+    values: [string, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "calculateFinalScore",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closeCycle",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "confidentialProtocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "createCycle", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "cycleCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cycles",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "departmentEmployees",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "departmentManagers",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "employeeExists",
+    values: [string]
+  ): string;
+  encodeFunctionData(functionFragment: "employees", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "finalizeCycle",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCriteria",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCycleCriteria",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getDepartmentAggregate",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getDepartmentEmployees",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEmployee",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEmployeeWallet",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedAggregate",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedCriteriaAggregate",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedPerformerCounts",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getFinalScore",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRelationship",
+    values: [string, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRelationshipWeight",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getReview",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getReviewIdOf",
+    values: [string, BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getReviewIds",
+    values: [string, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasReviewed",
+    values: [string, BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "highPerformerScore",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hrAdmins",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isAggregateAllowed",
+    values: [string, BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isAggregateDecryptable",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isAvailable",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isDepartmentAggregateDecryptable",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isEligibleReviewer",
+    values: [string, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastReviewId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lowPerformerScore",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "maxScore", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "minReviewers",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "openCycle",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "requestAggregateDecryption",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestDepartmentDecryption",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setCriteria",
+    values: [string[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setDepartmentManager",
+    values: [BigNumberish, AddressLike, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setHrAdmin",
+    values: [AddressLike, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setMaxScore",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setMinReviewers",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setPerformanceThresholds",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setRelationshipWeights",
+    values: [BytesLike[], BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setReviewerRelationship",
+    values: [string, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitReview",
+    values: [
+      string,
+      BigNumberish,
+      BytesLike,
+      BytesLike[],
+      BytesLike,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateReview",
+    values: [string, BigNumberish, BytesLike, BytesLike[], BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "verifyAggregate",
+    values: [string, BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "walletEmployees",
+    values: [AddressLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "DEFAULT_HIGH_PERFORMER_SCORE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "DEFAULT_LOW_PERFORMER_SCORE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "DEFAULT_MAX_SCORE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "DEFAULT_MIN_REVIEWERS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_CRITERIA",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "RELATIONSHIP_COUNT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "SCORE_SCALE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addEmployee",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "allowOwnAggregate",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "allowRelationshipWeights",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "allowTeamAggregates",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "bindEmployeeWallet",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "calculateFinalScore",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "closeCycle", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "confidentialProtocolId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createCycle",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "cycleCount", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "cycles", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "departmentEmployees",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "departmentManagers",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "employeeExists",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "employees", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "finalizeCycle",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCriteria",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCycleCriteria",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getDepartmentAggregate",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getDepartmentEmployees",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEmployee",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEmployeeWallet",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedAggregate",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedCriteriaAggregate",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedPerformerCounts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getFinalScore",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRelationship",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRelationshipWeight",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getReview", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getReviewIdOf",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getReviewIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "hasReviewed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "highPerformerScore",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "hrAdmins", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isAggregateAllowed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isAggregateDecryptable",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isAvailable",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isDepartmentAggregateDecryptable",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isEligibleReviewer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lastReviewId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lowPerformerScore",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "maxScore", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "minReviewers",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "openCycle", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "requestAggregateDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestDepartmentDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setCriteria",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setDepartmentManager",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setHrAdmin", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setMaxScore",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setMinReviewers",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setPerformanceThresholds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setRelationshipWeights",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setReviewerRelationship",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitReview",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateReview",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "verifyAggregate",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "walletEmployees",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AggregateAccessGrantedEvent {
+  export type InputTuple = [
+    employeeId: string,
+    cycleId: BigNumberish,
+    account: AddressLike
+  ];
+  export type OutputTuple = [
+    employeeId: string,
+    cycleId: bigint,
+    account: string
+  ];
+  export interface OutputObject {
+    employeeId: string;
+    cycleId: bigint;
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AggregateDecryptedEvent {
+  export type InputTuple = [
+    employeeId: string,
+    cycleId: BigNumberish,
+    weightedSum: BigNumberish,
+    reviewCount: BigNumberish,
+    totalWeight: BigNumberish
+  ];
+  export type OutputTuple = [
+    employeeId: string,
+    cycleId: bigint,
+    weightedSum: bigint,
+    reviewCount: bigint,
+    totalWeight: bigint
+  ];
+  export interface OutputObject {
+    employeeId: string;
+    cycleId: bigint;
+    weightedSum: bigint;
+    reviewCount: bigint;
+    totalWeight: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AggregateDecryptionRequestedEvent {
+  export type InputTuple = [employeeId: string, cycleId: BigNumberish];
+  export type OutputTuple = [employeeId: string, cycleId: bigint];
+  export interface OutputObject {
+    employeeId: string;
+    cycleId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CriteriaUpdatedEvent {
+  export type InputTuple = [criteria: string[]];
+  export type OutputTuple = [criteria: string[]];
+  export interface OutputObject {
+    criteria: string[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CycleCreatedEvent {
+  export type InputTuple = [cycleId: BigNumberish, name: string];
+  export type OutputTuple = [cycleId: bigint, name: string];
+  export interface OutputObject {
+    cycleId: bigint;
+    name: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CycleStatusChangedEvent {
+  export type InputTuple = [cycleId: BigNumberish, status: BigNumberish];
+  export type OutputTuple = [cycleId: bigint, status: bigint];
+  export interface OutputObject {
+    cycleId: bigint;
+    status: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DepartmentDecryptionRequestedEvent {
+  export type InputTuple = [departmentId: BigNumberish, cycleId: BigNumberish];
+  export type OutputTuple = [departmentId: bigint, cycleId: bigint];
+  export interface OutputObject {
+    departmentId: bigint;
+    cycleId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DepartmentManagerUpdatedEvent {
+  export type InputTuple = [
+    departmentId: BigNumberish,
+    account: AddressLike,
+    granted: boolean
+  ];
+  export type OutputTuple = [
+    departmentId: bigint,
+    account: string,
+    granted: boolean
+  ];
+  export interface OutputObject {
+    departmentId: bigint;
+    account: string;
+    granted: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EmployeeWalletBoundEvent {
+  export type InputTuple = [employeeId: string, wallet: AddressLike];
+  export type OutputTuple = [employeeId: string, wallet: string];
+  export interface OutputObject {
+    employeeId: string;
+    wallet: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace FinalScoreCalculatedEvent {
+  export type InputTuple = [
+    employeeId: string,
+    cycleId: BigNumberish,
+    finalScore: BigNumberish,
+    aggregateVersion: BigNumberish
+  ];
+  export type OutputTuple = [
+    employeeId: string,
+    cycleId: bigint,
+    finalScore: bigint,
+    aggregateVersion: bigint
+  ];
+  export interface OutputObject {
+    employeeId: string;
+    cycleId: bigint;
+    finalScore: bigint;
+    aggregateVersion: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace HrAdminUpdatedEvent {
+  export type InputTuple = [account: AddressLike, granted: boolean];
+  export type OutputTuple = [account: string, granted: boolean];
+  export interface OutputObject {
+    account: string;
+    granted: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MaxScoreUpdatedEvent {
+  export type InputTuple = [maxScore: BigNumberish];
+  export type OutputTuple = [maxScore: bigint];
+  export interface OutputObject {
+    maxScore: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MinReviewersUpdatedEvent {
+  export type InputTuple = [minReviewers: BigNumberish];
+  export type OutputTuple = [minReviewers: bigint];
+  export interface OutputObject {
+    minReviewers: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PerformanceThresholdsUpdatedEvent {
+  export type InputTuple = [
+    highPerformerScore: BigNumberish,
+    lowPerformerScore: BigNumberish
+  ];
+  export type OutputTuple = [
+    highPerformerScore: bigint,
+    lowPerformerScore: bigint
+  ];
+  export interface OutputObject {
+    highPerformerScore: bigint;
+    lowPerformerScore: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PublicDecryptionVerifiedEvent {
+  export type InputTuple = [
+    handlesList: BytesLike[],
+    abiEncodedCleartexts: BytesLike
+  ];
+  export type OutputTuple = [
+    handlesList: string[],
+    abiEncodedCleartexts: string
+  ];
+  export interface OutputObject {
+    handlesList: string[];
+    abiEncodedCleartexts: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RelationshipWeightsUpdatedEvent {
+  export type InputTuple = [updatedBy: AddressLike];
+  export type OutputTuple = [updatedBy: string];
+  export interface OutputObject {
+    updatedBy: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReviewSubmittedEvent {
+  export type InputTuple = [
+    employeeId: string,
+    cycleId: BigNumberish,
+    reviewer: AddressLike,
+    reviewId: BigNumberish
+  ];
+  export type OutputTuple = [
+    employeeId: string,
+    cycleId: bigint,
+    reviewer: string,
+    reviewId: bigint
+  ];
+  export interface OutputObject {
+    employeeId: string;
+    cycleId: bigint;
+    reviewer: string;
+    reviewId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReviewUpdatedEvent {
+  export type InputTuple = [
+    employeeId: string,
+    cycleId: BigNumberish,
+    reviewer: AddressLike,
+    reviewId: BigNumberish
+  ];
+  export type OutputTuple = [
+    employeeId: string,
+    cycleId: bigint,
+    reviewer: string,
+    reviewId: bigint
+  ];
+  export interface OutputObject {
+    employeeId: string;
+    cycleId: bigint;
+    reviewer: string;
+    reviewId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReviewerRelationshipUpdatedEvent {
+  export type InputTuple = [
+    employeeId: string,
+    reviewer: AddressLike,
+    relationship: BigNumberish
+  ];
+  export type OutputTuple = [
+    employeeId: string,
+    reviewer: string,
+    relationship: bigint
+  ];
+  export interface OutputObject {
+    employeeId: string;
+    reviewer: string;
+    relationship: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface ReviewGuardFHE extends BaseContract {
+  connect(runner?: ContractRunner | null): ReviewGuardFHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: ReviewGuardFHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  DEFAULT_HIGH_PERFORMER_SCORE: TypedContractMethod<[], [bigint], "view">;
+
+  DEFAULT_LOW_PERFORMER_SCORE: TypedContractMethod<[], [bigint], "view">;
+
+  DEFAULT_MAX_SCORE: TypedContractMethod<[], [bigint], "view">;
+
+  DEFAULT_MIN_REVIEWERS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_CRITERIA: TypedContractMethod<[], [bigint], "view">;
+
+  RELATIONSHIP_COUNT: TypedContractMethod<[], [bigint], "view">;
+
+  SCORE_SCALE: TypedContractMethod<[], [bigint], "view">;
+
+  addEmployee: TypedContractMethod<
+    [employeeId: string, name: string, departmentId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  allowOwnAggregate: TypedContractMethod<
+    [cycleId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  allowRelationshipWeights: TypedContractMethod<[], [void], "nonpayable">;
+
+  allowTeamAggregates: TypedContractMethod<
+    [departmentId: BigNumberish, cycleId: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  bindEmployeeWallet: TypedContractMethod<
+    [employeeId: string, wallet: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  calculateFinalScore: TypedContractMethod<
+    [employeeId: string, cycleId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  closeCycle: TypedContractMethod<
+    [cycleId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  confidentialProtocolId: TypedContractMethod<[], [bigint], "view">;
+
+  createCycle: TypedContractMethod<[name: string], [bigint], "nonpayable">;
+
+  cycleCount: TypedContractMethod<[], [bigint], "view">;
+
+  cycles: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, bigint, bigint, bigint, bigint, bigint, bigint] & {
+        name: string;
+        status: bigint;
+        openedAt: bigint;
+        closedAt: bigint;
+        maxScore: bigint;
+        highPerformerScore: bigint;
+        lowPerformerScore: bigint;
+        minReviewers: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  departmentEmployees: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  departmentManagers: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  employeeExists: TypedContractMethod<[arg0: string], [boolean], "view">;
+
+  employees: TypedContractMethod<
+    [arg0: string],
+    [
+      [string, string, bigint, string] & {
+        employeeId: string;
+        name: string;
+        departmentId: bigint;
+        wallet: string;
+      }
+    ],
+    "view"
+  >;
+
+  finalizeCycle: TypedContractMethod<
+    [cycleId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getCriteria: TypedContractMethod<[], [string[]], "view">;
+
+  getCycleCriteria: TypedContractMethod<
+    [cycleId: BigNumberish],
+    [string[]],
+    "view"
+  >;
+
+  getDepartmentAggregate: TypedContractMethod<
+    [departmentId: BigNumberish, cycleId: BigNumberish],
+    [
+      [string, string, string, string, bigint, string, bigint] & {
+        weightedSum: string;
+        encryptedReviewCount: string;
+        highPerformerCount: string;
+        lowPerformerCount: string;
+        reviewCount: bigint;
+        totalWeight: string;
+        reviewerCount: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getDepartmentEmployees: TypedContractMethod<
+    [departmentId: BigNumberish],
+    [string[]],
+    "view"
+  >;
+
+  getEmployee: TypedContractMethod<
+    [employeeId: string, cycleId: BigNumberish],
+    [
+      [string, bigint, bigint, bigint, bigint, bigint] & {
+        name: string;
+        totalScore: bigint;
+        reviewCount: bigint;
+        departmentId: bigint;
+        reviewerCount: bigint;
+        totalWeight: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getEmployeeWallet: TypedContractMethod<
+    [employeeId: string],
+    [string],
+    "view"
+  >;
+
+  getEncryptedAggregate: TypedContractMethod<
+    [employeeId: string, cycleId: BigNumberish],
+    [
+      [string, string, string] & {
+        weightedSum: string;
+        reviewCount: string;
+        totalWeight: string;
+      }
+    ],
+    "view"
+  >;
+
+  getEncryptedCriteriaAggregate: TypedContractMethod<
+    [employeeId: string, cycleId: BigNumberish],
+    [string[]],
+    "view"
+  >;
+
+  getEncryptedPerformerCounts: TypedContractMethod<
+    [employeeId: string, cycleId: BigNumberish],
+    [
+      [string, string] & {
+        highPerformerCount: string;
+        lowPerformerCount: string;
+      }
+    ],
+    "view"
+  >;
+
+  getFinalScore: TypedContractMethod<
+    [employeeId: string, cycleId: BigNumberish],
+    [
+      [bigint, bigint, bigint] & {
+        score: bigint;
+        aggregateVersion: bigint;
+        calculatedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getRelationship: TypedContractMethod<
+    [employeeId: string, reviewer: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  getRelationshipWeight: TypedContractMethod<
+    [relationship: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  getReview: TypedContractMethod<
+    [employeeId: string, reviewId: BigNumberish],
+    [
+      [bigint, bigint, string, bigint] & {
+        cycleId: bigint;
+        departmentId: bigint;
+        reviewer: string;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getReviewIdOf: TypedContractMethod<
+    [employeeId: string, cycleId: BigNumberish, reviewer: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  getReviewIds: TypedContractMethod<
+    [employeeId: string, offset: BigNumberish, limit: BigNumberish],
+    [[bigint[], bigint] & { reviewIds: bigint[]; total: bigint }],
+    "view"
+  >;
+
+  hasReviewed: TypedContractMethod<
+    [employeeId: string, cycleId: BigNumberish, reviewer: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  highPerformerScore: TypedContractMethod<[], [bigint], "view">;
+
+  hrAdmins: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  isAggregateAllowed: TypedContractMethod<
+    [employeeId: string, cycleId: BigNumberish, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  isAggregateDecryptable: TypedContractMethod<
+    [employeeId: string, cycleId: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  isAvailable: TypedContractMethod<[], [boolean], "view">;
+
+  isDepartmentAggregateDecryptable: TypedContractMethod<
+    [departmentId: BigNumberish, cycleId: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  isEligibleReviewer: TypedContractMethod<
+    [employeeId: string, reviewer: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  lastReviewId: TypedContractMethod<[], [bigint], "view">;
+
+  lowPerformerScore: TypedContractMethod<[], [bigint], "view">;
+
+  maxScore: TypedContractMethod<[], [bigint], "view">;
+
+  minReviewers: TypedContractMethod<[], [bigint], "view">;
+
+  openCycle: TypedContractMethod<[cycleId: BigNumberish], [void], "nonpayable">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  requestAggregateDecryption: TypedContractMethod<
+    [employeeId: string, cycleId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  requestDepartmentDecryption: TypedContractMethod<
+    [departmentId: BigNumberish, cycleId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setCriteria: TypedContractMethod<
+    [newCriteria: string[]],
+    [void],
+    "nonpayable"
+  >;
+
+  setDepartmentManager: TypedContractMethod<
+    [departmentId: BigNumberish, account: AddressLike, granted: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  setHrAdmin: TypedContractMethod<
+    [account: AddressLike, granted: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  setMaxScore: TypedContractMethod<
+    [newMaxScore: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setMinReviewers: TypedContractMethod<
+    [newMinReviewers: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setPerformanceThresholds: TypedContractMethod<
+    [newHighPerformerScore: BigNumberish, newLowPerformerScore: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setRelationshipWeights: TypedContractMethod<
+    [encryptedWeights: BytesLike[], inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setReviewerRelationship: TypedContractMethod<
+    [employeeId: string, reviewer: AddressLike, relationship: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  submitReview: TypedContractMethod<
+    [
+      employeeId: string,
+      cycleId: BigNumberish,
+      encryptedScore: BytesLike,
+      encryptedCriteria: BytesLike[],
+      inputProof: BytesLike,
+      departmentId: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  updateReview: TypedContractMethod<
+    [
+      employeeId: string,
+      cycleId: BigNumberish,
+      encryptedScore: BytesLike,
+      encryptedCriteria: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  verifyAggregate: TypedContractMethod<
+    [
+      employeeId: string,
+      cycleId: BigNumberish,
+      abiEncodedClearValues: BytesLike,
+      decryptionProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  walletEmployees: TypedContractMethod<[arg0: AddressLike], [string], "view">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "DEFAULT_HIGH_PERFORMER_SCORE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "DEFAULT_LOW_PERFORMER_SCORE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "DEFAULT_MAX_SCORE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "DEFAULT_MIN_REVIEWERS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_CRITERIA"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "RELATIONSHIP_COUNT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "SCORE_SCALE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "addEmployee"
+  ): TypedContractMethod<
+    [employeeId: string, name: string, departmentId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "allowOwnAggregate"
+  ): TypedContractMethod<[cycleId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "allowRelationshipWeights"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "allowTeamAggregates"
+  ): TypedContractMethod<
+    [departmentId: BigNumberish, cycleId: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "bindEmployeeWallet"
+  ): TypedContractMethod<
+    [employeeId: string, wallet: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "calculateFinalScore"
+  ): TypedContractMethod<
+    [employeeId: string, cycleId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "closeCycle"
+  ): TypedContractMethod<[cycleId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "confidentialProtocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "createCycle"
+  ): TypedContractMethod<[name: string], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "cycleCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "cycles"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, bigint, bigint, bigint, bigint, bigint, bigint] & {
+        name: string;
+        status: bigint;
+        openedAt: bigint;
+        closedAt: bigint;
+        maxScore: bigint;
+        highPerformerScore: bigint;
+        lowPerformerScore: bigint;
+        minReviewers: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "departmentEmployees"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "departmentManagers"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "employeeExists"
+  ): TypedContractMethod<[arg0: string], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "employees"
+  ): TypedContractMethod<
+    [arg0: string],
+    [
+      [string, string, bigint, string] & {
+        employeeId: string;
+        name: string;
+        departmentId: bigint;
+        wallet: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "finalizeCycle"
+  ): TypedContractMethod<[cycleId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "getCriteria"
+  ): TypedContractMethod<[], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getCycleCriteria"
+  ): TypedContractMethod<[cycleId: BigNumberish], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getDepartmentAggregate"
+  ): TypedContractMethod<
+    [departmentId: BigNumberish, cycleId: BigNumberish],
+    [
+      [string, string, string, string, bigint, string, bigint] & {
+        weightedSum: string;
+        encryptedReviewCount: string;
+        highPerformerCount: string;
+        lowPerformerCount: string;
+        reviewCount: bigint;
+        totalWeight: string;
+        reviewerCount: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getDepartmentEmployees"
+  ): TypedContractMethod<[departmentId: BigNumberish], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getEmployee"
+  ): TypedContractMethod<
+    [employeeId: string, cycleId: BigNumberish],
+    [
+      [string, bigint, bigint, bigint, bigint, bigint] & {
+        name: string;
+        totalScore: bigint;
+        reviewCount: bigint;
+        departmentId: bigint;
+        reviewerCount: bigint;
+        totalWeight: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEmployeeWallet"
+  ): TypedContractMethod<[employeeId: string], [string], "view">;
+  getFunction(
+    nameOrSignature: "getEncryptedAggregate"
+  ): TypedContractMethod<
+    [employeeId: string, cycleId: BigNumberish],
+    [
+      [string, string, string] & {
+        weightedSum: string;
+        reviewCount: string;
+        totalWeight: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEncryptedCriteriaAggregate"
+  ): TypedContractMethod<
+    [employeeId: string, cycleId: BigNumberish],
+    [string[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEncryptedPerformerCounts"
+  ): TypedContractMethod<
+    [employeeId: string, cycleId: BigNumberish],
+    [
+      [string, string] & {
+        highPerformerCount: string;
+        lowPerformerCount: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getFinalScore"
+  ): TypedContractMethod<
+    [employeeId: string, cycleId: BigNumberish],
+    [
+      [bigint, bigint, bigint] & {
+        score: bigint;
+        aggregateVersion: bigint;
+        calculatedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getRelationship"
+  ): TypedContractMethod<
+    [employeeId: string, reviewer: AddressLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getRelationshipWeight"
+  ): TypedContractMethod<[relationship: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "getReview"
+  ): TypedContractMethod<
+    [employeeId: string, reviewId: BigNumberish],
+    [
+      [bigint, bigint, string, bigint] & {
+        cycleId: bigint;
+        departmentId: bigint;
+        reviewer: string;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getReviewIdOf"
+  ): TypedContractMethod<
+    [employeeId: string, cycleId: BigNumberish, reviewer: AddressLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getReviewIds"
+  ): TypedContractMethod<
+    [employeeId: string, offset: BigNumberish, limit: BigNumberish],
+    [[bigint[], bigint] & { reviewIds: bigint[]; total: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "hasReviewed"
+  ): TypedContractMethod<
+    [employeeId: string, cycleId: BigNumberish, reviewer: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "highPerformerScore"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "hrAdmins"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isAggregateAllowed"
+  ): TypedContractMethod<
+    [employeeId: string, cycleId: BigNumberish, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isAggregateDecryptable"
+  ): TypedContractMethod<
+    [employeeId: string, cycleId: BigNumberish],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isAvailable"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isDepartmentAggregateDecryptable"
+  ): TypedContractMethod<
+    [departmentId: BigNumberish, cycleId: BigNumberish],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isEligibleReviewer"
+  ): TypedContractMethod<
+    [employeeId: string, reviewer: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "lastReviewId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "lowPerformerScore"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "maxScore"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "minReviewers"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "openCycle"
+  ): TypedContractMethod<[cycleId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "requestAggregateDecryption"
+  ): TypedContractMethod<
+    [employeeId: string, cycleId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "requestDepartmentDecryption"
+  ): TypedContractMethod<
+    [departmentId: BigNumberish, cycleId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setCriteria"
+  ): TypedContractMethod<[newCriteria: string[]], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setDepartmentManager"
+  ): TypedContractMethod<
+    [departmentId: BigNumberish, account: AddressLike, granted: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setHrAdmin"
+  ): TypedContractMethod<
+    [account: AddressLike, granted: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setMaxScore"
+  ): TypedContractMethod<[newMaxScore: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setMinReviewers"
+  ): TypedContractMethod<[newMinReviewers: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setPerformanceThresholds"
+  ): TypedContractMethod<
+    [newHighPerformerScore: BigNumberish, newLowPerformerScore: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setRelationshipWeights"
+  ): TypedContractMethod<
+    [encryptedWeights: BytesLike[], inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setReviewerRelationship"
+  ): TypedContractMethod<
+    [employeeId: string, reviewer: AddressLike, relationship: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitReview"
+  ): TypedContractMethod<
+    [
+      employeeId: string,
+      cycleId: BigNumberish,
+      encryptedScore: BytesLike,
+      encryptedCriteria: BytesLike[],
+      inputProof: BytesLike,
+      departmentId: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "updateReview"
+  ): TypedContractMethod<
+    [
+      employeeId: string,
+      cycleId: BigNumberish,
+      encryptedScore: BytesLike,
+      encryptedCriteria: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "verifyAggregate"
+  ): TypedContractMethod<
+    [
+      employeeId: string,
+      cycleId: BigNumberish,
+      abiEncodedClearValues: BytesLike,
+      decryptionProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "walletEmployees"
+  ): TypedContractMethod<[arg0: AddressLike], [string], "view">;
+
+  getEvent(
+    key: "AggregateAccessGranted"
+  ): TypedContractEvent<
+    AggregateAccessGrantedEvent.InputTuple,
+    AggregateAccessGrantedEvent.OutputTuple,
+    AggregateAccessGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AggregateDecrypted"
+  ): TypedContractEvent<
+    AggregateDecryptedEvent.InputTuple,
+    AggregateDecryptedEvent.OutputTuple,
+    AggregateDecryptedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AggregateDecryptionRequested"
+  ): TypedContractEvent<
+    AggregateDecryptionRequestedEvent.InputTuple,
+    AggregateDecryptionRequestedEvent.OutputTuple,
+    AggregateDecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CriteriaUpdated"
+  ): TypedContractEvent<
+    CriteriaUpdatedEvent.InputTuple,
+    CriteriaUpdatedEvent.OutputTuple,
+    CriteriaUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CycleCreated"
+  ): TypedContractEvent<
+    CycleCreatedEvent.InputTuple,
+    CycleCreatedEvent.OutputTuple,
+    CycleCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CycleStatusChanged"
+  ): TypedContractEvent<
+    CycleStatusChangedEvent.InputTuple,
+    CycleStatusChangedEvent.OutputTuple,
+    CycleStatusChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DepartmentDecryptionRequested"
+  ): TypedContractEvent<
+    DepartmentDecryptionRequestedEvent.InputTuple,
+    DepartmentDecryptionRequestedEvent.OutputTuple,
+    DepartmentDecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DepartmentManagerUpdated"
+  ): TypedContractEvent<
+    DepartmentManagerUpdatedEvent.InputTuple,
+    DepartmentManagerUpdatedEvent.OutputTuple,
+    DepartmentManagerUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EmployeeWalletBound"
+  ): TypedContractEvent<
+    EmployeeWalletBoundEvent.InputTuple,
+    EmployeeWalletBoundEvent.OutputTuple,
+    EmployeeWalletBoundEvent.OutputObject
+  >;
+  getEvent(
+    key: "FinalScoreCalculated"
+  ): TypedContractEvent<
+    FinalScoreCalculatedEvent.InputTuple,
+    FinalScoreCalculatedEvent.OutputTuple,
+    FinalScoreCalculatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "HrAdminUpdated"
+  ): TypedContractEvent<
+    HrAdminUpdatedEvent.InputTuple,
+    HrAdminUpdatedEvent.OutputTuple,
+    HrAdminUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MaxScoreUpdated"
+  ): TypedContractEvent<
+    MaxScoreUpdatedEvent.InputTuple,
+    MaxScoreUpdatedEvent.OutputTuple,
+    MaxScoreUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MinReviewersUpdated"
+  ): TypedContractEvent<
+    MinReviewersUpdatedEvent.InputTuple,
+    MinReviewersUpdatedEvent.OutputTuple,
+    MinReviewersUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PerformanceThresholdsUpdated"
+  ): TypedContractEvent<
+    PerformanceThresholdsUpdatedEvent.InputTuple,
+    PerformanceThresholdsUpdatedEvent.OutputTuple,
+    PerformanceThresholdsUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PublicDecryptionVerified"
+  ): TypedContractEvent<
+    PublicDecryptionVerifiedEvent.InputTuple,
+    PublicDecryptionVerifiedEvent.OutputTuple,
+    PublicDecryptionVerifiedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RelationshipWeightsUpdated"
+  ): TypedContractEvent<
+    RelationshipWeightsUpdatedEvent.InputTuple,
+    RelationshipWeightsUpdatedEvent.OutputTuple,
+    RelationshipWeightsUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReviewSubmitted"
+  ): TypedContractEvent<
+    ReviewSubmittedEvent.InputTuple,
+    ReviewSubmittedEvent.OutputTuple,
+    ReviewSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReviewUpdated"
+  ): TypedContractEvent<
+    ReviewUpdatedEvent.InputTuple,
+    ReviewUpdatedEvent.OutputTuple,
+    ReviewUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReviewerRelationshipUpdated"
+  ): TypedContractEvent<
+    ReviewerRelationshipUpdatedEvent.InputTuple,
+    ReviewerRelationshipUpdatedEvent.OutputTuple,
+    ReviewerRelationshipUpdatedEvent.OutputObject
+  >;
+
+  filters: {
+    "AggregateAccessGranted(string,uint256,address)": TypedContractEvent<
+      AggregateAccessGrantedEvent.InputTuple,
+      AggregateAccessGrantedEvent.OutputTuple,
+      AggregateAccessGrantedEvent.OutputObject
+    >;
+    AggregateAccessGranted: TypedContractEvent<
+      AggregateAccessGrantedEvent.InputTuple,
+      AggregateAccessGrantedEvent.OutputTuple,
+      AggregateAccessGrantedEvent.OutputObject
+    >;
+
+    "AggregateDecrypted(string,uint256,uint64,uint32,uint64)": TypedContractEvent<
+      AggregateDecryptedEvent.InputTuple,
+      AggregateDecryptedEvent.OutputTuple,
+      AggregateDecryptedEvent.OutputObject
+    >;
+    AggregateDecrypted: TypedContractEvent<
+      AggregateDecryptedEvent.InputTuple,
+      AggregateDecryptedEvent.OutputTuple,
+      AggregateDecryptedEvent.OutputObject
+    >;
+
+    "AggregateDecryptionRequested(string,uint256)": TypedContractEvent<
+      AggregateDecryptionRequestedEvent.InputTuple,
+      AggregateDecryptionRequestedEvent.OutputTuple,
+      AggregateDecryptionRequestedEvent.OutputObject
+    >;
+    AggregateDecryptionRequested: TypedContractEvent<
+      AggregateDecryptionRequestedEvent.InputTuple,
+      AggregateDecryptionRequestedEvent.OutputTuple,
+      AggregateDecryptionRequestedEvent.OutputObject
+    >;
+
+    "CriteriaUpdated(string[])": TypedContractEvent<
+      CriteriaUpdatedEvent.InputTuple,
+      CriteriaUpdatedEvent.OutputTuple,
+      CriteriaUpdatedEvent.OutputObject
+    >;
+    CriteriaUpdated: TypedContractEvent<
+      CriteriaUpdatedEvent.InputTuple,
+      CriteriaUpdatedEvent.OutputTuple,
+      CriteriaUpdatedEvent.OutputObject
+    >;
+
+    "CycleCreated(uint256,string)": TypedContractEvent<
+      CycleCreatedEvent.InputTuple,
+      CycleCreatedEvent.OutputTuple,
+      CycleCreatedEvent.OutputObject
+    >;
+    CycleCreated: TypedContractEvent<
+      CycleCreatedEvent.InputTuple,
+      CycleCreatedEvent.OutputTuple,
+      CycleCreatedEvent.OutputObject
+    >;
+
+    "CycleStatusChanged(uint256,uint8)": TypedContractEvent<
+      CycleStatusChangedEvent.InputTuple,
+      CycleStatusChangedEvent.OutputTuple,
+      CycleStatusChangedEvent.OutputObject
+    >;
+    CycleStatusChanged: TypedContractEvent<
+      CycleStatusChangedEvent.InputTuple,
+      CycleStatusChangedEvent.OutputTuple,
+      CycleStatusChangedEvent.OutputObject
+    >;
+
+    "DepartmentDecryptionRequested(uint256,uint256)": TypedContractEvent<
+      DepartmentDecryptionRequestedEvent.InputTuple,
+      DepartmentDecryptionRequestedEvent.OutputTuple,
+      DepartmentDecryptionRequestedEvent.OutputObject
+    >;
+    DepartmentDecryptionRequested: TypedContractEvent<
+      DepartmentDecryptionRequestedEvent.InputTuple,
+      DepartmentDecryptionRequestedEvent.OutputTuple,
+      DepartmentDecryptionRequestedEvent.OutputObject
+    >;
+
+    "DepartmentManagerUpdated(uint256,address,bool)": TypedContractEvent<
+      DepartmentManagerUpdatedEvent.InputTuple,
+      DepartmentManagerUpdatedEvent.OutputTuple,
+      DepartmentManagerUpdatedEvent.OutputObject
+    >;
+    DepartmentManagerUpdated: TypedContractEvent<
+      DepartmentManagerUpdatedEvent.InputTuple,
+      DepartmentManagerUpdatedEvent.OutputTuple,
+      DepartmentManagerUpdatedEvent.OutputObject
+    >;
+
+    "EmployeeWalletBound(string,address)": TypedContractEvent<
+      EmployeeWalletBoundEvent.InputTuple,
+      EmployeeWalletBoundEvent.OutputTuple,
+      EmployeeWalletBoundEvent.OutputObject
+    >;
+    EmployeeWalletBound: TypedContractEvent<
+      EmployeeWalletBoundEvent.InputTuple,
+      EmployeeWalletBoundEvent.OutputTuple,
+      EmployeeWalletBoundEvent.OutputObject
+    >;
+
+    "FinalScoreCalculated(string,uint256,uint256,uint256)": TypedContractEvent<
+      FinalScoreCalculatedEvent.InputTuple,
+      FinalScoreCalculatedEvent.OutputTuple,
+      FinalScoreCalculatedEvent.OutputObject
+    >;
+    FinalScoreCalculated: TypedContractEvent<
+      FinalScoreCalculatedEvent.InputTuple,
+      FinalScoreCalculatedEvent.OutputTuple,
+      FinalScoreCalculatedEvent.OutputObject
+    >;
+
+    "HrAdminUpdated(address,bool)": TypedContractEvent<
+      HrAdminUpdatedEvent.InputTuple,
+      HrAdminUpdatedEvent.OutputTuple,
+      HrAdminUpdatedEvent.OutputObject
+    >;
+    HrAdminUpdated: TypedContractEvent<
+      HrAdminUpdatedEvent.InputTuple,
+      HrAdminUpdatedEvent.OutputTuple,
+      HrAdminUpdatedEvent.OutputObject
+    >;
+
+    "MaxScoreUpdated(uint8)": TypedContractEvent<
+      MaxScoreUpdatedEvent.InputTuple,
+      MaxScoreUpdatedEvent.OutputTuple,
+      MaxScoreUpdatedEvent.OutputObject
+    >;
+    MaxScoreUpdated: TypedContractEvent<
+      MaxScoreUpdatedEvent.InputTuple,
+      MaxScoreUpdatedEvent.OutputTuple,
+      MaxScoreUpdatedEvent.OutputObject
+    >;
+
+    "MinReviewersUpdated(uint256)": TypedContractEvent<
+      MinReviewersUpdatedEvent.InputTuple,
+      MinReviewersUpdatedEvent.OutputTuple,
+      MinReviewersUpdatedEvent.OutputObject
+    >;
+    MinReviewersUpdated: TypedContractEvent<
+      MinReviewersUpdatedEvent.InputTuple,
+      MinReviewersUpdatedEvent.OutputTuple,
+      MinReviewersUpdatedEvent.OutputObject
+    >;
+
+    "PerformanceThresholdsUpdated(uint8,uint8)": TypedContractEvent<
+      PerformanceThresholdsUpdatedEvent.InputTuple,
+      PerformanceThresholdsUpdatedEvent.OutputTuple,
+      PerformanceThresholdsUpdatedEvent.OutputObject
+    >;
+    PerformanceThresholdsUpdated: TypedContractEvent<
+      PerformanceThresholdsUpdatedEvent.InputTuple,
+      PerformanceThresholdsUpdatedEvent.OutputTuple,
+      PerformanceThresholdsUpdatedEvent.OutputObject
+    >;
+
+    "PublicDecryptionVerified(bytes32[],bytes)": TypedContractEvent<
+      PublicDecryptionVerifiedEvent.InputTuple,
+      PublicDecryptionVerifiedEvent.OutputTuple,
+      PublicDecryptionVerifiedEvent.OutputObject
+    >;
+    PublicDecryptionVerified: TypedContractEvent<
+      PublicDecryptionVerifiedEvent.InputTuple,
+      PublicDecryptionVerifiedEvent.OutputTuple,
+      PublicDecryptionVerifiedEvent.OutputObject
+    >;
+
+    "RelationshipWeightsUpdated(address)": TypedContractEvent<
+      RelationshipWeightsUpdatedEvent.InputTuple,
+      RelationshipWeightsUpdatedEvent.OutputTuple,
+      RelationshipWeightsUpdatedEvent.OutputObject
+    >;
+    RelationshipWeightsUpdated: TypedContractEvent<
+      RelationshipWeightsUpdatedEvent.InputTuple,
+      RelationshipWeightsUpdatedEvent.OutputTuple,
+      RelationshipWeightsUpdatedEvent.OutputObject
+    >;
+
+    "ReviewSubmitted(string,uint256,address,uint256)": TypedContractEvent<
+      ReviewSubmittedEvent.InputTuple,
+      ReviewSubmittedEvent.OutputTuple,
+      ReviewSubmittedEvent.OutputObject
+    >;
+    ReviewSubmitted: TypedContractEvent<
+      ReviewSubmittedEvent.InputTuple,
+      ReviewSubmittedEvent.OutputTuple,
+      ReviewSubmittedEvent.OutputObject
+    >;
+
+    "ReviewUpdated(string,uint256,address,uint256)": TypedContractEvent<
+      ReviewUpdatedEvent.InputTuple,
+      ReviewUpdatedEvent.OutputTuple,
+      ReviewUpdatedEvent.OutputObject
+    >;
+    ReviewUpdated: TypedContractEvent<
+      ReviewUpdatedEvent.InputTuple,
+      ReviewUpdatedEvent.OutputTuple,
+      ReviewUpdatedEvent.OutputObject
+    >;
+
+    "ReviewerRelationshipUpdated(string,address,uint8)": TypedContractEvent<
+      ReviewerRelationshipUpdatedEvent.InputTuple,
+      ReviewerRelationshipUpdatedEvent.OutputTuple,
+      ReviewerRelationshipUpdatedEvent.OutputObject
+    >;
+    ReviewerRelationshipUpdated: TypedContractEvent<
+      ReviewerRelationshipUpdatedEvent.InputTuple,
+      ReviewerRelationshipUpdatedEvent.OutputTuple,
+      ReviewerRelationshipUpdatedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,1908 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../common.js";
+import type {
+  ReviewGuardFHE,
+  ReviewGuardFHEInterface,
+} from "../ReviewGuardFHE.js";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ZamaProtocolUnsupported",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "employeeId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "cycleId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "AggregateAccessGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "employeeId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "cycleId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "weightedSum",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "reviewCount",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "totalWeight",
+        type: "uint64",
+      },
+    ],
+    name: "AggregateDecrypted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "employeeId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "cycleId",
+        type: "uint256",
+      },
+    ],
+    name: "AggregateDecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string[]",
+        name: "criteria",
+        type: "string[]",
+      },
+    ],
+    name: "CriteriaUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "cycleId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+    ],
+    name: "CycleCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "cycleId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "enum ReviewGuardFHE.CycleStatus",
+        name: "status",
+        type: "uint8",
+      },
+    ],
+    name: "CycleStatusChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "departmentId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "cycleId",
+        type: "uint256",
+      },
+    ],
+    name: "DepartmentDecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "departmentId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "granted",
+        type: "bool",
+      },
+    ],
+    name: "DepartmentManagerUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "employeeId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "wallet",
+        type: "address",
+      },
+    ],
+    name: "EmployeeWalletBound",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "employeeId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "cycleId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "finalScore",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "aggregateVersion",
+        type: "uint256",
+      },
+    ],
+    name: "FinalScoreCalculated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "granted",
+        type: "bool",
+      },
+    ],
+    name: "HrAdminUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "maxScore",
+        type: "uint8",
+      },
+    ],
+    name: "MaxScoreUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "minReviewers",
+        type: "uint256",
+      },
+    ],
+    name: "MinReviewersUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "highPerformerScore",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "lowPerformerScore",
+        type: "uint8",
+      },
+    ],
+    name: "PerformanceThresholdsUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bytes32[]",
+        name: "handlesList",
+        type: "bytes32[]",
+      },
+      {
+        indexed: false,
+        internalType: "bytes",
+        name: "abiEncodedCleartexts",
+        type: "bytes",
+      },
+    ],
+    name: "PublicDecryptionVerified",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "updatedBy",
+        type: "address",
+      },
+    ],
+    name: "RelationshipWeightsUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "employeeId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "cycleId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "reviewer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "reviewId",
+        type: "uint256",
+      },
+    ],
+    name: "ReviewSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "employeeId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "cycleId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "reviewer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "reviewId",
+        type: "uint256",
+      },
+    ],
+    name: "ReviewUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "employeeId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "reviewer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "enum ReviewGuardFHE.Relationship",
+        name: "relationship",
+        type: "uint8",
+      },
+    ],
+    name: "ReviewerRelationshipUpdated",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "DEFAULT_HIGH_PERFORMER_SCORE",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "DEFAULT_LOW_PERFORMER_SCORE",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "DEFAULT_MAX_SCORE",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "DEFAULT_MIN_REVIEWERS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_CRITERIA",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "RELATIONSHIP_COUNT",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "SCORE_SCALE",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "employeeId",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "departmentId",
+        type: "uint256",
+      },
+    ],
+    name: "addEmployee",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "cycleId",
+        type: "uint256",
+      },
+    ],
+    name: "allowOwnAggregate",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "allowRelationshipWeights",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "departmentId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "cycleId",
+        type: "uint256",
+      },
+    ],
+    name: "allowTeamAggregates",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "granted",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "employeeId",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "wallet",
+        type: "address",
+      },
+    ],
+    name: "bindEmployeeWallet",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "employeeId",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "cycleId",
+        type: "uint256",
+      },
+    ],
+    name: "calculateFinalScore",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "cycleId",
+        type: "uint256",
+      },
+    ],
+    name: "closeCycle",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "confidentialProtocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+    ],
+    name: "createCycle",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "cycleId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cycleCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "cycles",
+    outputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "enum ReviewGuardFHE.CycleStatus",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "openedAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "closedAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "maxScore",
+        type: "uint8",
+      },
+      {
+        internalType: "uint8",
+        name: "highPerformerScore",
+        type: "uint8",
+      },
+      {
+        internalType: "uint8",
+        name: "lowPerformerScore",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "minReviewers",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "departmentEmployees",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "departmentManagers",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    name: "employeeExists",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    name: "employees",
+    outputs: [
+      {
+        internalType: "string",
+        name: "employeeId",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "departmentId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "wallet",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "cycleId",
+        type: "uint256",
+      },
+    ],
+    name: "finalizeCycle",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getCriteria",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "",
+        type: "string[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "cycleId",
+        type: "uint256",
+      },
+    ],
+    name: "getCycleCriteria",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "",
+        type: "string[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "departmentId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "cycleId",
+        type: "uint256",
+      },
+    ],
+    name: "getDepartmentAggregate",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "weightedSum",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedReviewCount",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "highPerformerCount",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "lowPerformerCount",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "reviewCount",
+        type: "uint256",
+      },
+      {
+        internalType: "euint64",
+        name: "totalWeight",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "reviewerCount",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "departmentId",
+        type: "uint256",
+      },
+    ],
+    name: "getDepartmentEmployees",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "",
+        type: "string[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "employeeId",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "cycleId",
+        type: "uint256",
+      },
+    ],
+    name: "getEmployee",
+    outputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "totalScore",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "reviewCount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "departmentId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "reviewerCount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "totalWeight",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "employeeId",
+        type: "string",
+      },
+    ],
+    name: "getEmployeeWallet",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "employeeId",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "cycleId",
+        type: "uint256",
+      },
+    ],
+    name: "getEncryptedAggregate",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "weightedSum",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "reviewCount",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint64",
+        name: "totalWeight",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "employeeId",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "cycleId",
+        type: "uint256",
+      },
+    ],
+    name: "getEncryptedCriteriaAggregate",
+    outputs: [
+      {
+        internalType: "euint64[]",
+        name: "weightedSums",
+        type: "bytes32[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "employeeId",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "cycleId",
+        type: "uint256",
+      },
+    ],
+    name: "getEncryptedPerformerCounts",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "highPerformerCount",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "lowPerformerCount",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "employeeId",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "cycleId",
+        type: "uint256",
+      },
+    ],
+    name: "getFinalScore",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "score",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "aggregateVersion",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "calculatedAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "employeeId",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "reviewer",
+        type: "address",
+      },
+    ],
+    name: "getRelationship",
+    outputs: [
+      {
+        internalType: "enum ReviewGuardFHE.Relationship",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum ReviewGuardFHE.Relationship",
+        name: "relationship",
+        type: "uint8",
+      },
+    ],
+    name: "getRelationshipWeight",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "employeeId",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "reviewId",
+        type: "uint256",
+      },
+    ],
+    name: "getReview",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "cycleId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "departmentId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "reviewer",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "employeeId",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "cycleId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "reviewer",
+        type: "address",
+      },
+    ],
+    name: "getReviewIdOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "employeeId",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getReviewIds",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "reviewIds",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256",
+        name: "total",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "employeeId",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "cycleId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "reviewer",
+        type: "address",
+      },
+    ],
+    name: "hasReviewed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "highPerformerScore",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "hrAdmins",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "employeeId",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "cycleId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "isAggregateAllowed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "employeeId",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "cycleId",
+        type: "uint256",
+      },
+    ],
+    name: "isAggregateDecryptable",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "isAvailable",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "departmentId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "cycleId",
+        type: "uint256",
+      },
+    ],
+    name: "isDepartmentAggregateDecryptable",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "employeeId",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "reviewer",
+        type: "address",
+      },
+    ],
+    name: "isEligibleReviewer",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "lastReviewId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "lowPerformerScore",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "maxScore",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "minReviewers",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "cycleId",
+        type: "uint256",
+      },
+    ],
+    name: "openCycle",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "employeeId",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "cycleId",
+        type: "uint256",
+      },
+    ],
+    name: "requestAggregateDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "departmentId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "cycleId",
+        type: "uint256",
+      },
+    ],
+    name: "requestDepartmentDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string[]",
+        name: "newCriteria",
+        type: "string[]",
+      },
+    ],
+    name: "setCriteria",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "departmentId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "granted",
+        type: "bool",
+      },
+    ],
+    name: "setDepartmentManager",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "granted",
+        type: "bool",
+      },
+    ],
+    name: "setHrAdmin",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint8",
+        name: "newMaxScore",
+        type: "uint8",
+      },
+    ],
+    name: "setMaxScore",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newMinReviewers",
+        type: "uint256",
+      },
+    ],
+    name: "setMinReviewers",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint8",
+        name: "newHighPerformerScore",
+        type: "uint8",
+      },
+      {
+        internalType: "uint8",
+        name: "newLowPerformerScore",
+        type: "uint8",
+      },
+    ],
+    name: "setPerformanceThresholds",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint32[]",
+        name: "encryptedWeights",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "setRelationshipWeights",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "employeeId",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "reviewer",
+        type: "address",
+      },
+      {
+        internalType: "enum ReviewGuardFHE.Relationship",
+        name: "relationship",
+        type: "uint8",
+      },
+    ],
+    name: "setReviewerRelationship",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "employeeId",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "cycleId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint8",
+        name: "encryptedScore",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint8[]",
+        name: "encryptedCriteria",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "uint256",
+        name: "departmentId",
+        type: "uint256",
+      },
+    ],
+    name: "submitReview",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "reviewId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "employeeId",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "cycleId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint8",
+        name: "encryptedScore",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint8[]",
+        name: "encryptedCriteria",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "updateReview",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "reviewId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "employeeId",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "cycleId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "abiEncodedClearValues",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "decryptionProof",
+        type: "bytes",
+      },
+    ],
+    name: "verifyAggregate",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "walletEmployees",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60406080815234620003b357620000156200060a565b50600146810362000436576200002a6200060a565b5081516200003881620005ca565b5f81525f60208201525f838201525b60018060a01b0391828251169160018060a01b0319927f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090848254161790556020928486818685015116935f8051602062005a6983398151915294848654161785550151167f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702908282541617905533905f5416175f556003938483556204080a62ffffff196002541617600255335f5260058452855f208360ff1982541617905585518381527fc616d2613ff58b0be387f65e280b1f9646e79b88395d2debc66115c00ec3f9e7853392a284546801000000000000000090818110156200042257808562000158920188556200052c565b6200040f57620001746200016d825462000559565b8262000594565b7f64656c6976657279000000000000000000000000000000000000000000000010905585548181101562000422578085620001b2920188556200052c565b6200040f57620001c76200016d825462000559565b7f636f6c6c61626f726174696f6e0000000000000000000000000000000000001a90558554818110156200042257808562000205920188556200052c565b6200040f576200021a6200016d825462000559565b7f636f6d6d756e69636174696f6e0000000000000000000000000000000000001a90558554908110156200042257808462000258920187556200052c565b6200040f576200026d6200016d825462000559565b60126806f776e6572736869760bc1b0190558082541692865191639cd07acb60e01b9182845286846044815f60049a8d8c8401528b60248401525af1908115620004055787945f92620003c9575b5094620002e5604493925f978852888752808c892055620002dd3082620006ba565b3390620006ba565b5416918851948593849283526002888401528760248401525af1908115620003bf575f9162000385575b50620003779362000336620003579260025f5284865280885f2055620002dd3082620006ba565b620003406200062a565b905f5282845280865f2055620002dd3082620006ba565b620003616200062a565b91815f525280835f2055620002dd3082620006ba565b516153309081620007398239f35b90508281813d8311620003b7575b6200039f8183620005e6565b81010312620003b35751620003776200030f565b5f80fd5b503d62000393565b85513d5f823e3d90fd5b858196929493503d8311620003fd575b620003e58183620005e6565b81010312620003b3579251869391620002e5620002bb565b503d620003d9565b89513d5f823e3d90fd5b634e487b7160e01b5f525f60045260245ffd5b634e487b7160e01b5f52604160045260245ffd5b4662aa36a703620004a9576200044b6200060a565b5081516200045981620005ca565b73f0ffdc93b7e186bc2f8cb3daa75d86d1930a433d81527392c920834ec8941d2c77d188936e1f7a6f49c127602082015273be0e383937d564d7ff0bc3b46c51f0bf8d5c311a8382015262000047565b46617a69036200051b57620004bd6200060a565b508151620004cb81620005ca565b7350157cffd6bbfa2dece204a89ec419c23ef5755d815273e3a9105a3a932253a70f126eb1e3b589c643dd24602082015273be0e383937d564d7ff0bc3b46c51f0bf8d5c311a8382015262000047565b81516373cac13b60e01b8152600490fd5b600354811015620005455760035f5260205f2001905f90565b634e487b7160e01b5f52603260045260245ffd5b90600182811c9216801562000589575b60208310146200057557565b634e487b7160e01b5f52602260045260245ffd5b91607f169162000569565b601f8211620005a1575050565b5f52601f60205f20910160051c8101905b818110620005be575050565b5f8155600101620005b2565b606081019081106001600160401b038211176200042257604052565b601f909101601f19168101906001600160401b038211908210176200042257604052565b604051906200061982620005ca565b5f6040838281528260208201520152565b5f602060018060a01b035f8051602062005a698339815191525416604460405180948193639cd07acb60e01b835260016004840152600460248401525af1908115620006af575f916200067b575090565b90506020813d602011620006a6575b816200069960209383620005e6565b81010312620003b3575190565b3d91506200068a565b6040513d5f823e3d90fd5b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b0392908316803b15620003b3575f92836044926040519687958694635ca4b5b160e11b865260048601521660248401525af18015620006af57620007245750565b6001600160401b038111620004225760405256fe6080806040526004361015610012575f80fd5b5f3560e01c908163032582d2146139bf575080630829d3ff146138635780630aa36716146137b65780630ba7146f1461372d5780630c3c310b146118b55780630e39566b146135ea57806311dd8507146133f257806313389df11461337d5780631e5807bf1461331357806321e20e8b1461326957806326a3cc9b1461317d57806328a063741461310d5780632cb7112c146130d5578063316fda0f146130b85780633425f6a61461301c5780633f6fe20d14612fa45780633f6fff4e14612ef357806347d017f214612dcf5780634e6e94a414612a1857806350b5dd33146128a05780635271a3fd1461274b578063538d70e61461261357806358eb9e941461239e57806359b8642d146122f15780635c43ccaf146122775780635e54d668146121c85780635f2ada501461215057806362d46a6f1461202857806363020d3914611f56578063676b84fe14611ecf5780636b63418c14611eb45780636e2c6d4e14611ddc5780637224c38c14611d68578063856c71dd14611d4d5780638927b03014611d2b5780638aff9020146119575780638da5cb5b146119305780639a1b4b38146119105780639c061d3c146118ed5780639d5c1852146118d0578063a2d46ae61461080d578063a6a3d86b146118b5578063a7b69413146116a8578063a8d0b3cc1461167c578063ac44da5214611661578063afbce3b9146115c2578063b4ed0b9d14611531578063b57edfee14611456578063b64604df146113e9578063b8d14a94146113ce578063bc0a73a614611385578063c1c6a2e5146111ba578063cb2ba58e1461113c578063d0d7ddc114610c34578063d67add2d14610a77578063dacdd9fe146109fb578063e298e4da146109a6578063e7880bca14610828578063e966f8d31461080d578063eb06c5ae146106e5578063ec8305d1146104e7578063ec96cad914610470578063ed017e5e14610433578063ede1e903146103c1578063f78088f61461039e5763fc054d30146102f2575f80fd5b3461039a57602036600319011261039a57600435335f52600560205261031e60ff60405f205416613e16565b8015610355576020817f7d5e951fd6189357b7a72b18e068556ba3f522a7b2aaa8f088fa6cef6c238f0292600155604051908152a1005b60405162461bcd60e51b815260206004820152601a60248201527f5468726573686f6c64206d75737420626520706f7369746976650000000000006044820152606490fd5b5f80fd5b3461039a575f36600319011261039a57602060ff60025460101c16604051908152f35b3461039a57602060046103d336613a64565b9390916103f660ff604051858482378481878101600d8152030190205416613dca565b8260405193849283378101600a815203019020019060018060a01b03165f52602052602060ff60405f2054166040519061042f81613d97565b8152f35b3461039a57602036600319011261039a576001600160a01b03610454613a4e565b165f526005602052602060ff60405f2054166040519015158152f35b3461039a576005602061048236613abc565b94926104a760ff604096939651858482378481878101600d8152030190205416613dca565b8260405193849283378101600a81520301902001905f52602052600e60405f20019060018060a01b03165f52602052602060405f20541515604051908152f35b3461039a576104f536613a06565b91604051918082843761051b60ff84838101600d81526020968791030190205416613dca565b335f526005835260ff60405f20541680156106ab575b61053a90614208565b835f526009835261055f60ff600160405f2001541661055881613d97565b1515614143565b835f5260098352610586600460ff600160405f2001541661057f81613d97565b1415614260565b6005604051828482378481848101600a81520301902001845f52835260405f20906105b66001830154151561434e565b60058201908154906003840154809210156106665783549460648602958087046064149015171561065257600285015494851561063e57836040967f2bdb6287688754d9f30272140aab4bb38af2d98b871c1fb4caf36de16fe848a798049586600484015555600642910155818551928392833781015f8152039020948351928352820152a3005b634e487b7160e01b5f52601260045260245ffd5b634e487b7160e01b5f52601160045260245ffd5b60405162461bcd60e51b815260048101879052601760248201527f53636f726520616c72656164792066696e616c697a65640000000000000000006044820152606490fd5b506002604051828482378481848101600a81520301902001545f526006835260405f20335f52835261053a60ff60405f2054169050610531565b3461039a576106f336613aa6565b90335f5260206005815260ff60405f20541680156107ef575b61071590614208565b825f526009815261073360ff600160405f2001541661055881613d97565b61074461073f846145f6565b614186565b815f52600c815260405f2090835f52526107c9600460405f2061076c6005820154151561434e565b61079161078c6006830154875f526009602052600560405f200154111590565b614391565b61079b81546150ee565b6107a860018201546150ee565b6107b560028201546150ee565b6107c260038201546150ee565b01546150ee565b7fe985f194b55f39e47c09218387e390152ef33997d9625a2474ce6c1beb267b835f80a3005b505f828152600682526040808220338352835290205460ff1661070c565b3461039a575f36600319011261039a57602060405160088152f35b3461039a57606036600319011261039a576001600160401b0360043581811161039a576108599036906004016139d9565b909160243590811161039a576108739036906004016139d9565b9060443590335f526020926005845261089260ff60405f205416613e16565b60ff604051868882378581888101600d81520301902054166109615791600281926108e3600b9695604051898b823787818b8101600a815203019020926108da8a8c8661407c565b6001840161407c565b0155604051848682378281868101600d815203019020600160ff198254161790555f525260405f208054600160401b81101561094d5761092891600182018155613db5565b92909261093a576109389261407c565b005b634e487b7160e01b5f525f60045260245ffd5b634e487b7160e01b5f52604160045260245ffd5b60405162461bcd60e51b815260048101859052601760248201527f456d706c6f79656520616c7265616479206578697374730000000000000000006044820152606490fd5b3461039a576109b436613aa6565b905f52600b60205260405f2090815481101561039a576109d391613db5565b61093a576109e36109f791613b6e565b604051918291602083526020830190613c31565b0390f35b3461039a5760208060031936011261039a576004355f52600b60205260405f208054610a2681613e90565b91610a346040519384613b4d565b81835260208301905f5260205f20935f915b838310610a5b57604051806109f78782613c56565b6001828192610a6989613b6e565b815201960192019194610a46565b3461039a57610a8536613a06565b9160405182828237610aaa60ff82858101600d81526020948591030190205416613dca565b335f526005815260ff60405f2054168015610bfa575b610ac990614208565b835f5260098152600190610aea60ff600160405f2001541661055881613d97565b610af661073f866145f6565b6005604051858582378281878101600a8152030190200190855f525260405f20610b69600a8201610b298154151561434e565b610b4961078c600d850154895f526009602052600560405f200154111590565b610b5660078401546150ee565b610b6360088401546150ee565b546150ee565b610b76600b8201546150ee565b610b83600c8201546150ee565b5f90600901825b610bc9575b50505081604051928392833781015f81520390207fea95dfbe8f874a7246e0258afd03905eec733a4b9ec5142844be7ec344ec009c5f80a3005b8054821015610bf5578282610bee610be2839585613db5565b90549060031b1c6150ee565b0191610b8a565b610b8f565b506002604051848482378281868101600a81520301902001545f526006815260405f20335f528152610ac960ff60405f2054169050610ac0565b3461039a5760c036600319011261039a576001600160401b0360043581811161039a57610c659036906004016139d9565b909160643581811161039a57610c7f903690600401613d1c565b909160843590811161039a57610c9c610cc49136906004016139d9565b90610caa60243587896146e5565b93610cbb83836044356024356147ba565b95602435614ae2565b9160405184868237602081868101600a81520301902060a435600282015403611101576024355f526005810160205260405f2090335f52600e820160205260405f20546110c957610d166007546142c0565b9081600755600681015490600160401b82101561094d5782610d62610d4c8460016007969d9c9d01600686015560068501613db5565b819391549060031b91821b915f19901b19161790565b9055825f520160205260405f2096838855602435600289015584600389015560a435600489015560058801336bffffffffffffffffffffffff60a01b825416179055426006890155610db43085614fe2565b60015f9801975b8651811015610dfc57610dce8188613ec1565b5190895491600160401b83101561094d57610df4610d4c848d600180970190558d613db5565b905501610dbb565b5090859187610e0b8787614bb6565b60078601610e1a828254614ca9565b81556008870196610e358854610e2f8c61504c565b90614ca9565b8855600981019788541561107a575b5f5b8851811015610eac57808a610e8a610d4c8f94610e848e610e2f600198610e7e85610e71818b613db5565b90549060031b1c94613ec1565b51614bb6565b93613db5565b9055610ea6610e99828d613db5565b3091549060031b1c614fe2565b01610e46565b50602097508a610f47610f3f610f3f610feb979695610f3f8f610f3f600d988f92610ed990602435614cd8565b9b819b87600a8f9b9499019687548015611067575b610ef790614f85565b8855610f08600b83019a8b54614dfa565b8a55610f19600c83019c8d54614dfa565b8c55335f52600e820160205260405f205501610f3581546142c0565b9055309054614fe2565b309054614fe2565b60a4355f52600c895260405f206024355f528952610f6a60405f20948554614ca9565b8455610f7f6001850191610e2f83549161504c565b90556002830180548015611054575b610f9790614f85565b9055610fa860038401918254614dfa565b9055610fb960048301918254614dfa565b905560058101610fc981546142c0565b9055335f5260078101865260405f20805460ff811615611033575b5050614e23565b81604051928392833781015f815203902060405182815233917fb79bda62e288847ecbcede2bdad77875808d535c693b5551482f13399b34825b8560243593a4604051908152f35b60ff1916600117905560068101805461104b906142c0565b90558680610fe4565b50610f9761106061516c565b9050610f8e565b50610ef761107361516c565b9050610eee565b98969594939291905f9a989a5b87518110156110b8578b5490600160401b82101561094d576110b0828e60018095018155613db5565b505001611087565b509091929394959698999799610e44565b60405162461bcd60e51b815260206004820152601060248201526f105b1c9958591e481c995d9a595dd95960821b6044820152606490fd5b60405162461bcd60e51b8152602060048201526013602482015272088cae0c2e4e8dacadce840dad2e6dac2e8c6d606b1b6044820152606490fd5b3461039a57602036600319011261039a576004356001600160401b03811161039a57600361117060209236906004016139d9565b61119360ff604094939451838682378681858101600d8152030190205416613dca565b80604051938437820191600a8352838160018060a01b039403019020015416604051908152f35b3461039a5760056111ca36613abc565b92939091604051948181873781860190600d82526111f560ff886020809a8196030190205416613dca565b826040519384928337600a908201908152030190205f92835201835260409081902060078101545f805160206153048339815191525492516382027b6d60e01b80825260048201929092526001600160a01b03858116602483015292949093909216908584604481855afa9485156112fb5786945f96611366575b5085611306575b85611289575b84866040519015158152f35b6008015460405191825260048201526001600160a01b03929092166024830152909250829060449082905afa9081156112fb575f916112ce575b50818380808061127d565b6112ee9150823d84116112f4575b6112e68183613b4d565b810190614e68565b826112c3565b503d6112dc565b6040513d5f823e3d90fd5b600a81015460405183815260048101919091526001600160a01b03851660248201529095509384604481855afa80156112fb5786945f91611349575b5094611277565b6113609150853d87116112f4576112e68183613b4d565b87611342565b61137e919650853d87116112f4576112e68183613b4d565b9487611270565b3461039a57604036600319011261039a5761139e613a38565b6004355f52600660205260405f209060018060a01b03165f52602052602060ff60405f2054166040519015158152f35b3461039a575f36600319011261039a57602060405160038152f35b3461039a575f36600319011261039a57335f526020600560205261141360ff60405f205416613e16565b60015b600481111561142157005b8061142e61145192613d97565b61143781613d97565b805f526004835261144c3360405f2054614fe2565b6142c0565b611416565b3461039a57600561146636613a06565b919290604051938181863781850190600d825261149060ff87602080998196030190205416613dca565b8260405193849283378101600a81520301902001905f528152600960405f2001604051908183825491828152019081925f52845f20905f5b8682821061151d5786866114de82880383613b4d565b60405192839281840190828552518091526040840192915f5b82811061150657505050500390f35b8351855286955093810193928101926001016114f7565b8354855290930192600192830192016114c8565b3461039a576115a561155a602061154736613d5c565b8160405193828580945193849201613c10565b8101600a81520301902061156d81613b6e565b9061157a60018201613b6e565b6115b3600283015492600360018060a01b039101541691604051958695608087526080870190613c31565b908582036020870152613c31565b91604084015260608301520390f35b3461039a57602036600319011261039a576004355f52600960205261162360405f206115ed81613b6e565b9060ff6001820154169060ff60028201549160038101546005600483015492015493604051978897610100808a52890190613c31565b9561162d81613d97565b6020880152604087015260608601528181166080860152818160081c1660a086015260101c1660c084015260e08301520390f35b3461039a575f36600319011261039a57602060405160648152f35b3461039a57602060ff6116928261154736613d5c565b8101600d81520301902054166040519015158152f35b3461039a5760208060031936011261039a576001600160401b0360043581811161039a576116da903690600401613d1c565b9092335f52600581526116f360ff60405f205416613e16565b811515806118aa575b1561186d57600160401b821161094d5760035482600355808310611835575b509192908160035f525f805160206152c4833981519152905f905b8382106117e757505050604051928181850182865252604084019260408360051b8601019581945f925b85841061178f577fbcdb50ddde9ff772695f2d343ac51ec72904d50d881973dd6e632829a9ae505c888a0389a1005b90919293949597603f198882030183528835601e198336030181121561039a57820186810191903585811161039a57803603831361039a576117d6889283926001956145a3565b9a0193019401929195949390611760565b80969593949635601e198836030181121561039a57870180359087821161039a57850190803603821361039a57600192611824879285948861407c565b019301910190919593929495611736565b60035f52825f805160206152c483398151915291820191015b81811061185b575061171b565b80611867600192613ff1565b0161184e565b6064906040519062461bcd60e51b825260048201526016602482015275125b9d985b1a590818dc9a5d195c9a584818dbdd5b9d60521b6044820152fd5b5060088211156116fc565b3461039a575f36600319011261039a57602060405160048152f35b3461039a575f36600319011261039a576020600154604051908152f35b3461039a575f36600319011261039a57602060ff60025460081c16604051908152f35b3461039a575f36600319011261039a57602060ff60025416604051908152f35b3461039a575f36600319011261039a575f546040516001600160a01b039091168152602090f35b3461039a5760a036600319011261039a576001600160401b0360043581811161039a576119889036906004016139d9565b6024929192359060643583811161039a576119a7903690600401613d1c565b94909360843590811161039a576119c56119e79136906004016139d9565b906119d18686866146e5565b976119e083836044358a6147ba565b9787614ae2565b936040519583838837600587858101600a81526020998a910301902001855f52875260405f2090335f52600e8201885260405f2054968715611cf05790604093929351868682378981888101600a815203019020600701885f52895260405f209189888454926003808701948554611a5e91614bb6565b611a68878a614bb6565b9460078b018683825490611a7b91614c7a565b90611a8591614ca9565b80915530611a9291614fe2565b888a8c8954611aa09061504c565b98611aaa8c61504c565b98600883018a8c825490611abd91614c7a565b90611ac791614ca9565b80915530611ad491614fe2565b8454611ae09082614cd8565b969094611aed9083614cd8565b969094600b8101908688835490611b0391614dd1565b90611b0d91614dfa565b8255600c0190888a835490611b2191614dd1565b90611b2b91614dfa565b825554611b39903090614fe2565b54611b45903090614fe2565b600401545f52600c815260405f20915f525260405f2095865490611b6891614c7a565b90611b7291614ca9565b855560019889986001870191825490611b8a91614c7a565b90611b9491614ca9565b90556003850191825490611ba791614dd1565b90611bb191614dfa565b90556004830191825490611bc491614dd1565b90611bce91614dfa565b9055611bd990614e23565b5f9860090160018801935b611c4a575b5050505050611c049450838355556006429101553090614fe2565b81604051928392833781015f815203902090604051918383527f16bc0f794ae72f36fbbe9ca09332d556dae2f97aa60a80f77ed35387cb1996ed853394a4604051908152f35b82518a1015611ceb57848a611c9e611c90611c6a849a9b9c9d9e86613db5565b905490871b1c611c8a611c7d858b613db5565b90548e54918a1b1c614bb6565b90614c7a565b610e2f8c610e7e858a613ec1565b611cab610d4c8386613db5565b9055611cc6611cba8285613db5565b30915490871b1c614fe2565b611cd08186613ec1565b51611cde610d4c8389613db5565b9055019998979695611be4565b611be9565b60405162461bcd60e51b8152600481018a905260136024820152724e6f2072657669657720746f2075706461746560681b6044820152606490fd5b3461039a575f36600319011261039a576020611d456146b6565b604051908152f35b3461039a575f36600319011261039a57602060405160018152f35b3461039a5760206004611d7a36613a64565b939091611d9d60ff604051858482378481878101600d8152030190205416613dca565b8260405193849283378101600a815203019020019060018060a01b03165f52602052602060ff60405f205416611dd281613d97565b6040519015158152f35b3461039a57604036600319011261039a57611df5613d4c565b60243560ff811680820361039a57335f526005602052611e1b60ff60405f205416613e16565b60ff83169081811015611e7a577f7f3d336ce08d80c7268135988d860457e2d37255a2f92a6e7659c75ee1eab14b9360409361ff0062ff00006002549260101b169260081b169062ffff001916171760025582519182526020820152a1005b60405162461bcd60e51b8152602060048201526012602482015271496e76616c6964207468726573686f6c647360701b6044820152606490fd5b3461039a575f36600319011261039a576020604051600a8152f35b3461039a57602036600319011261039a57600435600581101561039a57611ef581613d97565b8015611f1a57611f0481613d97565b5f526004602052602060405f2054604051908152f35b60405162461bcd60e51b81526020600482015260146024820152730496e76616c69642072656c6174696f6e736869760641b6044820152606490fd5b3461039a5760206007611f6836613a06565b939091611f8b60ff604051858482378481878101600d8152030190205416613dca565b826040519384928337600a908201908152030190205f928352016020526040902060058101546001600160a01b03168015611feb578160026080930154916006600483015492015491604051938452602084015260408301526060820152f35b60405162461bcd60e51b815260206004820152601560248201527414995d9a595dc8191bd95cc81b9bdd08195e1a5cdd605a1b6044820152606490fd5b3461039a5760208060031936011261039a576004356001600160401b03811161039a576120599036906004016139d9565b335f526005835261207060ff60405f205416613e16565b7f5a6b7056c336dda1aee7fac9d1cedfaf3358ddfb04b53285740cd5d072497d6e61209c6008546142c0565b92839283600855835f52600986526120b8818360405f2061407c565b835f526009865260405f206120e06006600183019260ff19936001858254161790550161450e565b60ff60025416855f526009885260405f2091600483019180835492831617835561ff006002541690818161ffff1985161717845562ff0000600254169262ffffff191617171790556005600154910155612145604051928392888452888401916145a3565b0390a2604051908152f35b3461039a576020600561216236613a06565b93909161218560ff604051858482378481878101600d8152030190205416613dca565b8260405193849283378101600a81520301902001905f52602052606060405f20600481015490600660058201549101549060405192835260208301526040820152f35b3461039a5761225960206121db36613a06565b9290916121fe60ff604051858482378481878101600d8152030190205416613dca565b8260405193849283378101600a815203019020905f526005810160205260405f2090815490600183015492600282015461224460016002600d8501549401549401613b6e565b9460405196879660c0885260c0880190613c31565b94602087015260408601526060850152608084015260a08301520390f35b3461039a575f36600319011261039a5760035461229381613e90565b6122a06040519182613b4d565b8181526020916020820160035f525f805160206152c4833981519152935f915b8383106122d557604051806109f78782613c56565b60018281926122e389613b6e565b8152019601920191946122c0565b3461039a57602036600319011261039a5760ff61230c613d4c565b335f5260056020526123238260405f205416613e16565b168015612363576020817f58939a2f60d3307b9427831c90ceaf539ae3d48e95240d62214dfe58dbf0073c9260ff196002541617600255604051908152a1005b60405162461bcd60e51b8152602060048201526013602482015272496e76616c69642073636f7265207363616c6560681b6044820152606490fd5b3461039a57604036600319011261039a576001600160401b0360043581811161039a576123cf903690600401613d1c565b60249260243590811161039a576123ea9036906004016139d9565b335f526020926005845261240460ff60405f205416613e16565b600481036125d7575f5b6004811061243d57337fb73c2500aa5347dabe34ae886afcf78858cbfb32cbc0d14e8a6ba90bc6a256805f80a2005b8061244c6124aa9284896143d4565b3586612459368789613cb9565b5f805160206152e48339815191525460405163045fc19560e11b8152600481019490945233848d01526080604485015292946001600160a01b039386929085169183915f9183916084830190613c31565b6004606483015203925af19283156112fb575f936125a8575b505f805160206153048339815191525416803b1561039a57604051630f8e573b60e21b815260048101849052336024820152905f908290604490829084905af180156112fb57612599575b5081159161251c83156143e4565b600182018083116125865760019361256d9261253783613d97565b90612573575b61254690614e80565b9061255081613d97565b5f52600488528060405f20556125663082614fe2565b3390614fe2565b0161240e565b5061254661257f61516c565b905061253d565b89634e487b7160e01b5f5260116004525ffd5b6125a290613b3a565b8861250e565b9092508681813d83116125d0575b6125c08183613b4d565b8101031261039a575191896124c3565b503d6125b6565b60405162461bcd60e51b8152600481018590526014602482015273125b9d985b1a59081dd95a59da1d0818dbdd5b9d60621b6044820152606490fd5b3461039a5760208060031936011261039a57600435805f526009825261264660ff600160405f2001541661055881613d97565b335f52600e825261265960405f20613b6e565b8051156127135761266c61073f836145f6565b60405192600582519482818186019761268681838b613c10565b8101600a8152030190200190835f52526126d360405f206126ac600a820154151561434e565b6126cc61078c600d830154865f526009602052600560405f200154111590565b3390614631565b6126e560405193849251948591613c10565b80339381010390207f77d5470426b4fc6e3180e201da9b7454841ff34b1eff833996cf1544cb706ea85f80a4005b60405162461bcd60e51b815260048101849052601060248201526f15d85b1b195d081b9bdd08189bdd5b9960821b6044820152606490fd5b3461039a57606036600319011261039a576004356001600160401b03811161039a5761277b9036906004016139d9565b612783613a38565b9060443591600583101561039a577f327c7c431ecda9b3515e95dabed92e2809b9e6d3906095c9dc91b043e903d3b49160405191818684376127d860ff84848101600d81526020968791030190205416613dca565b335f526005835260ff60405f2054168015612866575b6127f790614208565b6001600160a01b03169461280c861515613e52565b6004604051838382378481858101600a81520301902001865f52835260405f2061283586613d97565b60ff1981541660ff871617905581604051928392833781015f8152039020926040519061286181613d97565b8152a3005b506002604051838882378481858101600a81520301902001545f526006835260405f20335f5283526127f760ff60405f20541690506127ee565b3461039a576128ae36613aa6565b90335f526005916020926005845260ff60405f20541680156129fa575b6128d490614208565b815f526009845260019182916128f760ff600160405f2001541661055881613d97565b5f9461290561073f846145f6565b5f52600b865260405f20905f945b612922575b8686604051908152f35b81548510156129f5576129358583613db5565b508161294460405180936142ce565b918981600a948581520301902001845f52885260405f20908101541580156129d1575b6129c85761297d85969761144c87933390614631565b966129888185613db5565b5085604051806129998133956142ce565b0390207f77d5470426b4fc6e3180e201da9b7454841ff34b1eff833996cf1544cb706ea85f80a45b0194612913565b508380956129c1565b506129ef600d820154855f526009602052600560405f200154111590565b15612967565b612918565b505f838152600685526040808220338352865290205460ff166128cb565b3461039a5760031960803682011261039a576001600160401b039060043582811161039a57612a4b9036906004016139d9565b9290916024359360443583811161039a57612a6a903690600401613cfe565b9260643581811161039a57612a83903690600401613cfe565b6040519583818837612aa860ff88868101600d815260209a8b91030190205416613dca565b335f526005875260ff60405f2054168015612d95575b612ac790614208565b875f5260098752612ae560ff600160405f2001541661055881613d97565b875f5260098752612b05600460ff600160405f2001541661057f81613d97565b6005604051858382378881878101600a81520301902001885f52875260405f209160405190608082018281108682111761094d576040526003825260609687368b8501376007850154612b5784613eb4565b52600a850154835160011015612d815760408401526008850154835160021015612d81578a91612bed918a8601528a5f8b612bfc60018060a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702541694604051988997889687956378542ead60e01b87526004870152612bdd8d60648801906145c3565b9084878303016024880152613c31565b91848303016044850152613c31565b03925af19081156112fb575f91612d64575b5015612d5257612c507fc6366bab028b8d033cb362cfd1f2f3457ef4e92fc738b6788b90d5a7846367a091612c5d6040519283926040845260408401906145c3565b8281038c8401528a613c31565b0390a1848680518101031261039a57612c778787016142ac565b9360408701519163ffffffff831680930361039a57612cb8877f5663e486d0ea3311599a4de2f1dbbc3145408d09f026c767dd842084b663408899016142ac565b936003810190815480151580612d46575b80612d39575b80612d2a575b15612d04575b50505081604051928392833781015f8152039020968360405195168552840152166040820152a3005b612d2091888a16815586600182015560028989169101556142c0565b90558a8080612cdb565b50600282015488881614612cd5565b5085600183015414612ccf565b508154888a1614612cc9565b60405163cf6c44e960e01b8152600490fd5b612d7b9150893d8b116112f4576112e68183613b4d565b8a612c0e565b634e487b7160e01b5f52603260045260245ffd5b506002604051858382378881878101600a81520301902001545f526006875260405f20335f528752612ac760ff60405f2054169050612abe565b3461039a57604036600319011261039a57612de8613a4e565b6024358015159081810361039a575f546001600160a01b039081169333859003612ec1571692612e19841515613e52565b8314801590612eba575b15612e75577fc616d2613ff58b0be387f65e280b1f9646e79b88395d2debc66115c00ec3f9e791612e6c602092855f526005845260405f209060ff801983541691151516179055565b604051908152a2005b60405162461bcd60e51b815260206004820152601860248201527f4f776e6572206d75737420737461792048522061646d696e00000000000000006044820152606490fd5b5080612e23565b60405162461bcd60e51b815260206004820152600a60248201526927b7363c9037bbb732b960b11b6044820152606490fd5b3461039a57602036600319011261039a57600435335f526005602052612f1f60ff60405f205416613e16565b805f526009602052612f3e60ff600160405f2001541661055881613d97565b805f52600960205260405f206001810160038154612f6a600260ff8316612f6481613d97565b146141c8565b60ff19161790556003429101557f6f59833a98e13be8da95cff20a428093b2db8f7663ea1a581eaecf207a64f7cc602060405160038152a2005b3461039a5760206005612fb636613a06565b939091612fd960ff604051858482378481878101600d8152030190205416613dca565b8260405193849283378101600a81520301902001905f52602052606060405f206007810154906008600a8201549101549060405192835260208301526040820152f35b3461039a5760208060031936011261039a5760043590815f526009815260019161305360ff600160405f2001541661055881613d97565b5f5260098152600660405f200180549061306c82613e90565b9261307a6040519485613b4d565b8284525f9182528082208185015b84841061309d57604051806109f78882613c56565b868381926130aa85613b6e565b815201920193019290613088565b3461039a575f36600319011261039a576020600854604051908152f35b3461039a57602036600319011261039a576001600160a01b036130f6613a4e565b165f52600e6020526109f76109e360405f20613b6e565b3461039a5761311b36613aa6565b905f52600c60205260405f20905f5260205260e060405f20805490600281015490600381015460048201546005830154916006600185015494015494604051968752602087015260408601526060850152608084015260a083015260c0820152f35b3461039a5760208060031936011261039a57600435335f52600582526131a960ff60405f205416613e16565b805f52600982526131c760ff600160405f2001541661055881613d97565b805f526009825260405f20916001830192835493600160ff86166131ea81613d97565b0361322b5760027f6f59833a98e13be8da95cff20a428093b2db8f7663ea1a581eaecf207a64f7cc949560ff191617905560024291015560405160028152a2005b60405162461bcd60e51b815260048101849052601660248201527510de58db194818d85b9b9bdd081899481bdc195b995960521b6044820152606490fd5b3461039a57602036600319011261039a57600435335f52600560205261329560ff60405f205416613e16565b805f5260096020526132b460ff600160405f2001541661055881613d97565b805f526009602052600160405f2001600481546132df600360ff83166132d981613d97565b14614186565b60ff19161790557f6f59833a98e13be8da95cff20a428093b2db8f7663ea1a581eaecf207a64f7cc602060405160048152a2005b3461039a576020600561332536613a06565b93909161334860ff604051858482378481878101600d8152030190205416613dca565b8260405193849283378101600a81520301902001905f526020526040805f20600c600b82015491015482519182526020820152f35b3461039a576005602061338f36613abc565b94926133b460ff604096939651858482378481878101600d8152030190205416613dca565b8260405193849283378101600a81520301902001905f52602052600e60405f20019060018060a01b03165f52602052602060405f2054604051908152f35b3461039a5761340036613aa6565b905f52602090600c825260405f20905f52815260405f20805460018060a01b035f805160206153048339815191525416906040519063c0d0294360e01b9081835260048301528482602481865afa9384156112fb5785925f956135cb575b5084613579575b84613527575b846134d5575b84613483575b82856040519015158152f35b6024919293945060040154916040519485938492835260048301525afa9081156112fb575f916134b8575b5082828180613477565b6134cf9150823d84116112f4576112e68183613b4d565b826134ae565b80945060039192500154906040519181835260048301528482602481865afa80156112fb5785925f9161350a575b5093613471565b6135219150833d85116112f4576112e68183613b4d565b86613503565b80945060029192500154906040519181835260048301528482602481865afa80156112fb5785925f9161355c575b509361346b565b6135739150833d85116112f4576112e68183613b4d565b86613555565b80945060019192500154906040519181835260048301528482602481865afa80156112fb5785925f916135ae575b5093613465565b6135c59150833d85116112f4576112e68183613b4d565b866135a7565b6135e3919550833d85116112f4576112e68183613b4d565b938661345e565b3461039a576135f836613a64565b91335f5260206005815261361260ff60405f205416613e16565b61363260ff604051858582378381878101600d8152030190205416613dca565b6001600160a01b0393841693613649851515613e52565b845f52600e825261365d60405f2054613b02565b6136f15790600e916003604051868682378381888101600a81520301902001908154165f5282825261369160405f20613ff1565b856bffffffffffffffffffffffff60a01b825416179055845f52526136ba828260405f2061407c565b81604051928392833781015f81520390207f460c449c3e843561b19997a93ada66688a0717a69ae0d10726ddd67e99582ec75f80a3005b60405162461bcd60e51b815260048101839052601460248201527315d85b1b195d08185b1c9958591e48189bdd5b9960621b6044820152606490fd5b3461039a57606036600319011261039a576004356001600160401b03811161039a5761376061376e9136906004016139d9565b906044359160243591613ed5565b9060405190604082019060408352805180925260608301916020809201915f5b8281106137a2578580868960208301520390f35b83518552938101939281019260010161378e565b3461039a57606036600319011261039a576004356137d2613a38565b90604435918215159081840361039a577e8ec453d4f83c768176b20c4e80a8864d5b2bd3117fa8a75b5f23cb4fc370a79161385a602092335f526005845261382060ff60405f205416613e16565b6001600160a01b031695613835871515613e52565b855f526006845260405f20875f52845260405f209060ff801983541691151516179055565b604051908152a3005b3461039a57600561387336613a06565b919290604051938181863781850190600d825261389d60ff87602080998196030190205416613dca565b8260405193849283378101600a81520301902001905f52815260405f20600781015460018060a01b035f805160206153048339815191525416906040519063c0d0294360e01b9081835260048301528482602481865afa9384156112fb5785925f956139a0575b508461394e575b8461391c5782856040519015158152f35b600801546040519182526004820152925090829060249082905afa9081156112fb575f916134b8575082828180613477565b809450600a9192500154906040519181835260048301528482602481865afa80156112fb5785925f91613983575b509361390b565b61399a9150833d85116112f4576112e68183613b4d565b8661397c565b6139b8919550833d85116112f4576112e68183613b4d565b9386613904565b3461039a575f36600319011261039a576020906007548152f35b9181601f8401121561039a578235916001600160401b03831161039a576020838186019501011161039a57565b604060031982011261039a57600435906001600160401b03821161039a57613a30916004016139d9565b909160243590565b602435906001600160a01b038216820361039a57565b600435906001600160a01b038216820361039a57565b604060031982011261039a57600435906001600160401b03821161039a57613a8e916004016139d9565b90916024356001600160a01b038116810361039a5790565b604090600319011261039a576004359060243590565b606060031982011261039a57600435906001600160401b03821161039a57613ae6916004016139d9565b9091602435906044356001600160a01b038116810361039a5790565b90600182811c92168015613b30575b6020831014613b1c57565b634e487b7160e01b5f52602260045260245ffd5b91607f1691613b11565b6001600160401b03811161094d57604052565b90601f801991011681019081106001600160401b0382111761094d57604052565b9060405191825f8254613b8081613b02565b908184526020946001916001811690815f14613bee5750600114613bb0575b505050613bae92500383613b4d565b565b5f90815285812095935091905b818310613bd6575050613bae93508201015f8080613b9f565b85548884018501529485019487945091830191613bbd565b92505050613bae94925060ff191682840152151560051b8201015f8080613b9f565b5f5b838110613c215750505f910152565b8181015183820152602001613c12565b90602091613c4a81518092818552858086019101613c10565b601f01601f1916010190565b6020808201906020835283518092526040830192602060408460051b8301019501935f915b848310613c8b5750505050505090565b9091929394958480613ca9600193603f198682030187528a51613c31565b9801930193019194939290613c7b565b9291926001600160401b03821161094d5760405191613ce2601f8201601f191660200184613b4d565b82948184528183011161039a578281602093845f960137010152565b9080601f8301121561039a57816020613d1993359101613cb9565b90565b9181601f8401121561039a578235916001600160401b03831161039a576020808501948460051b01011161039a57565b6004359060ff8216820361039a57565b602060031982011261039a57600435906001600160401b03821161039a578060238301121561039a57816024613d1993600401359101613cb9565b60051115613da157565b634e487b7160e01b5f52602160045260245ffd5b8054821015612d81575f5260205f2001905f90565b15613dd157565b60405162461bcd60e51b815260206004820152601760248201527f456d706c6f79656520646f6573206e6f742065786973740000000000000000006044820152606490fd5b15613e1d57565b60405162461bcd60e51b815260206004820152600d60248201526c27b7363c9024291030b236b4b760991b6044820152606490fd5b15613e5957565b60405162461bcd60e51b815260206004820152600f60248201526e125b9d985b1a59081858d8dbdd5b9d608a1b6044820152606490fd5b6001600160401b03811161094d5760051b60200190565b9190820391821161065257565b805115612d815760200190565b8051821015612d815760209160051b010190565b906020600692959395613efe60ff604051858482378481878101600d8152030190205416613dca565b8260405193849283378101600a815203019020019283549283821015613faf5781019081811161065257838211613fa7575b613f3a8183613ea7565b613f4381613e90565b90613f516040519283613b4d565b808252613f60601f1991613e90565b013660208301378095825b848110613f79575050505050565b80613f8660019284613db5565b90549060031b1c613fa0613f9a8784613ea7565b86613ec1565b5201613f6b565b839150613f30565b5050909150604051602081018181106001600160401b0382111761094d576040525f81525f3681379190565b818110613fe6575050565b5f8155600101613fdb565b613ffb8154613b02565b9081614005575050565b81601f5f9311600114614016575055565b908083918252614035601f60208420940160051c840160018501613fdb565b5555565b9190601f811161404857505050565b613bae925f5260205f20906020601f840160051c83019310614072575b601f0160051c0190613fdb565b9091508190614065565b9092916001600160401b03811161094d576140a18161409b8454613b02565b84614039565b5f601f82116001146140df5781906140d09394955f926140d4575b50508160011b915f199060031b1c19161790565b9055565b013590505f806140bc565b601f19821694835f5260209160205f20925f905b88821061412b57505083600195969710614112575b505050811b019055565b01355f19600384901b60f8161c191690555f8080614108565b806001849682949587013581550195019201906140f3565b1561414a57565b60405162461bcd60e51b815260206004820152601460248201527310de58db1948191bd95cc81b9bdd08195e1a5cdd60621b6044820152606490fd5b1561418d57565b60405162461bcd60e51b815260206004820152601360248201527210de58db19481a5cc81b9bdd0818db1bdcd959606a1b6044820152606490fd5b156141cf57565b60405162461bcd60e51b815260206004820152601160248201527021bcb1b6329034b9903737ba1037b832b760791b6044820152606490fd5b1561420f57565b60405162461bcd60e51b815260206004820152602360248201527f4f6e6c792048522061646d696e206f72206465706172746d656e74206d616e6160448201526233b2b960e91b6064820152608490fd5b1561426757565b60405162461bcd60e51b815260206004820152601760248201527f4379636c6520616c72656164792066696e616c697a65640000000000000000006044820152606490fd5b51906001600160401b038216820361039a57565b5f1981146106525760010190565b5f929181546142dc81613b02565b9260019180831690811561433357506001146142f9575b50505050565b9091929394505f5260209060205f20905f915b858310614322575050505001905f8080806142f3565b80548584015291830191810161430c565b60ff191684525050508115159091020191505f8080806142f3565b1561435557565b60405162461bcd60e51b81526020600482015260146024820152734e6f207265766965777320617661696c61626c6560601b6044820152606490fd5b1561439857565b60405162461bcd60e51b81526020600482015260146024820152734e6f7420656e6f7567682072657669657765727360601b6044820152606490fd5b9190811015612d815760051b0190565b156143eb57565b60405162461bcd60e51b815260206004820152601760248201527f496e76616c696420656e6372797074656420696e7075740000000000000000006044820152606490fd5b9080821461450a576144428154613b02565b906001600160401b03821161094d576144658261445f8554613b02565b85614039565b5f90601f831160011461449d576140d092915f91836144925750508160011b915f199060031b1c19161790565b015490505f806140bc565b90601f198316915f5260209160205f2090855f5260205f20935f905b8282106144f15750509084600195949392106144d957505050811b019055565b01545f1960f88460031b161c191690555f8080614108565b84958192958501548155600180910196019401906144b9565b5050565b600381146145a05760035490600160401b821161094d578054828255808310614573575b505f90815260208120905f805160206152c48339815191525b8382106145585750505050565b8061456560019285614430565b92810192918101910161454b565b815f528260205f2091820191015b81811061458e5750614532565b8061459a600192613ff1565b01614581565b50565b908060209392818452848401375f828201840152601f01601f1916010190565b9081518082526020808093019301915f5b8281106145e2575050505090565b8351855293810193928101926001016145d4565b5f52600960205260ff600160405f2001541661461181613d97565b60038114908115614620575090565b6004915061462d81613d97565b1490565b9091614641836007840154614fe2565b61464f836008840154614fe2565b61465d83600a840154614fe2565b61466b83600b840154614fe2565b61467983600c840154614fe2565b5f5b6009830180548210156146af57816146a78661469b600995600195613db5565b90549060031b1c614fe2565b01905061467b565b5050915050565b466001036146c357600190565b4662aa36a7036146d35761271190565b617a6946146146e0575f90565b5f1990565b909160046040938451938181863781850190600d825261471260ff87602080998196030190205416613dca565b82875193849283378101600a81520301902001335f52825260ff835f2054169061473b82613d97565b81156147765790600492915f5260098252614764600260ff6001875f20015416612f6481613d97565b61476d81613d97565b5f52525f205490565b835162461bcd60e51b815260048101849052601860248201527f4e6f7420616e20656c696769626c6520726576696577657200000000000000006044820152606490fd5b92614817926147ca913691613cb9565b60018060a01b03935f805160206152e483398151915292858454169560409687518097819663045fc19560e11b835260049586840152336024840152608060448401526084830190613c31565b9160026064830152815f602098899503925af1958615614ad8575f96614aa9575b50805f805160206153048339815191525416803b1561039a578751630f8e573b60e21b815283810188815233602082015290915f9183919082908490829060400103925af18015614a9f57614a90575b5085159261489684156143e4565b5f526009845260ff82885f200154169485848890614a79575b5f916148ba91615264565b94868484541660448c5180958193639cd07acb60e01b9d8e84528b840152600260248401525af1918215614a40575f92614a4a575b508682999887156149db575b50506149bc575b96606493925f92879899156149ac575b54169089519889968795637702dcff60e01b8752860152602485015260448401525af19283156149a357505f92614975575b5050801561495e575b614959613d1991614e80565b61509f565b50613d1961495961496d6151be565b91505061494d565b90809250813d831161499c575b61498c8183613b4d565b8101031261039a57515f80614944565b503d614982565b513d5f823e3d90fd5b91506149b66151be565b91614912565b96859650606493925f926149ce6151be565b9850925092935096614902565b5f929750604486865416918d5194859384928352818b8401528160248401525af1908115614a40575f91614a13575b5094865f6148fb565b90508681813d8311614a39575b614a2a8183613b4d565b8101031261039a57515f614a0a565b503d614a20565b8a513d5f823e3d90fd5b9091508681813d8311614a72575b614a628183613b4d565b8101031261039a5751905f6148ef565b503d614a58565b506148ba5f91614a876151be565b915091506148af565b614a9990613b3a565b5f614888565b88513d5f823e3d90fd5b9095508381813d8311614ad1575b614ac18183613b4d565b8101031261039a5751945f614838565b503d614ab7565b87513d5f823e3d90fd5b9194939092825f526009602052600660405f2001548603614b7d57614b0686613e90565b92614b146040519485613b4d565b868452601f19614b2388613e90565b0136602086013783965f5b818110614b3e5750505050505050565b80614b588686614b51600195878d6143d4565b35876147ba565b614b628289613ec1565b52614b7730614b71838a613ec1565b51614fe2565b01614b2e565b60405162461bcd60e51b8152602060048201526011602482015270086e4d2e8cae4d2c240dad2e6dac2e8c6d607b1b6044820152606490fd5b614bc2614bc89161504c565b9161504c565b8115614c6a575b8015614c58575b602090606460018060a01b035f805160206152e48339815191525416935f6040519586948593630afe14ad60e31b8552600485015260248401528160448401525af19081156112fb575f91614c29575090565b90506020813d602011614c50575b81614c4460209383613b4d565b8101031261039a575190565b3d9150614c37565b506020614c63615211565b9050614bd6565b9050614c74615211565b90614bcf565b90613d19918015614c9b575b81614edd579050614c95615211565b90614edd565b50614ca4615211565b614c86565b90613d19918015614cca575b81614f31579050614cc4615211565b90614f31565b50614cd3615211565b614cb5565b9190915f526009602052600460405f20019160ff835460081c16908081159283614dbd575b5f805160206152e483398151915254604051631391547f60e01b815260048101939093526024830191909152600160f81b6044830152602090829060649082905f906001600160a01b03165af19081156112fb575f91614d87575b5090613d199260ff614d6c6149599461509f565b965460101c169190156152645750614d8261516c565b615264565b9190506020823d602011614db5575b81614da360209383613b4d565b8101031261039a579051613d19614d58565b3d9150614d96565b90506020614dc961516c565b919050614cfd565b90613d19918015614dec575b81614edd579050614c9561516c565b50614df561516c565b614ddd565b90613d19918015614e15575b81614f31579050614cc461516c565b50614e1e61516c565b614e06565b613bae90614e3381543090614fe2565b614e41306001830154614fe2565b614e4f306002830154614fe2565b614e5d306003830154614fe2565b600430910154614fe2565b9081602091031261039a5751801515810361039a5790565b5f805160206152e483398151915254604051630d8c635960e21b8152600481019290925260016024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af19081156112fb575f91614c29575090565b90602090606460018060a01b035f805160206152e48339815191525416935f60405195869485936303056db360e31b8552600485015260248401528160448401525af19081156112fb575f91614c29575090565b90602090606460018060a01b035f805160206152e48339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af19081156112fb575f91614c29575090565b5f805160206152e48339815191525460405163022f65e760e31b8152600481019290925260016024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af19081156112fb575f91614c29575090565b5f80516020615304833981519152546001600160a01b031691823b1561039a57604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290818381604481015b03925af180156112fb576150435750565b613bae90613b3a565b5f805160206152e4833981519152546040516307227b9160e21b8152600481019290925260056024830152602090829060449082905f906001600160a01b03165af19081156112fb575f91614c29575090565b60205f91604460018060a01b035f805160206152e483398151915254169160405194859384926307227b9160e21b84526004840152600460248401525af19081156112fb575f91614c29575090565b60405190604082018281106001600160401b0382111761094d57604052600182526020368184013761511f82613eb4565b525f80516020615304833981519152546001600160a01b0316803b1561039a57604051637d6e912360e11b815260206004820152915f9183918290849082906150329060248301906145c3565b5f805160206152e483398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af19081156112fb575f91614c29575090565b5f805160206152e483398151915254604051639cd07acb60e01b81525f60048201819052600260248301529091602091839160449183916001600160a01b03165af19081156112fb575f91614c29575090565b5f805160206152e483398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af19081156112fb575f91614c29575090565b5f805160206152e483398151915254604051631d44e90160e21b815260048101929092526024820192909252600160f81b604482015290602090829060649082905f906001600160a01b03165af19081156112fb575f91614c2957509056fec2575a0e9e593c00f959f8c92f12db2869c3395a3b0502d05e2516446f71f85b9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700a164736f6c6343000818000a9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701";
+
+type ReviewGuardFHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: ReviewGuardFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class ReviewGuardFHE__factory extends ContractFactory {
+  constructor(...args: ReviewGuardFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      ReviewGuardFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): ReviewGuardFHE__factory {
+    return super.connect(runner) as ReviewGuardFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): ReviewGuardFHEInterface {
+    return new Interface(_abi) as ReviewGuardFHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): ReviewGuardFHE {
+    return new Contract(address, _abi, runner) as unknown as ReviewGuardFHE;
+  }
+}
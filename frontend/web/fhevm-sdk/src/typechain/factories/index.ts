@@ -0,0 +1,4 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { ReviewGuardFHE__factory } from "./ReviewGuardFHE__factory.js";
@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { ReviewGuardFHE } from "./ReviewGuardFHE.js";
+export * as factories from "./factories/index.js";
+export { ReviewGuardFHE__factory } from "./factories/ReviewGuardFHE__factory.js";
@@ -0,0 +1,233 @@
+import 'fake-indexeddb/auto';
+import { ethers } from 'ethers';
+import { afterEach, beforeEach, describe, expect, it, vi, type MockInstance } from 'vitest';
+import {
+  DecryptionSession,
+  IndexedDbSessionStore,
+  MAX_SESSION_CONTRACTS,
+  MemorySessionStore,
+  type StoredSession,
+} from '../src/core/decryptionSession.js';
+import { SessionExpiredError } from '../src/core/errors.js';
+import { contractOf, fakeFhe } from './fakes.js';
+
+const CONTRACT_A = ethers.getAddress('0x' + '0a'.repeat(20));
+const CONTRACT_B = ethers.getAddress('0x' + '0b'.repeat(20));
+
+describe('DecryptionSession', () => {
+  let fhe: ReturnType<typeof fakeFhe>;
+  let signer: ethers.HDNodeWallet;
+  let store: MemorySessionStore;
+  let sign: MockInstance<ethers.HDNodeWallet['signTypedData']>;
+
+  beforeEach(() => {
+    fhe = fakeFhe();
+    signer = ethers.Wallet.createRandom();
+    store = new MemorySessionStore();
+    sign = vi.spyOn(signer, 'signTypedData');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reuses one signature for every contract it covers', async () => {
+    const first = await DecryptionSession.open(fhe, signer, [CONTRACT_A], { store });
+    const second = await DecryptionSession.open(fhe, signer, [CONTRACT_A.toLowerCase()], { store });
+
+    expect(sign).toHaveBeenCalledTimes(1);
+    expect(second.expiresAt).toBe(first.expiresAt);
+    expect(second.contractAddresses).toEqual([CONTRACT_A]);
+  });
+
+  it('resumes a stored session without asking the wallet', async () => {
+    const first = await DecryptionSession.open(fhe, signer, [CONTRACT_A], { store });
+    const stored = (await store.load(`unknown:${signer.address.toLowerCase()}`)) as StoredSession;
+    const reloaded = new MemorySessionStore();
+    await reloaded.save(`unknown:${signer.address.toLowerCase()}`, stored);
+
+    const resumed = await DecryptionSession.open(fhe, signer, [CONTRACT_A], { store: reloaded });
+
+    expect(sign).toHaveBeenCalledTimes(1);
+    expect(resumed.expiresAt).toBe(first.expiresAt);
+  });
+
+  it('signs once for parallel opens of the same user', async () => {
+    const [first, second] = await Promise.all([
+      DecryptionSession.open(fhe, signer, [CONTRACT_A], { store }),
+      DecryptionSession.open(fhe, signer, [CONTRACT_A], { store }),
+    ]);
+
+    expect(sign).toHaveBeenCalledTimes(1);
+    expect(second.expiresAt).toBe(first.expiresAt);
+  });
+
+  it('lets a queued open sign when the one before it was rejected', async () => {
+    sign.mockRejectedValueOnce(Object.assign(new Error('user rejected action'), { code: 'ACTION_REJECTED' }));
+
+    const [first, second] = await Promise.allSettled([
+      DecryptionSession.open(fhe, signer, [CONTRACT_A], { store }),
+      DecryptionSession.open(fhe, signer, [CONTRACT_A], { store }),
+    ]);
+
+    expect(first.status).toBe('rejected');
+    expect(second.status).toBe('fulfilled');
+    expect(sign).toHaveBeenCalledTimes(2);
+  });
+
+  it('signs again for a new contract and keeps covering the old ones', async () => {
+    await DecryptionSession.open(fhe, signer, [CONTRACT_A], { store });
+    const session = await DecryptionSession.open(fhe, signer, [CONTRACT_B], { store });
+
+    expect(sign).toHaveBeenCalledTimes(2);
+    expect(session.covers([CONTRACT_A, CONTRACT_B])).toBe(true);
+  });
+
+  it('only adds extra contracts while the session has room', async () => {
+    const requested = Array.from({ length: MAX_SESSION_CONTRACTS - 1 }, (_, i) => contractOf(i));
+    const extra = [contractOf(100), contractOf(101)];
+    const session = await DecryptionSession.open(fhe, signer, requested, { store, contractAddresses: extra });
+
+    expect(session.contractAddresses).toEqual([...requested, extra[0]]);
+    await expect(
+      DecryptionSession.open(fhe, signer, [...requested, ...extra], { store })
+    ).rejects.toThrow('split the request by contract');
+  });
+
+  it('signs a new session once the old one expired', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+    const expired = await DecryptionSession.open(fhe, signer, [CONTRACT_A], { store, durationDays: 1 });
+
+    vi.setSystemTime(new Date('2025-01-02T00:00:00Z'));
+    expect(expired.isExpired()).toBe(true);
+    await expect(expired.userDecrypt([{ handle: '0x01', contractAddress: CONTRACT_A }])).rejects.toBeInstanceOf(
+      SessionExpiredError
+    );
+
+    const renewed = await DecryptionSession.open(fhe, signer, [CONTRACT_A], { store, durationDays: 1 });
+    expect(sign).toHaveBeenCalledTimes(2);
+    expect(renewed.isExpired()).toBe(false);
+  });
+
+  it('treats a session within a minute of expiry as expired', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+    const session = await DecryptionSession.open(fhe, signer, [CONTRACT_A], { store, durationDays: 1 });
+
+    expect(session.isExpired(session.expiresAt - 61)).toBe(false);
+    expect(session.isExpired(session.expiresAt - 60)).toBe(true);
+  });
+
+  it('forgets every session on clear()', async () => {
+    await DecryptionSession.open(fhe, signer, [CONTRACT_A], { store });
+    await DecryptionSession.clear(store);
+
+    expect(await store.load(`unknown:${signer.address.toLowerCase()}`)).toBeNull();
+    await DecryptionSession.open(fhe, signer, [CONTRACT_A], { store });
+    expect(sign).toHaveBeenCalledTimes(2);
+  });
+
+  it('decrypts with the session keypair and signature', async () => {
+    const session = await DecryptionSession.open(fhe, signer, [CONTRACT_A], { store });
+    const pairs = [{ handle: '0x01', contractAddress: CONTRACT_A }];
+
+    expect(await session.userDecrypt(pairs)).toEqual({ '0x01': 7n });
+    const [, privateKey, publicKey, signature, contracts, user] = fhe.userDecrypt.mock.calls[0] as unknown as unknown[];
+    const keypair = fhe.generateKeypair.mock.results[0].value;
+    expect([privateKey, publicKey]).toEqual([keypair.privateKey, keypair.publicKey]);
+    expect(signature).not.toMatch(/^0x/);
+    expect(contracts).toEqual([CONTRACT_A]);
+    expect(user).toBe(signer.address);
+  });
+
+  it('refuses contracts the session does not cover', async () => {
+    const session = await DecryptionSession.open(fhe, signer, [CONTRACT_A], { store });
+
+    await expect(session.userDecrypt([{ handle: '0x01', contractAddress: CONTRACT_B }])).rejects.toThrow(
+      'does not cover'
+    );
+  });
+});
+
+describe('IndexedDbSessionStore', () => {
+  let dbName: string;
+  let session: StoredSession;
+
+  beforeEach(() => {
+    dbName = `sessions-${Math.random()}`;
+    session = {
+      userAddress: CONTRACT_A,
+      chainId: '31337',
+      contractAddresses: [CONTRACT_B],
+      startTimestamp: 1_700_000_000,
+      durationDays: 1,
+      publicKey: '0xpublic',
+      privateKey: '0xprivate',
+      signature: '0xsignature',
+    };
+  });
+
+  it('round-trips a session without writing the private key in clear', async () => {
+    const store = new IndexedDbSessionStore(dbName);
+    await store.save('key', session);
+
+    expect(await store.load('key')).toEqual(session);
+    const raw = await new Promise<unknown>((resolve) => {
+      const request = indexedDB.open(dbName);
+      request.onsuccess = () => {
+        const get = request.result.transaction('sessions').objectStore('sessions').get('key');
+        get.onsuccess = () => resolve(get.result);
+      };
+    });
+    expect(JSON.stringify(raw)).not.toContain('0xprivate');
+  });
+
+  it('creates a single wrapping key for concurrent saves', async () => {
+    const store = new IndexedDbSessionStore(dbName);
+    await Promise.all([store.save('first', session), store.save('second', { ...session, chainId: '1' })]);
+
+    expect(await store.load('first')).toEqual(session);
+    expect(await store.load('second')).toEqual({ ...session, chainId: '1' });
+  });
+
+  it('keeps the first wrapping key when two stores race on the same database', async () => {
+    // Hold key generation until both stores found no key, so both try to create one
+    const generateKey = crypto.subtle.generateKey.bind(crypto.subtle) as (...args: unknown[]) => Promise<CryptoKey>;
+    let release: () => void = () => {};
+    const bothMissed = new Promise<void>((resolve) => (release = resolve));
+    const spy = vi.spyOn(crypto.subtle, 'generateKey').mockImplementation((async (...args: unknown[]) => {
+      if (spy.mock.calls.length === 2) {
+        release();
+      }
+      await bothMissed;
+      return generateKey(...args);
+    }) as typeof crypto.subtle.generateKey);
+
+    const left = new IndexedDbSessionStore(dbName);
+    const right = new IndexedDbSessionStore(dbName);
+    await Promise.all([left.save('left', session), right.save('right', { ...session, chainId: '1' })]);
+    expect(spy).toHaveBeenCalledTimes(2);
+    spy.mockRestore();
+
+    const reader = new IndexedDbSessionStore(dbName);
+    expect(await reader.load('left')).toEqual(session);
+    expect(await reader.load('right')).toEqual({ ...session, chainId: '1' });
+  });
+
+  it('drops a record it can no longer decrypt', async () => {
+    const store = new IndexedDbSessionStore(dbName);
+    await store.save('key', session);
+    await new Promise<void>((resolve) => {
+      const request = indexedDB.open(dbName);
+      request.onsuccess = () => {
+        const transaction = request.result.transaction('keys', 'readwrite');
+        transaction.objectStore('keys').clear();
+        transaction.oncomplete = () => resolve();
+      };
+    });
+
+    expect(await new IndexedDbSessionStore(dbName).load('key')).toBeNull();
+    expect(await store.load('key')).toBeNull();
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import {
+  AclDeniedError,
+  AnonymityThresholdError,
+  FhevmError,
+  InvalidHandleError,
+  ProofVerificationError,
+  RelayerUnavailableError,
+  SessionExpiredError,
+  SignatureRejectedError,
+  toFhevmError,
+} from '../src/core/errors.js';
+
+const HANDLE = '0x' + '11'.repeat(30) + '0400';
+const USER = '0x' + '0a'.repeat(20);
+
+/** An error as the relayer SDK throws it for a failed HTTP call */
+function relayerFailure(code: string, status?: number) {
+  return Object.assign(new Error('Relayer request failed'), { cause: { code, status } });
+}
+
+describe('toFhevmError', () => {
+  it.each([
+    ['Failed to fetch', RelayerUnavailableError],
+    ['connect ECONNREFUSED 127.0.0.1:8545', RelayerUnavailableError],
+    [`User ${USER} is not authorized to user decrypt handle ${HANDLE}!`, AclDeniedError],
+    [`Handle ${HANDLE} is not allowed for public decryption!`, AclDeniedError],
+    ['User decrypt request has expired', SessionExpiredError],
+    [`Incorrect Handle 0: (expected ${HANDLE}, got 0x00)`, ProofVerificationError],
+    ['Invalid EIP-712 signature!', SignatureRejectedError],
+    [`Handle ${HANDLE} is not of valid length`, InvalidHandleError],
+    [`Handle ${HANDLE} is not of valid type`, InvalidHandleError],
+    ['Unsupported handle type 9', InvalidHandleError],
+    [`Handle ${HANDLE} is unknown to the mock backend`, InvalidHandleError],
+    ['execution reverted: "Not enough reviewers"', AnonymityThresholdError],
+  ] as const)('classifies "%s"', (message, ErrorClass) => {
+    const error = new Error(message);
+    const classified = toFhevmError(error);
+
+    expect(classified).toBeInstanceOf(ErrorClass);
+    expect(classified.message).toBe(message);
+    expect(classified.cause).toBe(error);
+  });
+
+  it.each([
+    'Deadline expired for the transaction',
+    'The cookie has expired',
+    'Could not find a handler for eth_sendTransaction',
+    'Missing handle argument',
+    'Handle is not initialized',
+  ])('leaves "%s" unclassified', (message) => {
+    const classified = toFhevmError(new Error(message));
+
+    expect(classified.constructor).toBe(FhevmError);
+    expect(classified.code).toBe('UNKNOWN');
+    expect(classified.retryable).toBe(false);
+  });
+
+  it.each([{ code: 'ACTION_REJECTED' }, { code: 4001 }, { info: { error: { code: 4001 } } }])(
+    'treats wallet rejection %o as a rejected signature',
+    (rejection) => {
+      const classified = toFhevmError(Object.assign(new Error('user rejected action'), rejection));
+
+      expect(classified).toBeInstanceOf(SignatureRejectedError);
+      expect(classified.retryable).toBe(true);
+    }
+  );
+
+  it('retries relayer failures, waiting longer when rate limited', () => {
+    expect(toFhevmError(relayerFailure('RELAYER_FETCH_ERROR'))).toMatchObject({ code: 'RELAYER_UNAVAILABLE', retryAfterMs: 2_000 });
+    expect(toFhevmError(relayerFailure('RELAYER_INTERNAL_ERROR', 503))).toMatchObject({ retryable: true, retryAfterMs: 2_000 });
+    expect(toFhevmError(relayerFailure('RELAYER_UNKNOWN_ERROR', 429))).toMatchObject({ retryable: true, retryAfterMs: 10_000 });
+  });
+
+  it('does not retry relayer rejections of the request itself', () => {
+    expect(toFhevmError(relayerFailure('RELAYER_UNEXPECTED_JSON_ERROR', 400)).retryable).toBe(false);
+  });
+
+  it('returns FhevmErrors unchanged', () => {
+    const error = new SessionExpiredError('Decryption session expired');
+
+    expect(toFhevmError(error)).toBe(error);
+  });
+
+  it('falls back to the given message for values that are not errors', () => {
+    const classified = toFhevmError('boom', 'Decryption failed');
+
+    expect(classified).toBeInstanceOf(FhevmError);
+    expect(classified.message).toBe('Decryption failed');
+    expect(classified.cause).toBe('boom');
+  });
+});
@@ -0,0 +1,41 @@
+import { ethers } from 'ethers';
+import { vi } from 'vitest';
+
+/**
+ * Stands in for the relayer SDK instance, only the calls decryption makes
+ */
+export function fakeFhe() {
+  return {
+    generateKeypair: vi.fn(() => ({
+      publicKey: ethers.hexlify(ethers.randomBytes(32)),
+      privateKey: ethers.hexlify(ethers.randomBytes(32)),
+    })),
+    createEIP712: vi.fn((publicKey: string, contractAddresses: string[], startTimestamp: string, durationDays: string) => ({
+      domain: { name: 'Decryption', version: '1', chainId: 1, verifyingContract: ethers.ZeroAddress },
+      types: {
+        UserDecryptRequestVerification: [
+          { name: 'publicKey', type: 'bytes' },
+          { name: 'contractAddresses', type: 'address[]' },
+          { name: 'startTimestamp', type: 'uint256' },
+          { name: 'durationDays', type: 'uint256' },
+        ],
+      },
+      message: { publicKey, contractAddresses, startTimestamp, durationDays },
+    })),
+    userDecrypt: vi.fn(
+      async (pairs: { handle: string }[]): Promise<Record<string, bigint | boolean | string>> =>
+        Object.fromEntries(pairs.map((pair) => [pair.handle, 7n]))
+    ),
+  };
+}
+
+/**
+ * A well-formed handle of the given type byte, distinct per index
+ */
+export function handleOf(index: number, typeByte: number): string {
+  return '0x' + index.toString(16).padStart(60, '0') + typeByte.toString(16).padStart(2, '0') + '00';
+}
+
+export function contractOf(index: number): string {
+  return ethers.getAddress('0x' + (index + 1).toString(16).padStart(40, '0'));
+}
@@ -0,0 +1,242 @@
+import { ethers } from 'ethers';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { MAX_SESSION_CONTRACTS, MemorySessionStore } from '../src/core/decryptionSession.js';
+import {
+  FhevmClient,
+  MAX_DECRYPTION_BITS,
+  chunkByContracts,
+  chunkByEncryptedBits,
+  encryptedBitsOf,
+  fheTypeOf,
+  toClearValue,
+  type FheType,
+  type FhevmBackend,
+} from '../src/core/fhevm.js';
+import { InvalidHandleError } from '../src/core/errors.js';
+import { contractOf, fakeFhe, handleOf } from './fakes.js';
+
+const EUINT32 = 4;
+const EUINT256 = 8;
+
+/**
+ * A backend handing out the given instance, so clients run without a relayer
+ */
+function backendOf(instance: unknown): FhevmBackend {
+  return {
+    name: 'fake',
+    async createInstance() {
+      return { instance, signer: null };
+    },
+  };
+}
+
+// Type byte, FHE type and encrypted bits of every handle type the coprocessor emits
+const HANDLE_TYPES: [number, FheType, number][] = [
+  [0, 'ebool', 2],
+  [2, 'euint8', 8],
+  [3, 'euint16', 16],
+  [4, 'euint32', 32],
+  [5, 'euint64', 64],
+  [6, 'euint128', 128],
+  [7, 'eaddress', 160],
+  [8, 'euint256', 256],
+];
+
+describe('fheTypeOf', () => {
+  it.each(HANDLE_TYPES)('reads type byte %i as %s of %i bits', (typeByte, type, bits) => {
+    expect(fheTypeOf(handleOf(1, typeByte))).toBe(type);
+    expect(encryptedBitsOf(handleOf(1, typeByte))).toBe(bits);
+  });
+
+  it('rejects unknown type bytes and malformed handles', () => {
+    expect(() => fheTypeOf(handleOf(1, 1))).toThrow(InvalidHandleError);
+    expect(() => fheTypeOf(handleOf(1, 9))).toThrow(InvalidHandleError);
+    expect(() => fheTypeOf('0x1234')).toThrow(InvalidHandleError);
+  });
+});
+
+describe('toClearValue', () => {
+  it.each([true, 1, 1n, '1', 'true'])('decodes %s as a true ebool', (value) => {
+    expect(toClearValue(value, 'ebool')).toBe(true);
+  });
+
+  it.each([false, 0, 0n, '0', 'false'])('decodes %s as a false ebool', (value) => {
+    expect(toClearValue(value, 'ebool')).toBe(false);
+  });
+
+  it.each(['euint8', 'euint16', 'euint32', 'euint64', 'euint128', 'euint256'] as const)(
+    'keeps %s values as bigint',
+    (type) => {
+      expect(toClearValue(42, type)).toBe(42n);
+      expect(toClearValue('42', type)).toBe(42n);
+    }
+  );
+
+  it('does not round values past Number.MAX_SAFE_INTEGER', () => {
+    const max64 = 2n ** 64n - 1n;
+    const max256 = 2n ** 256n - 1n;
+
+    expect(toClearValue(max64, 'euint64')).toBe(max64);
+    expect(toClearValue(max64.toString(), 'euint64')).toBe(max64);
+    expect(toClearValue(max256, 'euint256')).toBe(max256);
+  });
+
+  it('checksums eaddress values given as a string or a number', () => {
+    const address = contractOf(41);
+
+    expect(toClearValue(address.toLowerCase(), 'eaddress')).toBe(address);
+    expect(toClearValue(BigInt(address), 'eaddress')).toBe(address);
+  });
+});
+
+describe('chunkByEncryptedBits', () => {
+  it('fills a request up to the bit limit exactly', () => {
+    const pairs = Array.from({ length: MAX_DECRYPTION_BITS / 256 }, (_, i) => ({ handle: handleOf(i, EUINT256) }));
+
+    expect(chunkByEncryptedBits(pairs)).toEqual([pairs]);
+  });
+
+  it('starts a new request one handle past the limit, keeping the order', () => {
+    const pairs = Array.from({ length: MAX_DECRYPTION_BITS / 256 + 1 }, (_, i) => ({ handle: handleOf(i, EUINT256) }));
+
+    expect(chunkByEncryptedBits(pairs)).toEqual([pairs.slice(0, -1), pairs.slice(-1)]);
+  });
+
+  it('sends a handle wider than the limit on its own', () => {
+    const pairs = [{ handle: handleOf(0, EUINT32) }, { handle: handleOf(1, EUINT256) }];
+
+    expect(chunkByEncryptedBits(pairs, 100)).toEqual([[pairs[0]], [pairs[1]]]);
+  });
+
+  it('returns no requests for no handles', () => {
+    expect(chunkByEncryptedBits([])).toEqual([]);
+  });
+});
+
+describe('chunkByContracts', () => {
+  it('groups at most MAX_SESSION_CONTRACTS contracts together', () => {
+    const pairs = Array.from({ length: MAX_SESSION_CONTRACTS + 2 }, (_, i) => ({
+      handle: handleOf(i, EUINT32),
+      contractAddress: contractOf(i),
+    }));
+
+    expect(chunkByContracts(pairs)).toEqual([pairs.slice(0, MAX_SESSION_CONTRACTS), pairs.slice(MAX_SESSION_CONTRACTS)]);
+  });
+
+  it('keeps the handles of one contract in the same group', () => {
+    const pairs = [
+      { handle: handleOf(0, EUINT32), contractAddress: contractOf(0) },
+      { handle: handleOf(1, EUINT32), contractAddress: contractOf(1) },
+      { handle: handleOf(2, EUINT32), contractAddress: contractOf(0).toLowerCase() },
+    ];
+
+    expect(chunkByContracts(pairs, 1)).toEqual([[pairs[0], pairs[2]], [pairs[1]]]);
+  });
+});
+
+describe('FhevmClient.userDecryptHandles', () => {
+  let fhe: ReturnType<typeof fakeFhe>;
+  let client: FhevmClient;
+  let signer: ethers.HDNodeWallet;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    fhe = fakeFhe();
+    signer = ethers.Wallet.createRandom();
+    client = new FhevmClient({ backend: backendOf(fhe), sessionStore: new MemorySessionStore() });
+    await client.initialize();
+  });
+
+  it('signs once per group of contracts and merges the results', async () => {
+    const sign = vi.spyOn(signer, 'signTypedData');
+    const pairs = Array.from({ length: MAX_SESSION_CONTRACTS + 2 }, (_, i) => ({
+      handle: handleOf(i, EUINT32),
+      contractAddress: contractOf(i),
+    }));
+
+    const decrypted = await client.userDecryptHandles(pairs, signer);
+
+    expect(sign).toHaveBeenCalledTimes(2);
+    expect(fhe.userDecrypt).toHaveBeenCalledTimes(2);
+    for (const call of fhe.userDecrypt.mock.calls as unknown as [unknown, unknown, unknown, unknown, string[]][]) {
+      expect(call[4].length).toBeLessThanOrEqual(MAX_SESSION_CONTRACTS);
+    }
+    expect(Object.keys(decrypted)).toEqual(pairs.map((pair) => pair.handle));
+    expect(Object.values(decrypted).every((value) => value === 7n)).toBe(true);
+  });
+
+  it('types every result by the FHE type of its handle', async () => {
+    const flag = handleOf(1, 0);
+    const balance = handleOf(2, 5);
+    const owner = handleOf(3, 7);
+    fhe.userDecrypt.mockResolvedValueOnce({
+      [flag]: 1n,
+      [balance]: '18446744073709551615',
+      [owner]: BigInt(contractOf(9)),
+    });
+
+    const decrypted = await client.userDecryptHandles(
+      [flag, balance, owner].map((handle) => ({ handle, contractAddress: contractOf(0) })),
+      signer
+    );
+
+    expect(decrypted).toEqual({ [flag]: true, [balance]: 2n ** 64n - 1n, [owner]: contractOf(9) });
+  });
+
+  it('splits one contract group at the bit limit', async () => {
+    const pairs = Array.from({ length: MAX_DECRYPTION_BITS / 256 + 1 }, (_, i) => ({
+      handle: handleOf(i, EUINT256),
+      contractAddress: contractOf(0),
+    }));
+
+    const decrypted = await client.userDecryptHandles(pairs, signer);
+
+    expect(fhe.userDecrypt).toHaveBeenCalledTimes(2);
+    expect(Object.keys(decrypted)).toHaveLength(pairs.length);
+  });
+});
+
+describe('FhevmClient instances', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('keep their own instance and network', async () => {
+    const sepolia = new FhevmClient({ network: 'sepolia', backend: backendOf(fakeFhe()) });
+    const local = new FhevmClient({ network: 'hardhat', backend: backendOf(fakeFhe()) });
+    await Promise.all([sepolia.initialize(), local.initialize()]);
+
+    expect(sepolia.getInstance()).not.toBe(local.getInstance());
+    expect(sepolia.getNetwork()?.chainId).not.toBe(local.getNetwork()?.chainId);
+    expect(new FhevmClient().isInitialized).toBe(false);
+  });
+
+  it('keep their own decryption sessions', async () => {
+    const signer = ethers.Wallet.createRandom();
+    const sign = vi.spyOn(signer, 'signTypedData');
+    const left = new FhevmClient({ backend: backendOf(fakeFhe()) });
+    const right = new FhevmClient({ backend: backendOf(fakeFhe()) });
+    await Promise.all([left.initialize(), right.initialize()]);
+
+    const leftSession = await left.getDecryptionSession(signer, [contractOf(0)]);
+    await right.getDecryptionSession(signer, [contractOf(0)]);
+    expect(sign).toHaveBeenCalledTimes(2);
+
+    await right.clearSessions();
+    expect((await left.getDecryptionSession(signer, [contractOf(0)])).expiresAt).toBe(leftSession.expiresAt);
+    expect(sign).toHaveBeenCalledTimes(2);
+  });
+
+  it('decrypt through their own instance', async () => {
+    const leftFhe = fakeFhe();
+    const rightFhe = fakeFhe();
+    const left = new FhevmClient({ backend: backendOf(leftFhe), sessionStore: new MemorySessionStore() });
+    const right = new FhevmClient({ backend: backendOf(rightFhe), sessionStore: new MemorySessionStore() });
+    await Promise.all([left.initialize(), right.initialize()]);
+
+    await left.userDecryptHandles([{ handle: handleOf(1, EUINT32), contractAddress: contractOf(0) }], ethers.Wallet.createRandom());
+
+    expect(leftFhe.userDecrypt).toHaveBeenCalledTimes(1);
+    expect(rightFhe.userDecrypt).not.toHaveBeenCalled();
+  });
+});
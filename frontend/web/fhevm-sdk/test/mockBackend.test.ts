@@ -0,0 +1,138 @@
+import { ethers } from 'ethers';
+import { afterEach, beforeEach, describe, expect, it, vi, type MockInstance } from 'vitest';
+import { MemorySessionStore } from '../src/core/decryptionSession.js';
+import { FhevmClient } from '../src/core/fhevm.js';
+import { MockCleartextStore, mockBackend } from '../src/core/mockBackend.js';
+import { HARDHAT_NETWORK, SEPOLIA_NETWORK } from '../src/core/networks.js';
+import { contractOf } from './fakes.js';
+
+const CONTRACT = contractOf(1);
+
+describe('mockBackend offline', () => {
+  let store: MockCleartextStore;
+  let client: FhevmClient;
+  let user: ethers.HDNodeWallet;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    store = new MockCleartextStore();
+    user = ethers.Wallet.createRandom();
+    client = new FhevmClient({
+      network: 'hardhat',
+      backend: mockBackend({ store, hardhatNode: false }),
+      sessionStore: new MemorySessionStore(),
+    });
+    await client.initialize();
+  });
+
+  async function encrypt(build: (input: any) => void): Promise<{ handles: string[]; inputProof: string }> {
+    const input = client.getInstance().createEncryptedInput(CONTRACT, user.address);
+    build(input);
+    const { handles, inputProof } = await input.encrypt();
+    return { handles: handles.map((handle: Uint8Array) => ethers.hexlify(handle)), inputProof: ethers.hexlify(inputProof) };
+  }
+
+  it('encrypts inputs into typed handles with a coprocessor-signed proof', async () => {
+    const { handles, inputProof } = await encrypt((input) => input.add8(42).add64(2n ** 64n - 1n).addBool(true));
+
+    expect(handles).toHaveLength(3);
+    expect(handles.map((handle) => store.get(handle))).toEqual([42n, 2n ** 64n - 1n, 1n]);
+    // numHandles, numSigners, the handles, one 65-byte signature and the extra data byte
+    expect(ethers.dataLength(inputProof)).toBe(2 + 3 * 32 + 65 + 1);
+    expect(ethers.dataSlice(inputProof, 0, 2)).toBe('0x0301');
+  });
+
+  it('user-decrypts its handles to typed values', async () => {
+    const { handles } = await encrypt((input) => input.add8(42).add64(2n ** 64n - 1n).addBool(true));
+
+    const decrypted = await client.userDecryptHandles(
+      handles.map((handle) => ({ handle, contractAddress: CONTRACT })),
+      user
+    );
+
+    expect(decrypted).toEqual({ [handles[0]]: 42n, [handles[1]]: 2n ** 64n - 1n, [handles[2]]: true });
+  });
+
+  it('public-decrypts its handles with a KMS-signed proof', async () => {
+    const { handles } = await encrypt((input) => input.add32(7).add32(9));
+
+    const { clearValues, abiEncodedClearValues, decryptionProof } = await client.publicDecryptV09(handles);
+
+    expect(clearValues).toEqual({ [handles[0]]: 7n, [handles[1]]: 9n });
+    expect(ethers.AbiCoder.defaultAbiCoder().decode(['uint256', 'uint256'], abiEncodedClearValues)).toEqual([7n, 9n]);
+    // numSigners, one 65-byte signature and the extra data byte
+    expect(ethers.dataLength(decryptionProof)).toBe(1 + 65 + 1);
+  });
+
+  it('decrypts handles seeded into the store', async () => {
+    const handle = ethers.hexlify(ethers.randomBytes(30)) + '0400';
+    store.set(handle, 1234n);
+
+    expect(await client.decryptValue(handle, CONTRACT, user, 'euint32')).toBe(1234n);
+  });
+
+  it('refuses handles it has no cleartext for', async () => {
+    const handle = ethers.hexlify(ethers.randomBytes(30)) + '0400';
+
+    await expect(client.publicDecryptV09([handle])).rejects.toThrow('not allowed for public decryption');
+  });
+
+  it('rejects user decryptions signed by someone else', async () => {
+    const { handles } = await encrypt((input) => input.add8(1));
+    const startTimestamp = Math.floor(Date.now() / 1000);
+    const { privateKey, publicKey } = client.getInstance().generateKeypair();
+    const eip712 = client.getInstance().createEIP712(publicKey, [CONTRACT], startTimestamp, 1);
+    const forged = await ethers.Wallet.createRandom().signTypedData(
+      eip712.domain,
+      { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+      eip712.message
+    );
+
+    await expect(
+      client.getInstance().userDecrypt(
+        [{ handle: handles[0], contractAddress: CONTRACT }],
+        privateKey,
+        publicKey,
+        forged,
+        [CONTRACT],
+        user.address,
+        startTimestamp,
+        1
+      )
+    ).rejects.toThrow('Invalid EIP-712 signature');
+  });
+});
+
+describe('mockBackend node detection', () => {
+  let send: MockInstance<ethers.JsonRpcProvider['send']>;
+
+  beforeEach(() => {
+    send = vi.spyOn(ethers.JsonRpcProvider.prototype, 'send').mockRejectedValue(new Error('Method not found'));
+  });
+
+  afterEach(() => {
+    send.mockRestore();
+  });
+
+  it('stays offline without asking the RPC of other presets', async () => {
+    await mockBackend().createInstance(SEPOLIA_NETWORK, {});
+
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['the hardhat preset', HARDHAT_NETWORK, {}],
+    ['an explicit rpcUrl', SEPOLIA_NETWORK, { rpcUrl: 'http://127.0.0.1:9545' }],
+  ] as const)('asks the node on %s and falls back to offline', async (_, network, instanceOptions) => {
+    const { instance } = await mockBackend().createInstance(network, instanceOptions);
+
+    expect(send).toHaveBeenCalledWith('fhevm_relayer_metadata', []);
+    expect(instance.generateKeypair().publicKey).toBeTruthy();
+  });
+
+  it('fails when a Hardhat node is required but does not answer', async () => {
+    await expect(mockBackend({ hardhatNode: true }).createInstance(SEPOLIA_NETWORK, {})).rejects.toThrow(
+      'does not answer like a Hardhat node'
+    );
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import {
+  HARDHAT_NETWORK,
+  SEPOLIA_NETWORK,
+  chainIdHex,
+  resolveNetwork,
+  type FhevmNetworkConfig,
+  type FhevmNetworkName,
+} from '../src/core/networks.js';
+
+const CUSTOM: FhevmNetworkConfig = { ...HARDHAT_NETWORK, name: 'devnet', chainId: 1337, rpcUrl: 'http://10.0.0.2:8545' };
+
+describe('resolveNetwork', () => {
+  it('defaults to Sepolia', () => {
+    expect(resolveNetwork()).toBe(SEPOLIA_NETWORK);
+  });
+
+  it.each([
+    ['sepolia', SEPOLIA_NETWORK],
+    ['hardhat', HARDHAT_NETWORK],
+  ] as const)('looks up the %s preset', (name, preset) => {
+    expect(resolveNetwork(name)).toBe(preset);
+  });
+
+  it('rejects unknown preset names and lists the known ones', () => {
+    expect(() => resolveNetwork('mainnet' as FhevmNetworkName)).toThrow(
+      'Unknown FHEVM network "mainnet", expected one of sepolia, hardhat'
+    );
+  });
+
+  it('returns a valid custom config as is', () => {
+    expect(resolveNetwork(CUSTOM)).toBe(CUSTOM);
+  });
+
+  it.each([
+    'aclContractAddress',
+    'kmsContractAddress',
+    'inputVerifierContractAddress',
+    'verifyingContractAddressDecryption',
+    'verifyingContractAddressInputVerification',
+  ] as const)('rejects a custom config with an invalid %s', (field) => {
+    expect(() => resolveNetwork({ ...CUSTOM, [field]: '0x1234' })).toThrow(
+      `Invalid ${field} for FHEVM network "devnet": 0x1234`
+    );
+  });
+
+  it('rejects a custom config with a missing address', () => {
+    const { aclContractAddress: _, ...missing } = CUSTOM;
+
+    expect(() => resolveNetwork(missing as FhevmNetworkConfig)).toThrow(
+      'Invalid aclContractAddress for FHEVM network "devnet": undefined'
+    );
+  });
+
+  it.each([
+    ['a missing chain ID', { chainId: undefined }],
+    ['a missing gateway chain ID', { gatewayChainId: undefined }],
+    ['a fractional chain ID', { chainId: 1.5 }],
+    ['a chain ID given as a string', { chainId: '1337' }],
+  ])('rejects a custom config with %s', (_, override) => {
+    expect(() => resolveNetwork({ ...CUSTOM, ...override } as unknown as FhevmNetworkConfig)).toThrow(
+      'Invalid chain IDs for FHEVM network "devnet"'
+    );
+  });
+});
+
+describe('chainIdHex', () => {
+  it('formats the chain ID like eth_chainId', () => {
+    expect(chainIdHex(SEPOLIA_NETWORK)).toBe('0xaa36a7');
+    expect(chainIdHex(HARDHAT_NETWORK)).toBe('0x7a69');
+  });
+});
@@ -0,0 +1,163 @@
+import { ethers } from 'ethers';
+import { afterEach, beforeEach, describe, expect, it, vi, type MockInstance } from 'vitest';
+import { createEip1193Provider, resolveNodeSigner } from '../src/core/nodeProvider.js';
+import { contractOf } from './fakes.js';
+
+const RPC_URL = 'http://127.0.0.1:8545';
+
+describe('resolveNodeSigner', () => {
+  let provider: ethers.JsonRpcProvider;
+  let wallet: ethers.Wallet;
+
+  beforeEach(() => {
+    provider = new ethers.JsonRpcProvider(RPC_URL, 31337, { staticNetwork: true });
+    wallet = new ethers.Wallet(ethers.Wallet.createRandom().privateKey);
+  });
+
+  it('connects a signer without a provider', async () => {
+    const signer = await resolveNodeSigner(wallet, provider);
+
+    expect(signer.provider).toBe(provider);
+    expect(await signer.getAddress()).toBe(wallet.address);
+  });
+
+  it('keeps the provider a signer already has', async () => {
+    const other = new ethers.JsonRpcProvider('http://127.0.0.1:9545', 31337, { staticNetwork: true });
+    const connected = wallet.connect(other);
+
+    expect(await resolveNodeSigner(connected, provider)).toBe(connected);
+  });
+
+  it('builds a wallet from a private key', async () => {
+    const signer = await resolveNodeSigner({ privateKey: wallet.privateKey }, provider);
+
+    expect(signer).toBeInstanceOf(ethers.Wallet);
+    expect(await signer.getAddress()).toBe(wallet.address);
+    expect(signer.provider).toBe(provider);
+  });
+
+  it('decrypts a keystore', async () => {
+    // A cheap scrypt setting, the default one takes seconds
+    const keystore = await ethers.encryptKeystoreJson(
+      { address: wallet.address, privateKey: wallet.privateKey },
+      'hunter2',
+      { scrypt: { N: 1 << 4 } }
+    );
+
+    const signer = await resolveNodeSigner({ keystore, password: 'hunter2' }, provider);
+
+    expect(await signer.getAddress()).toBe(wallet.address);
+    expect(signer.provider).toBe(provider);
+    await expect(resolveNodeSigner({ keystore, password: 'wrong' }, provider)).rejects.toThrow('incorrect password');
+  });
+});
+
+describe('createEip1193Provider', () => {
+  let provider: ethers.JsonRpcProvider;
+  let send: MockInstance<ethers.JsonRpcProvider['send']>;
+  let signer: ethers.Wallet;
+
+  beforeEach(() => {
+    provider = new ethers.JsonRpcProvider(RPC_URL, 31337, { staticNetwork: true });
+    send = vi.spyOn(provider, 'send').mockResolvedValue('0x7a69');
+    signer = new ethers.Wallet(ethers.Wallet.createRandom().privateKey, provider);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('reports the signer as the only account', async () => {
+    const eip1193 = createEip1193Provider(provider, signer);
+
+    expect(await eip1193.request({ method: 'eth_accounts' })).toEqual([signer.address]);
+    expect(await eip1193.request({ method: 'eth_requestAccounts' })).toEqual([signer.address]);
+    expect(await createEip1193Provider(provider, null).request({ method: 'eth_accounts' })).toEqual([]);
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('sends transactions through the signer', async () => {
+    const sendTransaction = vi
+      .spyOn(signer, 'sendTransaction')
+      .mockResolvedValue({ hash: '0xabc' } as ethers.TransactionResponse);
+    const to = contractOf(1);
+
+    const hash = await createEip1193Provider(provider, signer).request({
+      method: 'eth_sendTransaction',
+      params: [{ from: signer.address, to, input: '0x1234', value: '0x1', gas: '0x5208', nonce: '0x7' }],
+    });
+
+    expect(hash).toBe('0xabc');
+    expect(sendTransaction).toHaveBeenCalledWith(
+      expect.objectContaining({ to, data: '0x1234', value: '0x1', gasLimit: '0x5208', nonce: 7 })
+    );
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('signs typed data with the signer, dropping the domain type', async () => {
+    const typedData = {
+      domain: { name: 'Decryption', version: '1', chainId: 31337, verifyingContract: contractOf(2) },
+      types: {
+        EIP712Domain: [
+          { name: 'name', type: 'string' },
+          { name: 'version', type: 'string' },
+          { name: 'chainId', type: 'uint256' },
+          { name: 'verifyingContract', type: 'address' },
+        ],
+        Request: [{ name: 'publicKey', type: 'bytes' }],
+      },
+      primaryType: 'Request',
+      message: { publicKey: '0x1234' },
+    };
+
+    const signature = await createEip1193Provider(provider, signer).request({
+      method: 'eth_signTypedData_v4',
+      params: [signer.address.toLowerCase(), JSON.stringify(typedData)],
+    });
+
+    const { EIP712Domain: _, ...types } = typedData.types;
+    expect(ethers.verifyTypedData(typedData.domain, types, typedData.message, signature)).toBe(signer.address);
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('signs personal messages with the signer, hex as bytes', async () => {
+    const eip1193 = createEip1193Provider(provider, signer);
+
+    const hex = await eip1193.request({ method: 'personal_sign', params: ['0x68656c6c6f', signer.address] });
+    const text = await eip1193.request({ method: 'personal_sign', params: ['hello', signer.address] });
+
+    expect(ethers.verifyMessage(ethers.getBytes('0x68656c6c6f'), hex)).toBe(signer.address);
+    expect(ethers.verifyMessage('hello', text)).toBe(signer.address);
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('refuses to sign for another account', async () => {
+    const other = ethers.Wallet.createRandom().address;
+
+    await expect(
+      createEip1193Provider(provider, signer).request({ method: 'personal_sign', params: ['0x01', other] })
+    ).rejects.toThrow(`Signer is ${signer.address}, cannot sign for ${other}`);
+  });
+
+  it.each(['eth_sendTransaction', 'eth_signTypedData_v4', 'personal_sign'])(
+    'needs a signer for %s',
+    async (method) => {
+      await expect(
+        createEip1193Provider(provider, null).request({ method, params: [{}, '{}'] })
+      ).rejects.toThrow(`${method} needs a signer`);
+      expect(send).not.toHaveBeenCalled();
+    }
+  );
+
+  it('forwards every other method to the node', async () => {
+    const eip1193 = createEip1193Provider(provider, signer);
+
+    expect(await eip1193.request({ method: 'eth_chainId' })).toBe('0x7a69');
+    await eip1193.request({ method: 'eth_call', params: [{ to: contractOf(3), data: '0x' }, 'latest'] });
+
+    expect(send.mock.calls).toEqual([
+      ['eth_chainId', []],
+      ['eth_call', [{ to: contractOf(3), data: '0x' }, 'latest']],
+    ]);
+  });
+});
@@ -0,0 +1,12 @@
+import { defineConfig } from 'vitest/config';
+
+// Keeps vitest from picking up the app's vite config one directory up
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    coverage: {
+      include: ['src/**/*.ts'],
+      exclude: ['src/typechain/**'],
+    },
+  },
+});
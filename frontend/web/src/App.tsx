@@ -1,36 +1,26 @@
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
 import React, { useEffect, useState } from "react";
-import { getContractReadOnly, getContractWithSigner } from "./components/useContract";
+import { fhevmBackend, fhevmNetwork, getContractReadOnly, getContractWithSigner } from "./components/useContract";
+import RadarChart from "./components/RadarChart";
 import "./App.css";
 import { useAccount } from 'wagmi';
-import { useFhevm, useEncrypt, useDecrypt } from '../fhevm-sdk/src';
-
-interface ReviewData {
-  id: string;
-  employeeName: string;
-  encryptedScore: string;
-  period: number;
-  reviewerId: number;
-  description: string;
-  creator: string;
-  timestamp: number;
-  isVerified?: boolean;
-  decryptedValue?: number;
-}
-
-interface PerformanceStats {
-  avgScore: number;
-  totalReviews: number;
-  highPerformers: number;
-  growthTrend: number;
-  departmentBreakdown: { [key: string]: number };
-}
+import { useFhevm, useAggregateScore, useOwnResults, useTeamResults } from '../fhevm-sdk/src';
+import { RELATIONSHIPS, WEIGHTED_RELATIONSHIPS } from '../fhevm-sdk/src';
+import type { AccountRoles, DepartmentStats, Employee, FinalScore, Relationship, RelationshipWeights, Review, ReviewCycle, ReviewGuardClient } from '../fhevm-sdk/src';
+
+// Runs a signed contract call and reports it with a pending and a success toast
+type AdminAction = (
+  message: string,
+  successMessage: string,
+  action: (client: ReviewGuardClient) => Promise<unknown>
+) => Promise<void>;
 
 const App: React.FC = () => {
   const { address, isConnected } = useAccount();
   const [loading, setLoading] = useState(true);
-  const [reviews, setReviews] = useState<ReviewData[]>([]);
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [submittedReviews, setSubmittedReviews] = useState<Review[]>([]);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [creatingReview, setCreatingReview] = useState(false);
@@ -40,24 +30,31 @@ const App: React.FC = () => {
     message: "" 
   });
   const [newReviewData, setNewReviewData] = useState({ 
-    employeeName: "", 
+    employeeId: "", 
     score: "", 
-    period: "", 
-    reviewerId: "",
-    description: "" 
+    criteria: {} as { [criterion: string]: string }
+  });
+  const [showEmployeeModal, setShowEmployeeModal] = useState(false);
+  const [addingEmployee, setAddingEmployee] = useState(false);
+  const [newEmployeeData, setNewEmployeeData] = useState({ 
+    employeeId: "", 
+    name: "" 
   });
-  const [selectedReview, setSelectedReview] = useState<ReviewData | null>(null);
-  const [isDecrypting, setIsDecrypting] = useState(false);
-  const [contractAddress, setContractAddress] = useState("");
+  const [selectedEmployee, setSelectedEmployee] = useState<Employee | null>(null);
+  const [signerClient, setSignerClient] = useState<ReviewGuardClient | null>(null);
   const [fhevmInitializing, setFhevmInitializing] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
-  const [filterPeriod, setFilterPeriod] = useState("all");
+  const [departmentId, setDepartmentId] = useState("1");
+  const [cycles, setCycles] = useState<ReviewCycle[]>([]);
+  const [cycleId, setCycleId] = useState("");
   const [showFAQ, setShowFAQ] = useState(false);
-  const [userHistory, setUserHistory] = useState<any[]>([]);
+  const [roles, setRoles] = useState<AccountRoles | null>(null);
+  const [showAdminModal, setShowAdminModal] = useState(false);
+  const [showMyResults, setShowMyResults] = useState(false);
+  const [showTeamDashboard, setShowTeamDashboard] = useState(false);
+  const [departmentStats, setDepartmentStats] = useState<DepartmentStats | null>(null);
 
-  const { status, initialize, isInitialized } = useFhevm();
-  const { encrypt, isEncrypting } = useEncrypt();
-  const { verifyDecryption, isDecrypting: fheIsDecrypting } = useDecrypt();
+  const { status, initialize, isInitialized } = useFhevm({ network: fhevmNetwork, backend: fhevmBackend });
 
   useEffect(() => {
     const initFhevmAfterConnection = async () => {
@@ -91,8 +88,6 @@ const App: React.FC = () => {
       
       try {
         await loadData();
-        const contract = await getContractReadOnly();
-        if (contract) setContractAddress(await contract.getAddress());
       } catch (error) {
         console.error('Failed to load data:', error);
       } finally {
@@ -101,41 +96,66 @@ const App: React.FC = () => {
     };
 
     loadDataAndContract();
-  }, [isConnected]);
+  }, [isConnected, departmentId, cycleId]);
+
+  useEffect(() => {
+    if (!isConnected || !address) {
+      setSignerClient(null);
+      return;
+    }
+
+    getContractWithSigner()
+      .then(setSignerClient)
+      .catch((error) => {
+        console.error('Failed to create signer client:', error);
+        setSignerClient(null);
+      });
+  }, [isConnected, address]);
+
+  useEffect(() => {
+    if (!signerClient || !address) {
+      setRoles(null);
+      return;
+    }
+
+    signerClient.getRoles(address, parseInt(departmentId) || 0)
+      .then(setRoles)
+      .catch((error) => {
+        console.error('Failed to load roles:', error);
+        setRoles(null);
+      });
+  }, [signerClient, address, departmentId]);
 
   const loadData = async () => {
     if (!isConnected) return;
     
     setIsRefreshing(true);
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
-      
-      const businessIds = await contract.getAllBusinessIds();
-      const reviewsList: ReviewData[] = [];
+      const client = await getContractReadOnly();
+      if (!client) return;
       
-      for (const businessId of businessIds) {
-        try {
-          const businessData = await contract.getBusinessData(businessId);
-          reviewsList.push({
-            id: businessId,
-            employeeName: businessData.name,
-            encryptedScore: businessId,
-            period: Number(businessData.publicValue1) || 0,
-            reviewerId: Number(businessData.publicValue2) || 0,
-            description: businessData.description,
-            creator: businessData.creator,
-            timestamp: Number(businessData.timestamp),
-            isVerified: businessData.isVerified,
-            decryptedValue: Number(businessData.decryptedValue) || 0
-          });
-        } catch (e) {
-          console.error('Error loading review data:', e);
-        }
+      const allCycles = await client.getCycles();
+      setCycles(allCycles);
+
+      // Default to the latest open cycle, falling back to the most recent one
+      let selectedCycleId = parseInt(cycleId) || 0;
+      if (!selectedCycleId && allCycles.length > 0) {
+        const openCycles = allCycles.filter(cycle => cycle.status === "open");
+        selectedCycleId = (openCycles[openCycles.length - 1] || allCycles[allCycles.length - 1]).cycleId;
+        setCycleId(String(selectedCycleId));
       }
-      
-      setReviews(reviewsList);
-      updateUserHistory(reviewsList);
+      if (!selectedCycleId) {
+        setEmployees([]);
+        setDepartmentStats(null);
+        return;
+      }
+
+      const [roster, stats] = await Promise.all([
+        client.getDepartmentRoster(parseInt(departmentId) || 0, selectedCycleId),
+        client.getDepartmentStats(parseInt(departmentId) || 0, selectedCycleId),
+      ]);
+      setEmployees(roster);
+      setDepartmentStats(stats);
     } catch (e) {
       setTransactionStatus({ visible: true, status: "error", message: "Failed to load data" });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
@@ -144,19 +164,63 @@ const App: React.FC = () => {
     }
   };
 
-  const updateUserHistory = (reviewsList: ReviewData[]) => {
-    if (!address) return;
+  const runAdminAction: AdminAction = async (message, successMessage, action) => {
+    if (!signerClient || !address) {
+      setTransactionStatus({ visible: true, status: "error", message: "Please connect wallet first" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      return;
+    }
+
+    setTransactionStatus({ visible: true, status: "pending", message });
+
+    try {
+      await action(signerClient);
+      setTransactionStatus({ visible: true, status: "success", message: successMessage });
+      setRoles(await signerClient.getRoles(address, parseInt(departmentId) || 0));
+      await loadData();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      const errorMessage = e.message?.includes("user rejected transaction")
+        ? "Transaction rejected by user"
+        : "Transaction failed: " + (e.message || "Unknown error");
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const addEmployee = async () => {
+    if (!isConnected || !address) { 
+      setTransactionStatus({ visible: true, status: "error", message: "Please connect wallet first" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      return; 
+    }
     
-    const userActions = reviewsList
-      .filter(review => review.creator.toLowerCase() === address.toLowerCase())
-      .map(review => ({
-        type: 'created',
-        target: review.employeeName,
-        timestamp: review.timestamp,
-        score: review.decryptedValue || 'encrypted'
-      }));
+    setAddingEmployee(true);
+    setTransactionStatus({ visible: true, status: "pending", message: "Registering employee..." });
     
-    setUserHistory(userActions.sort((a, b) => b.timestamp - a.timestamp).slice(0, 10));
+    try {
+      const client = await getContractWithSigner();
+      await client.addEmployee(
+        newEmployeeData.employeeId,
+        newEmployeeData.name,
+        parseInt(departmentId) || 0
+      );
+      
+      setTransactionStatus({ visible: true, status: "success", message: "Employee registered!" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+      
+      await loadData();
+      setShowEmployeeModal(false);
+      setNewEmployeeData({ employeeId: "", name: "" });
+    } catch (e: any) {
+      const errorMessage = e.message?.includes("user rejected transaction") 
+        ? "Transaction rejected" 
+        : "Registration failed: " + (e.message || "Unknown error");
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    } finally { 
+      setAddingEmployee(false); 
+    }
   };
 
   const createReview = async () => {
@@ -170,35 +234,32 @@ const App: React.FC = () => {
     setTransactionStatus({ visible: true, status: "pending", message: "Creating review with FHE encryption..." });
     
     try {
-      const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract with signer");
-      
-      const scoreValue = parseInt(newReviewData.score) || 0;
-      const businessId = `review-${Date.now()}`;
-      
-      const encryptedResult = await encrypt(contractAddress, address, scoreValue);
+      const client = await getContractWithSigner();
       
-      const tx = await contract.createBusinessData(
-        businessId,
-        newReviewData.employeeName,
-        encryptedResult.encryptedData,
-        encryptedResult.proof,
-        parseInt(newReviewData.period) || 202401,
-        parseInt(newReviewData.reviewerId) || 1,
-        newReviewData.description
-      );
+      const review = {
+        employeeId: newReviewData.employeeId,
+        cycleId: parseInt(cycleId) || 0,
+        score: parseInt(newReviewData.score) || 0,
+        criteria: (selectedCycle?.criteria || []).map(criterion => parseInt(newReviewData.criteria[criterion]) || 0),
+      };
+
+      // One review per reviewer and cycle, a second submission replaces the first
+      const isUpdate = await client.hasReviewed(review.employeeId, review.cycleId);
+      const submitted = isUpdate
+        ? await client.updateReview(review)
+        : await client.submitReview({ ...review, departmentId: parseInt(departmentId) || 0 });
       
-      setTransactionStatus({ visible: true, status: "pending", message: "Waiting for transaction confirmation..." });
-      await tx.wait();
+      const stored = await client.getReview(submitted.employeeId, submitted.reviewId);
+      setSubmittedReviews(prev => [stored, ...prev.filter(r => r.reviewId !== stored.reviewId)]);
       
-      setTransactionStatus({ visible: true, status: "success", message: "Review created successfully!" });
+      setTransactionStatus({ visible: true, status: "success", message: isUpdate ? "Review updated successfully!" : "Review created successfully!" });
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
       }, 2000);
       
       await loadData();
       setShowCreateModal(false);
-      setNewReviewData({ employeeName: "", score: "", period: "", reviewerId: "", description: "" });
+      setNewReviewData({ employeeId: "", score: "", criteria: {} });
     } catch (e: any) {
       const errorMessage = e.message?.includes("user rejected transaction") 
         ? "Transaction rejected" 
@@ -210,71 +271,32 @@ const App: React.FC = () => {
     }
   };
 
-  const decryptData = async (businessId: string): Promise<number | null> => {
-    if (!isConnected || !address) { 
-      setTransactionStatus({ visible: true, status: "error", message: "Please connect wallet first" });
-      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
-      return null; 
-    }
-    
-    setIsDecrypting(true);
+  const finalizeScore = async (employee: Employee) => {
+    setTransactionStatus({ visible: true, status: "pending", message: "Recording decrypted aggregate..." });
     try {
-      const contractRead = await getContractReadOnly();
-      if (!contractRead) return null;
-      
-      const businessData = await contractRead.getBusinessData(businessId);
-      if (businessData.isVerified) {
-        const storedValue = Number(businessData.decryptedValue) || 0;
-        setTransactionStatus({ visible: true, status: "success", message: "Data already verified" });
-        setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
-        return storedValue;
-      }
+      const client = await getContractWithSigner();
+      await client.verifyAggregate(employee.employeeId, employee.cycleId);
       
-      const contractWrite = await getContractWithSigner();
-      if (!contractWrite) return null;
-      
-      const encryptedValueHandle = await contractRead.getEncryptedValue(businessId);
-      
-      const result = await verifyDecryption(
-        [encryptedValueHandle],
-        contractAddress,
-        (abiEncodedClearValues: string, decryptionProof: string) => 
-          contractWrite.verifyDecryption(businessId, abiEncodedClearValues, decryptionProof)
-      );
-      
-      setTransactionStatus({ visible: true, status: "pending", message: "Verifying decryption..." });
-      
-      const clearValue = result.decryptionResult.clearValues[encryptedValueHandle];
+      setTransactionStatus({ visible: true, status: "pending", message: "Calculating final score..." });
+      const result = await client.calculateFinalScore(employee.employeeId, employee.cycleId);
       
       await loadData();
+      setSelectedEmployee(await client.getEmployee(employee.employeeId, employee.cycleId));
       
-      setTransactionStatus({ visible: true, status: "success", message: "Data decrypted successfully!" });
+      setTransactionStatus({ visible: true, status: "success", message: `Final score: ${result.finalScore.toFixed(2)}` });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
-      
-      return Number(clearValue);
-      
-    } catch (e: any) { 
-      if (e.message?.includes("Data already verified")) {
-        setTransactionStatus({ visible: true, status: "success", message: "Data already verified" });
-        setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
-        await loadData();
-        return null;
-      }
-      
-      setTransactionStatus({ visible: true, status: "error", message: "Decryption failed" });
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Final score calculation failed" });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
-      return null; 
-    } finally { 
-      setIsDecrypting(false); 
     }
   };
 
   const callIsAvailable = async () => {
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
+      const client = await getContractReadOnly();
+      if (!client) return;
       
-      const result = await contract.isAvailable();
+      const result = await client.isAvailable();
       setTransactionStatus({ visible: true, status: "success", message: "Contract is available!" });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
     } catch (e) {
@@ -283,44 +305,41 @@ const App: React.FC = () => {
     }
   };
 
-  const calculateStats = (): PerformanceStats => {
-    const filteredReviews = reviews.filter(review => {
-      const matchesSearch = review.employeeName.toLowerCase().includes(searchTerm.toLowerCase());
-      const matchesPeriod = filterPeriod === "all" || review.period.toString() === filterPeriod;
-      return matchesSearch && matchesPeriod;
-    });
-
-    const verifiedScores = filteredReviews
-      .filter(review => review.isVerified && review.decryptedValue)
-      .map(review => review.decryptedValue!)
-      .filter(score => score > 0);
-
-    const avgScore = verifiedScores.length > 0 
-      ? verifiedScores.reduce((sum, score) => sum + score, 0) / verifiedScores.length 
-      : 0;
-
-    const highPerformers = verifiedScores.filter(score => score >= 8).length;
-    
-    const departmentBreakdown: { [key: string]: number } = {};
-    filteredReviews.forEach(review => {
-      const dept = review.description.split('-')[0] || 'General';
-      departmentBreakdown[dept] = (departmentBreakdown[dept] || 0) + 1;
-    });
-
-    return {
-      avgScore: Math.round(avgScore * 10) / 10,
-      totalReviews: filteredReviews.length,
-      highPerformers,
-      growthTrend: filteredReviews.length > 5 ? 12 : 0,
-      departmentBreakdown
-    };
-  };
+  // Department totals are only decrypted once enough reviews hide each individual score
+  const renderPerformanceChart = (stats: DepartmentStats | null) => {
+    if (!stats?.score) {
+      const statsCycle = cycles.find(cycle => cycle.cycleId === stats?.cycleId);
+      const cycleEnded = statsCycle?.status === "closed" || statsCycle?.status === "finalized";
+      const canPublish = cycleEnded && stats?.anonymity.canDecrypt && (roles?.isHrAdmin || roles?.isDepartmentManager);
+      return (
+        <div className="performance-chart">
+          <div className="chart-metric">
+            <div className="metric-value">🔒</div>
+            <div className="metric-label">
+              {!stats || !stats.anonymity.canDecrypt
+                ? `${stats?.anonymity.remaining ?? 0} more reviewers needed in department #${departmentId}`
+                : cycleEnded
+                  ? "Department totals are not published yet"
+                  : "Department totals can be published once the cycle is closed"}
+            </div>
+          </div>
+          {stats && canPublish && (
+            <button
+              onClick={() => runAdminAction("Publishing department analytics...", "Department analytics published", (client) => client.requestDepartmentDecryption(stats.departmentId, stats.cycleId))}
+              className="decrypt-btn"
+            >
+              Publish Department Analytics
+            </button>
+          )}
+        </div>
+      );
+    }
 
-  const renderPerformanceChart = (stats: PerformanceStats) => {
+    const { score } = stats;
     return (
       <div className="performance-chart">
         <div className="chart-metric">
-          <div className="metric-value">{stats.avgScore}</div>
+          <div className="metric-value">{Math.round(score.average * 10) / 10}</div>
           <div className="metric-label">Average Score</div>
         </div>
         <div className="chart-bars">
@@ -329,20 +348,31 @@ const App: React.FC = () => {
             <div className="bar">
               <div 
                 className="bar-fill" 
-                style={{ width: `${Math.min(100, stats.totalReviews * 10)}%` }}
+                style={{ width: `${Math.min(100, score.reviewCount * 10)}%` }}
               >
-                <span className="bar-value">{stats.totalReviews}</span>
+                <span className="bar-value">{score.reviewCount}</span>
               </div>
             </div>
           </div>
           <div className="bar-container">
-            <div className="bar-label">High Performers</div>
+            <div className="bar-label">High-Score Reviews</div>
             <div className="bar">
               <div 
                 className="bar-fill high" 
-                style={{ width: `${Math.min(100, stats.highPerformers * 20)}%` }}
+                style={{ width: `${score.reviewCount > 0 ? (score.highPerformerCount / score.reviewCount) * 100 : 0}%` }}
               >
-                <span className="bar-value">{stats.highPerformers}</span>
+                <span className="bar-value">{score.highPerformerCount}</span>
+              </div>
+            </div>
+          </div>
+          <div className="bar-container">
+            <div className="bar-label">Low-Score Reviews</div>
+            <div className="bar">
+              <div 
+                className="bar-fill low" 
+                style={{ width: `${score.reviewCount > 0 ? (score.lowPerformerCount / score.reviewCount) * 100 : 0}%` }}
+              >
+                <span className="bar-value">{score.lowPerformerCount}</span>
               </div>
             </div>
           </div>
@@ -381,13 +411,11 @@ const App: React.FC = () => {
     );
   };
 
-  const filteredReviews = reviews.filter(review => {
-    const matchesSearch = review.employeeName.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesPeriod = filterPeriod === "all" || review.period.toString() === filterPeriod;
-    return matchesSearch && matchesPeriod;
-  });
+  const filteredEmployees = employees.filter(employee => 
+    employee.name.toLowerCase().includes(searchTerm.toLowerCase())
+  );
 
-  const stats = calculateStats();
+  const selectedCycle = cycles.find(cycle => String(cycle.cycleId) === cycleId);
 
   if (!isConnected) {
     return (
@@ -430,6 +458,13 @@ const App: React.FC = () => {
         
         <div className="header-actions">
           <button className="nav-btn" onClick={() => setShowFAQ(true)}>FAQ</button>
+          <button className="nav-btn" onClick={() => setShowMyResults(true)}>My Results</button>
+          {roles && (roles.isHrAdmin || roles.isDepartmentManager) && (
+            <>
+              <button className="nav-btn" onClick={() => setShowTeamDashboard(true)}>Team</button>
+              <button className="nav-btn" onClick={() => setShowAdminModal(true)}>Admin</button>
+            </>
+          )}
           <button className="test-btn" onClick={callIsAvailable}>Test Contract</button>
           <ConnectButton />
         </div>
@@ -441,7 +476,7 @@ const App: React.FC = () => {
             <h2>Performance Analytics</h2>
             <div className="fhe-badge">FHE 🔐 Encrypted</div>
           </div>
-          {renderPerformanceChart(stats)}
+          {renderPerformanceChart(departmentStats)}
           {renderFHEFlow()}
         </section>
 
@@ -457,39 +492,50 @@ const App: React.FC = () => {
                   onChange={(e) => setSearchTerm(e.target.value)}
                 />
               </div>
-              <select value={filterPeriod} onChange={(e) => setFilterPeriod(e.target.value)}>
-                <option value="all">All Periods</option>
-                <option value="202401">2024 Q1</option>
-                <option value="202402">2024 Q2</option>
-                <option value="202403">2024 Q3</option>
-                <option value="202404">2024 Q4</option>
+              <input 
+                type="number" 
+                min="0"
+                placeholder="Department ID" 
+                value={departmentId}
+                onChange={(e) => setDepartmentId(e.target.value.replace(/[^\d]/g, ''))}
+              />
+              <select value={cycleId} onChange={(e) => setCycleId(e.target.value)} disabled={cycles.length === 0}>
+                {cycles.length === 0 && <option value="">No review cycles</option>}
+                {cycles.map(cycle => (
+                  <option key={cycle.cycleId} value={cycle.cycleId}>
+                    {cycle.name} ({cycle.status})
+                  </option>
+                ))}
               </select>
               <button onClick={loadData} disabled={isRefreshing}>
                 {isRefreshing ? "Refreshing..." : "Refresh"}
               </button>
-              <button onClick={() => setShowCreateModal(true)} className="primary-btn">
+              <button onClick={() => setShowEmployeeModal(true)} disabled={!roles?.isHrAdmin}>
+                + Employee
+              </button>
+              <button onClick={() => setShowCreateModal(true)} className="primary-btn" disabled={employees.length === 0 || selectedCycle?.status !== "open"}>
                 + New Review
               </button>
             </div>
           </div>
 
           <div className="reviews-grid">
-            {filteredReviews.map((review, index) => (
-              <div key={index} className="review-card" onClick={() => setSelectedReview(review)}>
+            {filteredEmployees.map((employee) => (
+              <div key={employee.employeeId} className="review-card" onClick={() => setSelectedEmployee(employee)}>
                 <div className="card-header">
-                  <h3>{review.employeeName}</h3>
-                  <span className={`status ${review.isVerified ? 'verified' : 'encrypted'}`}>
-                    {review.isVerified ? '✅ Verified' : '🔒 Encrypted'}
+                  <h3>{employee.name}</h3>
+                  <span className={`status ${employee.reviewCount > 0 ? 'verified' : 'encrypted'}`}>
+                    {employee.reviewCount > 0 ? '✅ Verified' : '🔒 Encrypted'}
                   </span>
                 </div>
                 <div className="card-details">
-                  <p>Period: {review.period}</p>
-                  <p>Department: {review.description}</p>
-                  <p>Reviewer: #{review.reviewerId}</p>
+                  <p>Employee ID: {employee.employeeId}</p>
+                  <p>Department: #{employee.departmentId}</p>
+                  <p>Verified reviews: {employee.reviewCount}</p>
                 </div>
-                {review.isVerified && review.decryptedValue && (
+                {employee.totalWeight > 0 && (
                   <div className="score-display">
-                    Final Score: <strong>{review.decryptedValue}/10</strong>
+                    Weighted Average: <strong>{(employee.totalScore / employee.totalWeight).toFixed(2)}</strong>
                   </div>
                 )}
               </div>
@@ -497,16 +543,16 @@ const App: React.FC = () => {
           </div>
         </section>
 
-        {userHistory.length > 0 && (
+        {submittedReviews.length > 0 && (
           <section className="history-section">
             <h3>Your Recent Activity</h3>
             <div className="history-list">
-              {userHistory.map((action, index) => (
-                <div key={index} className="history-item">
+              {submittedReviews.slice(0, 10).map((review) => (
+                <div key={review.reviewId} className="history-item">
                   <span className="action-type">Reviewed</span>
-                  <span className="action-target">{action.target}</span>
+                  <span className="action-target">{review.employeeId}</span>
                   <span className="action-time">
-                    {new Date(action.timestamp * 1000).toLocaleDateString()}
+                    {new Date(review.timestamp * 1000).toLocaleDateString()}
                   </span>
                 </div>
               ))}
@@ -515,23 +561,38 @@ const App: React.FC = () => {
         )}
       </main>
 
+      {showEmployeeModal && (
+        <AddEmployeeModal
+          onSubmit={addEmployee}
+          onClose={() => setShowEmployeeModal(false)}
+          adding={addingEmployee}
+          departmentId={departmentId}
+          employeeData={newEmployeeData}
+          setEmployeeData={setNewEmployeeData}
+        />
+      )}
+
       {showCreateModal && (
         <CreateReviewModal
           onSubmit={createReview}
           onClose={() => setShowCreateModal(false)}
           creating={creatingReview}
+          employees={employees}
+          criteria={selectedCycle?.criteria || []}
+          maxScore={selectedCycle?.maxScore || 10}
           reviewData={newReviewData}
           setReviewData={setNewReviewData}
-          isEncrypting={isEncrypting}
         />
       )}
 
-      {selectedReview && (
-        <ReviewDetailModal
-          review={selectedReview}
-          onClose={() => setSelectedReview(null)}
-          isDecrypting={isDecrypting}
-          decryptData={() => decryptData(selectedReview.id)}
+      {selectedEmployee && (
+        <EmployeeDetailModal
+          client={signerClient}
+          employee={selectedEmployee}
+          cycle={cycles.find(cycle => cycle.cycleId === selectedEmployee.cycleId)}
+          account={address}
+          onClose={() => setSelectedEmployee(null)}
+          finalizeScore={() => finalizeScore(selectedEmployee)}
         />
       )}
 
@@ -539,6 +600,36 @@ const App: React.FC = () => {
         <FAQModal onClose={() => setShowFAQ(false)} />
       )}
 
+      {showMyResults && (
+        <MyResultsModal
+          client={signerClient}
+          account={address}
+          cycle={selectedCycle}
+          onClose={() => setShowMyResults(false)}
+        />
+      )}
+
+      {showTeamDashboard && (
+        <TeamDashboardModal
+          client={signerClient}
+          account={address}
+          departmentId={parseInt(departmentId) || 0}
+          cycle={selectedCycle}
+          onClose={() => setShowTeamDashboard(false)}
+        />
+      )}
+
+      {showAdminModal && roles && (
+        <AdminModal
+          roles={roles}
+          departmentId={parseInt(departmentId) || 0}
+          cycle={selectedCycle}
+          employees={employees}
+          onAction={runAdminAction}
+          onClose={() => setShowAdminModal(false)}
+        />
+      )}
+
       {transactionStatus.visible && (
         <div className={`transaction-toast ${transactionStatus.status}`}>
           {transactionStatus.message}
@@ -548,17 +639,384 @@ const App: React.FC = () => {
   );
 };
 
+const AddEmployeeModal: React.FC<{
+  onSubmit: () => void;
+  onClose: () => void;
+  adding: boolean;
+  departmentId: string;
+  employeeData: any;
+  setEmployeeData: (data: any) => void;
+}> = ({ onSubmit, onClose, adding, departmentId, employeeData, setEmployeeData }) => {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setEmployeeData({ ...employeeData, [name]: value });
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content">
+        <div className="modal-header">
+          <h2>New Employee</h2>
+          <button onClick={onClose} className="close-btn">×</button>
+        </div>
+        
+        <div className="modal-body">
+          <div className="form-grid">
+            <div className="form-group">
+              <label>Employee ID *</label>
+              <input
+                type="text"
+                name="employeeId"
+                value={employeeData.employeeId}
+                onChange={handleChange}
+                placeholder="e.g. EMP-001"
+              />
+            </div>
+
+            <div className="form-group">
+              <label>Name *</label>
+              <input
+                type="text"
+                name="name"
+                value={employeeData.name}
+                onChange={handleChange}
+                placeholder="Enter employee name"
+              />
+              <span className="input-hint">Department #{departmentId}</span>
+            </div>
+          </div>
+        </div>
+
+        <div className="modal-footer">
+          <button onClick={onClose} className="secondary-btn">Cancel</button>
+          <button 
+            onClick={onSubmit} 
+            disabled={adding || !employeeData.employeeId || !employeeData.name}
+            className="primary-btn"
+          >
+            {adding ? "Registering..." : "Add Employee"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const AdminModal: React.FC<{
+  roles: AccountRoles;
+  departmentId: number;
+  cycle: ReviewCycle | undefined;
+  employees: Employee[];
+  onAction: AdminAction;
+  onClose: () => void;
+}> = ({ roles, departmentId, cycle, employees, onAction, onClose }) => {
+  const [cycleName, setCycleName] = useState("");
+  const [maxScore, setMaxScore] = useState("");
+  const [thresholds, setThresholds] = useState({ high: "", low: "" });
+  const [account, setAccount] = useState("");
+  const [employeeId, setEmployeeId] = useState(employees[0]?.employeeId || "");
+  const [relationship, setRelationship] = useState<Relationship>("peer");
+  const [weights, setWeights] = useState<{ [relationship: string]: string }>({});
+
+  // The weight table is encrypted on-chain, only HR admins can decrypt it
+  const revealWeights = () => onAction("Decrypting review weights...", "Review weights decrypted", async (client) => {
+    const current = await client.getRelationshipWeights();
+    setWeights(Object.fromEntries(Object.entries(current).map(([key, weight]) => [key, String(weight)])));
+  });
+
+  const saveWeights = () => onAction("Encrypting review weights...", "Review weights updated", (client) => client.setRelationshipWeights(
+    Object.fromEntries(WEIGHTED_RELATIONSHIPS.map(key => [key, parseInt(weights[key])])) as RelationshipWeights
+  ));
+
+  const isAddress = /^0x[0-9a-fA-F]{40}$/.test(account);
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content">
+        <div className="modal-header">
+          <h2>Access Control</h2>
+          <button onClick={onClose} className="close-btn">×</button>
+        </div>
+
+        <div className="modal-body">
+          <div className="detail-grid">
+            <div className="detail-item">
+              <label>Owner</label>
+              <span>{roles.isOwner ? "Yes" : "No"}</span>
+            </div>
+            <div className="detail-item">
+              <label>HR Admin</label>
+              <span>{roles.isHrAdmin ? "Yes" : "No"}</span>
+            </div>
+            <div className="detail-item">
+              <label>Manager of Department #{departmentId}</label>
+              <span>{roles.isDepartmentManager ? "Yes" : "No"}</span>
+            </div>
+          </div>
+
+          {roles.isHrAdmin && (
+            <div className="score-section">
+              <h3>Review Cycles</h3>
+              <div className="form-group">
+                <input
+                  type="text"
+                  value={cycleName}
+                  onChange={(e) => setCycleName(e.target.value)}
+                  placeholder="e.g. 2024 H1"
+                />
+              </div>
+              <button
+                onClick={() => onAction("Creating review cycle...", "Review cycle created", (client) => client.createCycle(cycleName))}
+                disabled={!cycleName}
+                className="primary-btn"
+              >
+                Create Cycle
+              </button>
+              <div className="form-group">
+                <input
+                  type="number"
+                  min="1"
+                  max="255"
+                  value={maxScore}
+                  onChange={(e) => setMaxScore(e.target.value.replace(/[^\d]/g, ''))}
+                  placeholder="Score scale for new cycles, e.g. 10"
+                />
+              </div>
+              <button
+                onClick={() => onAction("Updating score scale...", "Score scale updated", (client) => client.setMaxScore(parseInt(maxScore)))}
+                disabled={!(parseInt(maxScore) >= 1 && parseInt(maxScore) <= 255)}
+                className="secondary-btn"
+              >
+                Set Scale
+              </button>
+              <div className="form-grid">
+                <div className="form-group">
+                  <label>High performer score</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={thresholds.high}
+                    onChange={(e) => setThresholds({ ...thresholds, high: e.target.value.replace(/[^\d]/g, '') })}
+                    placeholder="8"
+                  />
+                </div>
+                <div className="form-group">
+                  <label>Low performer score</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={thresholds.low}
+                    onChange={(e) => setThresholds({ ...thresholds, low: e.target.value.replace(/[^\d]/g, '') })}
+                    placeholder="4"
+                  />
+                </div>
+              </div>
+              <button
+                onClick={() => onAction("Updating performer thresholds...", "Performer thresholds updated", (client) => client.setPerformanceThresholds({
+                  highPerformerScore: parseInt(thresholds.high),
+                  lowPerformerScore: parseInt(thresholds.low),
+                }))}
+                disabled={!thresholds.high || !thresholds.low || parseInt(thresholds.low) >= parseInt(thresholds.high)}
+                className="secondary-btn"
+              >
+                Set Thresholds
+              </button>
+              <span className="input-hint">Scale and thresholds apply to cycles created afterwards</span>
+              {cycle && (
+                <>
+                  <span className="input-hint">{cycle.name} is {cycle.status}</span>
+                  {cycle.status === "created" && (
+                    <button onClick={() => onAction("Opening review cycle...", "Review cycle opened", (client) => client.openCycle(cycle.cycleId))} className="secondary-btn">
+                      Open
+                    </button>
+                  )}
+                  {cycle.status === "open" && (
+                    <button onClick={() => onAction("Closing review cycle...", "Review cycle closed", (client) => client.closeCycle(cycle.cycleId))} className="secondary-btn">
+                      Close
+                    </button>
+                  )}
+                  {cycle.status === "closed" && (
+                    <button onClick={() => onAction("Finalizing review cycle...", "Review cycle finalized", (client) => client.finalizeCycle(cycle.cycleId))} className="secondary-btn">
+                      Finalize
+                    </button>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+
+          <div className="form-grid">
+            <div className="form-group">
+              <label>Wallet Address *</label>
+              <input
+                type="text"
+                value={account}
+                onChange={(e) => setAccount(e.target.value.trim())}
+                placeholder="0x..."
+              />
+            </div>
+          </div>
+
+          {roles.isOwner && (
+            <div className="score-section">
+              <h3>HR Admins</h3>
+              <button
+                onClick={() => onAction("Granting HR admin...", "HR admin granted", (client) => client.setHrAdmin(account, true))}
+                disabled={!isAddress}
+                className="primary-btn"
+              >
+                Grant
+              </button>
+              <button
+                onClick={() => onAction("Revoking HR admin...", "HR admin revoked", (client) => client.setHrAdmin(account, false))}
+                disabled={!isAddress}
+                className="secondary-btn"
+              >
+                Revoke
+              </button>
+            </div>
+          )}
+
+          {roles.isHrAdmin && (
+            <div className="score-section">
+              <h3>Managers of Department #{departmentId}</h3>
+              <button
+                onClick={() => onAction("Granting department manager...", "Department manager granted", (client) => client.setDepartmentManager(departmentId, account, true))}
+                disabled={!isAddress}
+                className="primary-btn"
+              >
+                Grant
+              </button>
+              <button
+                onClick={() => onAction("Revoking department manager...", "Department manager revoked", (client) => client.setDepartmentManager(departmentId, account, false))}
+                disabled={!isAddress}
+                className="secondary-btn"
+              >
+                Revoke
+              </button>
+            </div>
+          )}
+
+          <div className="score-section">
+            <h3>Reviewers</h3>
+            <div className="form-group">
+              <select value={employeeId} onChange={(e) => setEmployeeId(e.target.value)}>
+                {employees.map(employee => (
+                  <option key={employee.employeeId} value={employee.employeeId}>
+                    {employee.name} ({employee.employeeId})
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="form-group">
+              <select value={relationship} onChange={(e) => setRelationship(e.target.value as Relationship)}>
+                {RELATIONSHIPS.filter(option => option !== "none").map(option => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+              <span className="input-hint">The relationship decides the weight of the reviewer's score</span>
+            </div>
+            <button
+              onClick={() => onAction("Setting reviewer relationship...", "Reviewer relationship set", (client) => client.setReviewerRelationship(employeeId, account, relationship))}
+              disabled={!isAddress || !employeeId}
+              className="primary-btn"
+            >
+              Grant
+            </button>
+            <button
+              onClick={() => onAction("Revoking reviewer...", "Reviewer revoked", (client) => client.setReviewerRelationship(employeeId, account, "none"))}
+              disabled={!isAddress || !employeeId}
+              className="secondary-btn"
+            >
+              Revoke
+            </button>
+          </div>
+
+          {roles.isHrAdmin && (
+            <div className="score-section">
+              <h3>Employee Wallet</h3>
+              <span className="input-hint">Lets the wallet above decrypt {employeeId || "the selected employee"}'s own results</span>
+              <button
+                onClick={() => onAction("Binding employee wallet...", "Employee wallet bound", (client) => client.bindEmployeeWallet(employeeId, account))}
+                disabled={!isAddress || !employeeId}
+                className="primary-btn"
+              >
+                Bind Wallet
+              </button>
+            </div>
+          )}
+
+          {roles.isHrAdmin && (
+            <div className="score-section">
+              <h3>Review Weights</h3>
+              <div className="form-grid">
+                {WEIGHTED_RELATIONSHIPS.map(key => (
+                  <div key={key} className="form-group">
+                    <label>{key}</label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={weights[key] || ""}
+                      onChange={(e) => setWeights({ ...weights, [key]: e.target.value.replace(/[^\d]/g, '') })}
+                      placeholder="Encrypted"
+                    />
+                  </div>
+                ))}
+              </div>
+              <span className="input-hint">Weights stay encrypted on-chain and apply to new and updated reviews</span>
+              <button onClick={revealWeights} className="secondary-btn">
+                Reveal
+              </button>
+              <button
+                onClick={() => onAction("Requesting access to review weights...", "Access to review weights granted", (client) => client.allowRelationshipWeights())}
+                className="secondary-btn"
+              >
+                Request Access
+              </button>
+              <button
+                onClick={saveWeights}
+                disabled={WEIGHTED_RELATIONSHIPS.some(key => !(parseInt(weights[key]) > 0))}
+                className="primary-btn"
+              >
+                Save Weights
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="modal-footer">
+          <button onClick={onClose} className="secondary-btn">Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
 const CreateReviewModal: React.FC<{
   onSubmit: () => void;
   onClose: () => void;
   creating: boolean;
+  employees: Employee[];
+  criteria: string[];
+  maxScore: number;
   reviewData: any;
   setReviewData: (data: any) => void;
-  isEncrypting: boolean;
-}> = ({ onSubmit, onClose, creating, reviewData, setReviewData, isEncrypting }) => {
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+}> = ({ onSubmit, onClose, creating, employees, criteria, maxScore, reviewData, setReviewData }) => {
+  const inScale = (value: string | undefined) => {
+    const score = parseInt(value || "");
+    return score >= 1 && score <= maxScore;
+  };
+
+  const handleCriterionChange = (criterion: string, value: string) => {
+    setReviewData({
+      ...reviewData,
+      criteria: { ...reviewData.criteria, [criterion]: value.replace(/[^\d]/g, '') }
+    });
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
-    if (name === 'score' || name === 'reviewerId') {
+    if (name === 'score') {
       const intValue = value.replace(/[^\d]/g, '');
       setReviewData({ ...reviewData, [name]: intValue });
     } else {
@@ -582,63 +1040,49 @@ const CreateReviewModal: React.FC<{
 
           <div className="form-grid">
             <div className="form-group">
-              <label>Employee Name *</label>
-              <input
-                type="text"
-                name="employeeName"
-                value={reviewData.employeeName}
+              <label>Employee *</label>
+              <select
+                name="employeeId"
+                value={reviewData.employeeId}
                 onChange={handleChange}
-                placeholder="Enter employee name"
-              />
+              >
+                <option value="">Select employee</option>
+                {employees.map(employee => (
+                  <option key={employee.employeeId} value={employee.employeeId}>
+                    {employee.name} ({employee.employeeId})
+                  </option>
+                ))}
+              </select>
+              <span className="input-hint">One review per colleague and cycle, submitting again replaces it</span>
             </div>
 
             <div className="form-group">
-              <label>Performance Score (1-10) *</label>
+              <label>Performance Score (1-{maxScore}) *</label>
               <input
                 type="number"
                 name="score"
                 min="1"
-                max="10"
+                max={maxScore}
                 value={reviewData.score}
                 onChange={handleChange}
-                placeholder="1-10"
+                placeholder={`1-${maxScore}`}
               />
               <span className="input-hint">FHE Encrypted</span>
             </div>
 
-            <div className="form-group">
-              <label>Review Period *</label>
-              <input
-                type="number"
-                name="period"
-                value={reviewData.period}
-                onChange={handleChange}
-                placeholder="202401"
-              />
-              <span className="input-hint">e.g., 202401 for Q1 2024</span>
-            </div>
-
-            <div className="form-group">
-              <label>Reviewer ID *</label>
-              <input
-                type="number"
-                name="reviewerId"
-                value={reviewData.reviewerId}
-                onChange={handleChange}
-                placeholder="Reviewer identifier"
-              />
-            </div>
-
-            <div className="form-group full-width">
-              <label>Department/Description</label>
-              <textarea
-                name="description"
-                value={reviewData.description}
-                onChange={handleChange}
-                placeholder="Department and review notes"
-                rows={3}
-              />
-            </div>
+            {criteria.map(criterion => (
+              <div key={criterion} className="form-group">
+                <label>{criterion} (1-{maxScore}) *</label>
+                <input
+                  type="number"
+                  min="1"
+                  max={maxScore}
+                  value={reviewData.criteria[criterion] || ""}
+                  onChange={(e) => handleCriterionChange(criterion, e.target.value)}
+                  placeholder={`1-${maxScore}`}
+                />
+              </div>
+            ))}
           </div>
         </div>
 
@@ -646,10 +1090,10 @@ const CreateReviewModal: React.FC<{
           <button onClick={onClose} className="secondary-btn">Cancel</button>
           <button 
             onClick={onSubmit} 
-            disabled={creating || isEncrypting || !reviewData.employeeName || !reviewData.score}
+            disabled={creating || !reviewData.employeeId || !inScale(reviewData.score) || criteria.some(criterion => !inScale(reviewData.criteria[criterion]))}
             className="primary-btn"
           >
-            {creating || isEncrypting ? "Encrypting..." : "Create Review"}
+            {creating ? "Encrypting..." : "Create Review"}
           </button>
         </div>
       </div>
@@ -657,21 +1101,76 @@ const CreateReviewModal: React.FC<{
   );
 };
 
-const ReviewDetailModal: React.FC<{
-  review: ReviewData;
+const REVIEW_PAGE_SIZE = 10;
+
+const EmployeeDetailModal: React.FC<{
+  client: ReviewGuardClient | null;
+  employee: Employee;
+  cycle: ReviewCycle | undefined;
+  account: string | undefined;
   onClose: () => void;
-  isDecrypting: boolean;
-  decryptData: () => Promise<number | null>;
-}> = ({ review, onClose, isDecrypting, decryptData }) => {
+  finalizeScore: () => Promise<void>;
+}> = ({ client, employee, cycle, account, onClose, finalizeScore }) => {
+  const { aggregate, criteria, performers, anonymity, decrypt, isDecrypting, error } = useAggregateScore(client, employee.employeeId, employee.cycleId);
+  // The aggregate is only published after the cycle closed, so no two publications differ by one review
+  const cycleEnded = cycle?.status === "closed" || cycle?.status === "finalized";
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [totalReviews, setTotalReviews] = useState(0);
+  const [loadingReviews, setLoadingReviews] = useState(false);
+  const [finalScore, setFinalScore] = useState<FinalScore | null>(null);
+  const [roles, setRoles] = useState<AccountRoles | null>(null);
+  // Same check as the contract's onlyEmployeeManager, against the employee's department rather than the selected one
+  const canReveal = !!roles && (roles.isHrAdmin || roles.isDepartmentManager);
+
+  useEffect(() => {
+    if (!client) return;
+    client.getFinalScore(employee.employeeId, employee.cycleId)
+      .then(setFinalScore)
+      .catch(e => console.error('Failed to load final score:', e));
+  }, [client, employee]);
+
+  useEffect(() => {
+    setRoles(null);
+    if (!client || !account) return;
+    client.getRoles(account, employee.departmentId)
+      .then(setRoles)
+      .catch(e => console.error('Failed to load roles:', e));
+  }, [client, account, employee.departmentId]);
+
+  const loadReviews = async (offset: number) => {
+    if (!client) return;
+
+    setLoadingReviews(true);
+    try {
+      const page = await client.listReviews(employee.employeeId, { offset, limit: REVIEW_PAGE_SIZE });
+      setReviews(prev => offset === 0 ? page.reviews : [...prev, ...page.reviews]);
+      setTotalReviews(page.total);
+    } catch (e) {
+      console.error('Failed to load reviews:', e);
+    } finally {
+      setLoadingReviews(false);
+    }
+  };
+
+  useEffect(() => {
+    setReviews([]);
+    setTotalReviews(0);
+    loadReviews(0);
+  }, [client, employee.employeeId]);
+
   const handleDecrypt = async () => {
-    await decryptData();
+    try {
+      await decrypt();
+    } catch (e) {
+      console.error('Aggregate decryption failed:', e);
+    }
   };
 
   return (
     <div className="modal-overlay">
       <div className="modal-content">
         <div className="modal-header">
-          <h2>Review Details</h2>
+          <h2>Employee Details</h2>
           <button onClick={onClose} className="close-btn">×</button>
         </div>
         
@@ -679,54 +1178,273 @@ const ReviewDetailModal: React.FC<{
           <div className="detail-grid">
             <div className="detail-item">
               <label>Employee</label>
-              <span>{review.employeeName}</span>
+              <span>{employee.name}</span>
             </div>
             <div className="detail-item">
-              <label>Review Period</label>
-              <span>{review.period}</span>
+              <label>Employee ID</label>
+              <span>{employee.employeeId}</span>
             </div>
             <div className="detail-item">
-              <label>Reviewer</label>
-              <span>#{review.reviewerId}</span>
+              <label>Department</label>
+              <span>#{employee.departmentId}</span>
             </div>
             <div className="detail-item">
-              <label>Department</label>
-              <span>{review.description}</span>
+              <label>Verified Reviews</label>
+              <span>{employee.reviewCount}</span>
             </div>
             <div className="detail-item">
-              <label>Created</label>
-              <span>{new Date(review.timestamp * 1000).toLocaleDateString()}</span>
+              <label>Distinct Reviewers</label>
+              <span>
+                {employee.reviewerCount}
+                {anonymity && ` / ${anonymity.minReviewers} required`}
+              </span>
             </div>
+            {finalScore && (
+              <div className="detail-item">
+                <label>Final Score</label>
+                <span>
+                  {finalScore.finalScore.toFixed(2)} (v{finalScore.aggregateVersion}, {new Date(finalScore.calculatedAt * 1000).toLocaleDateString()})
+                </span>
+              </div>
+            )}
           </div>
 
           <div className="score-section">
-            <h3>Performance Score</h3>
+            <h3>Aggregate Score</h3>
             <div className="score-display-large">
-              {review.isVerified && review.decryptedValue ? (
+              {aggregate ? (
                 <div className="verified-score">
-                  <span className="score-value">{review.decryptedValue}</span>
-                  <span className="score-max">/10</span>
-                  <div className="verification-badge">✅ On-chain Verified</div>
+                  <span className="score-value">{Math.round(aggregate.average * 10) / 10}</span>
+                  <span className="score-max">/ {aggregate.reviewCount} reviews</span>
+                  <div className="verification-badge">🔓 Decrypted aggregate</div>
+                  {performers && (
+                    <span className="input-hint">
+                      {performers.highPerformerCount} high and {performers.lowPerformerCount} low scores, counted without decrypting any review
+                    </span>
+                  )}
+                  {aggregate.reviewCount > 0 && (
+                    <button onClick={finalizeScore} className="decrypt-btn">
+                      Record & Calculate Final Score
+                    </button>
+                  )}
+                  {criteria.length > 0 && (
+                    <RadarChart
+                      data={criteria.map(score => ({ label: score.criterion, value: score.average }))}
+                      max={Math.max(10, ...criteria.map(score => score.average))}
+                    />
+                  )}
                 </div>
               ) : (
                 <div className="encrypted-score">
                   <div className="encrypted-icon">🔒</div>
-                  <span>FHE Encrypted</span>
-                  <button 
-                    onClick={handleDecrypt} 
-                    disabled={isDecrypting}
-                    className="decrypt-btn"
-                  >
-                    {isDecrypting ? "Decrypting..." : "Reveal Score"}
-                  </button>
+                  <span>Encrypted weighted sum of all reviews</span>
+                  {anonymity && !anonymity.canDecrypt ? (
+                    <span className="input-hint">
+                      {anonymity.remaining} more {anonymity.remaining === 1 ? "review" : "reviews"} needed before the aggregate can be revealed
+                    </span>
+                  ) : !cycleEnded ? (
+                    <span className="input-hint">The aggregate can be revealed once the cycle is closed</span>
+                  ) : !canReveal ? (
+                    <span className="input-hint">
+                      {roles || !account
+                        ? `Only HR admins and managers of Department #${employee.departmentId} can reveal the aggregate`
+                        : "Checking your access..."}
+                    </span>
+                  ) : (
+                    <button 
+                      onClick={handleDecrypt} 
+                      disabled={isDecrypting || !client || !anonymity}
+                      className="decrypt-btn"
+                    >
+                      {isDecrypting ? "Decrypting..." : "Reveal Aggregate"}
+                    </button>
+                  )}
+                  {error && <span className="input-hint">{error.message}</span>}
                 </div>
               )}
             </div>
           </div>
 
+          {reviews.length > 0 && (
+            <div className="score-section">
+              <h3>Reviews ({totalReviews})</h3>
+              {reviews.map(review => (
+                <div key={review.reviewId} className="detail-item">
+                  <label>
+                    #{review.reviewId} · cycle {review.cycleId} · {new Date(review.timestamp * 1000).toLocaleString()}
+                    {account && review.reviewer.toLowerCase() === account.toLowerCase() && " · yours"}
+                  </label>
+                  <span>🔒 Encrypted</span>
+                </div>
+              ))}
+              {reviews.length < totalReviews && (
+                <button onClick={() => loadReviews(reviews.length)} disabled={loadingReviews} className="secondary-btn">
+                  {loadingReviews ? "Loading..." : "Load more"}
+                </button>
+              )}
+            </div>
+          )}
+
           <div className="fhe-explanation">
             <h4>🔐 How FHE Protects Privacy</h4>
-            <p>Individual scores remain encrypted while allowing secure computation of aggregate statistics. This prevents workplace retaliation while maintaining data utility.</p>
+            <p>Individual scores are never decrypted. The contract adds every weighted score homomorphically and only the aggregate can be revealed, which prevents workplace retaliation while maintaining data utility.</p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const MyResultsModal: React.FC<{
+  client: ReviewGuardClient | null;
+  account: string | undefined;
+  cycle: ReviewCycle | undefined;
+  onClose: () => void;
+}> = ({ client, account, cycle, onClose }) => {
+  const { employeeId, results, decrypt, isDecrypting, error } = useOwnResults(client, account, cycle?.cycleId || 0);
+  const cycleEnded = cycle?.status === "closed" || cycle?.status === "finalized";
+
+  const handleDecrypt = async () => {
+    try {
+      await decrypt();
+    } catch (e) {
+      console.error('Decrypting own results failed:', e);
+    }
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content">
+        <div className="modal-header">
+          <h2>My Results</h2>
+          <button onClick={onClose} className="close-btn">×</button>
+        </div>
+
+        <div className="modal-body">
+          <div className="detail-grid">
+            <div className="detail-item">
+              <label>Employee ID</label>
+              <span>{employeeId || "Not bound"}</span>
+            </div>
+            <div className="detail-item">
+              <label>Review Cycle</label>
+              <span>{cycle ? `${cycle.name} (${cycle.status})` : "None"}</span>
+            </div>
+          </div>
+
+          <div className="score-section">
+            <h3>Aggregate Score</h3>
+            <div className="score-display-large">
+              {results ? (
+                <div className="verified-score">
+                  <span className="score-value">{Math.round(results.aggregate.average * 10) / 10}</span>
+                  <span className="score-max">/ {results.aggregate.reviewCount} reviews</span>
+                  <div className="verification-badge">🔓 Decrypted for your wallet only</div>
+                  <span className="input-hint">
+                    {results.performers.highPerformerCount} high and {results.performers.lowPerformerCount} low scores
+                  </span>
+                  {results.criteria.length > 0 && (
+                    <RadarChart
+                      data={results.criteria.map(score => ({ label: score.criterion, value: score.average }))}
+                      max={Math.max(cycle?.maxScore || 10, ...results.criteria.map(score => score.average))}
+                    />
+                  )}
+                </div>
+              ) : (
+                <div className="encrypted-score">
+                  <div className="encrypted-icon">🔒</div>
+                  {!employeeId ? (
+                    <span>This wallet is not bound to an employee, ask HR to bind it</span>
+                  ) : !cycleEnded ? (
+                    <span>Your results unlock once the cycle is closed</span>
+                  ) : (
+                    <button
+                      onClick={handleDecrypt}
+                      disabled={isDecrypting || !client}
+                      className="decrypt-btn"
+                    >
+                      {isDecrypting ? "Decrypting..." : "Decrypt My Results"}
+                    </button>
+                  )}
+                  {error && <span className="input-hint">{error.message}</span>}
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="fhe-explanation">
+            <h4>🔐 Only You Can See This</h4>
+            <p>Your aggregate is never made public. The contract grants your wallet access to it and your browser decrypts it with your own signature, so neither other employees nor the chain see the numbers.</p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const TeamDashboardModal: React.FC<{
+  client: ReviewGuardClient | null;
+  account: string | undefined;
+  departmentId: number;
+  cycle: ReviewCycle | undefined;
+  onClose: () => void;
+}> = ({ client, account, departmentId, cycle, onClose }) => {
+  const { team, decrypt, isDecrypting, error } = useTeamResults(client, account, departmentId, cycle?.cycleId || 0);
+  const cycleEnded = cycle?.status === "closed" || cycle?.status === "finalized";
+
+  const handleDecrypt = async () => {
+    try {
+      await decrypt();
+    } catch (e) {
+      console.error('Decrypting team results failed:', e);
+    }
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content">
+        <div className="modal-header">
+          <h2>Team Dashboard · Department #{departmentId}</h2>
+          <button onClick={onClose} className="close-btn">×</button>
+        </div>
+
+        <div className="modal-body">
+          <div className="score-section">
+            <h3>{cycle ? `${cycle.name} (${cycle.status})` : "No review cycle"}</h3>
+            {!cycleEnded ? (
+              <span className="input-hint">Team results unlock once the cycle is closed</span>
+            ) : (
+              <button
+                onClick={handleDecrypt}
+                disabled={isDecrypting || !client}
+                className="decrypt-btn"
+              >
+                {isDecrypting ? "Decrypting..." : "Decrypt Team Results"}
+              </button>
+            )}
+            {error && <span className="input-hint">{error.message}</span>}
+          </div>
+
+          {team.length > 0 && (
+            <div className="score-section">
+              {team.map(member => (
+                <div key={member.employee.employeeId} className="detail-item">
+                  <label>
+                    {member.employee.name} ({member.employee.employeeId}) · {member.anonymity.reviewerCount} / {member.anonymity.minReviewers} reviewers
+                  </label>
+                  <span>
+                    {member.results
+                      ? `${Math.round(member.results.aggregate.average * 10) / 10} avg · ${member.results.performers.highPerformerCount} high · ${member.results.performers.lowPerformerCount} low`
+                      : "🔒 Sealed"}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="fhe-explanation">
+            <h4>🔐 Private to Managers</h4>
+            <p>The contract grants your wallet access to each team member's aggregate and the whole team is decrypted with one signature. Nothing is published, and members below the reviewer threshold stay sealed.</p>
           </div>
         </div>
       </div>
@@ -0,0 +1,73 @@
+import React from "react";
+
+export interface RadarChartPoint {
+  label: string;
+  value: number;
+}
+
+const SIZE = 240;
+const CENTER = SIZE / 2;
+const RADIUS = SIZE / 2 - 40;
+const RINGS = 4;
+
+const pointAt = (index: number, count: number, ratio: number) => {
+  // Start at twelve o'clock and go clockwise
+  const angle = (Math.PI * 2 * index) / count - Math.PI / 2;
+  return {
+    x: CENTER + Math.cos(angle) * RADIUS * ratio,
+    y: CENTER + Math.sin(angle) * RADIUS * ratio,
+  };
+};
+
+const toPoints = (ratios: number[]) =>
+  ratios.map((ratio, i) => {
+    const { x, y } = pointAt(i, ratios.length, ratio);
+    return `${x},${y}`;
+  }).join(" ");
+
+const RadarChart: React.FC<{
+  data: RadarChartPoint[];
+  max: number;
+}> = ({ data, max }) => {
+  if (data.length < 3) {
+    return (
+      <div className="radar-chart">
+        {data.map(point => (
+          <div key={point.label} className="detail-item">
+            <label>{point.label}</label>
+            <span>{Math.round(point.value * 10) / 10}</span>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  const ratios = data.map(point => max > 0 ? Math.min(point.value / max, 1) : 0);
+
+  return (
+    <svg className="radar-chart" viewBox={`0 0 ${SIZE} ${SIZE}`} width={SIZE} height={SIZE}>
+      {Array.from({ length: RINGS }, (_, ring) => (
+        <polygon
+          key={ring}
+          className="radar-grid"
+          points={toPoints(data.map(() => (ring + 1) / RINGS))}
+        />
+      ))}
+      {data.map((point, i) => {
+        const edge = pointAt(i, data.length, 1);
+        const label = pointAt(i, data.length, 1.18);
+        return (
+          <g key={point.label}>
+            <line className="radar-axis" x1={CENTER} y1={CENTER} x2={edge.x} y2={edge.y} />
+            <text className="radar-label" x={label.x} y={label.y} textAnchor="middle" dominantBaseline="middle">
+              {point.label} · {Math.round(point.value * 10) / 10}
+            </text>
+          </g>
+        );
+      })}
+      <polygon className="radar-area" points={toPoints(ratios)} />
+    </svg>
+  );
+};
+
+export default RadarChart;
@@ -1,11 +1,18 @@
 // contract.ts
 import { ethers } from "ethers";
-import abiJson from "../abi/UniversalFHEAdapter.json";
+import { ReviewGuardClient, chainIdHex, resolveNetwork } from "../../fhevm-sdk/src";
+import type { FhevmBackendName, FhevmNetworkName } from "../../fhevm-sdk/src";
 import configJson from "../config.json";
 
-export const ABI = (abiJson as any).abi || abiJson;
 export const config = configJson;
 
+export const fhevmNetwork = resolveNetwork(config.fhevmNetwork as FhevmNetworkName);
+export const fhevmBackend = config.fhevmBackend as FhevmBackendName;
+
+// deploy/deploy.ts writes the ReviewGuardFHE address, the zero address means nothing was deployed yet
+const NOT_DEPLOYED_MESSAGE = "No ReviewGuardFHE deployment configured, run deploy/deploy.ts first";
+export const isDeployed = config.contractAddress !== ethers.ZeroAddress;
+
 const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
   try {
     return await fn();
@@ -18,20 +25,26 @@ const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promis
   }
 };
 
+// Public Sepolia endpoints, tried in order before the network's own RPC URL
+const SEPOLIA_RPC_URLS = [
+  "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
+  "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
+  "https://rpc.sepolia.org",
+  "https://rpc2.sepolia.org",
+  "https://eth-sepolia.public.blastapi.io"
+];
+
 const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
+  const rpcUrls = fhevmNetwork.name === "sepolia" ? [...SEPOLIA_RPC_URLS] : [];
+  if (fhevmNetwork.rpcUrl) {
+    rpcUrls.push(fhevmNetwork.rpcUrl);
+  }
   
   for (const url of rpcUrls) {
     try {
       const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
+        name: fhevmNetwork.name,
+        chainId: fhevmNetwork.chainId
       });
       
       const blockNumber = await Promise.race([
@@ -49,24 +62,32 @@ const getTestnetProvider = async () => {
   throw new Error("All RPC providers failed");
 };
 
-export async function getContractReadOnly() {
+export async function getContractReadOnly(): Promise<ReviewGuardClient | null> {
+  if (!isDeployed) {
+    console.warn(NOT_DEPLOYED_MESSAGE);
+    return null;
+  }
+
   try {
     const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
+    const client = new ReviewGuardClient(config.contractAddress, provider);
     
     const code = await retry(() => provider.getCode(config.contractAddress));
     if (code === "0x") {
       return null;
     }
     
-    return contract;
+    return client;
   } catch (error) {
     console.error("Failed to create read-only contract:", error);
     return null;
   }
 }
 
-export async function getContractWithSigner() {
+export async function getContractWithSigner(): Promise<ReviewGuardClient> {
+  if (!isDeployed) {
+    throw new Error(NOT_DEPLOYED_MESSAGE);
+  }
   if (!(window as any).ethereum) {
     throw new Error("No injected wallet");
   }
@@ -75,15 +96,14 @@ export async function getContractWithSigner() {
   // const network = await provider.getNetwork();
   // console.log("network ID:", network.chainId);
 
-  if (window.ethereum && window.ethereum.chainId !== '0xaa36a7') {
-    alert("Please switch to Sepolia test network");
+  if (window.ethereum && window.ethereum.chainId !== chainIdHex(fhevmNetwork)) {
+    alert(`Please switch to the ${fhevmNetwork.name} network`);
   }
 
   try {
     const provider = new ethers.BrowserProvider((window as any).ethereum);
     const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
-    return contract;
+    return new ReviewGuardClient(config.contractAddress, signer);
   } catch (error) {
     console.error("Failed to create contract with signer:", error);
     throw error;
@@ -5,7 +5,8 @@ import { getDefaultConfig, RainbowKitProvider, lightTheme } from '@rainbow-me/ra
 import { WagmiConfig } from 'wagmi';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import '@rainbow-me/rainbowkit/styles.css';
-import { sepolia } from 'wagmi/chains';
+import { hardhat, sepolia } from 'wagmi/chains';
+import { fhevmNetwork } from './components/useContract';
 import { BrowserRouter } from 'react-router-dom';
 
 const projectId = '4eeb32175359e6b21f4e3ceae163ccea';
@@ -13,7 +14,7 @@ const projectId = '4eeb32175359e6b21f4e3ceae163ccea';
 const config = getDefaultConfig({
   appName: '',
   projectId: projectId,
-  chains: [sepolia],
+  chains: [fhevmNetwork.chainId === hardhat.id ? hardhat : sepolia],
 });
 
 const queryClient = new QueryClient();
@@ -0,0 +1,1736 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm, network } from "hardhat";
+import { ReviewGuardFHE, ReviewGuardFHE__factory } from "../types";
+import { expect } from "chai";
+import { ContractTransactionResponse } from "ethers";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+  manager: HardhatEthersSigner;
+  employee: HardhatEthersSigner;
+};
+
+const ENGINEERING = 1;
+const SALES = 2;
+const CYCLE = 1;
+const CRITERIA = ["delivery", "collaboration", "communication", "ownership"];
+
+// Mirrors ReviewGuardFHE.CycleStatus
+enum CycleStatus {
+  None,
+  Created,
+  Open,
+  Closed,
+  Finalized,
+}
+
+// Mirrors ReviewGuardFHE.Relationship
+enum Relationship {
+  None,
+  Manager,
+  Peer,
+  DirectReport,
+  Self,
+}
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory(
+    "ReviewGuardFHE",
+  )) as ReviewGuardFHE__factory;
+  const reviewGuard = (await factory.deploy()) as ReviewGuardFHE;
+  const reviewGuardAddress = await reviewGuard.getAddress();
+
+  return { reviewGuard, reviewGuardAddress };
+}
+
+/**
+ * Review ids are assigned on-chain and reported in ReviewSubmitted
+ */
+async function reviewIdOf(
+  reviewGuard: ReviewGuardFHE,
+  tx: ContractTransactionResponse,
+): Promise<bigint> {
+  const receipt = await tx.wait();
+  for (const log of receipt!.logs) {
+    const parsed = reviewGuard.interface.parseLog(log);
+    if (parsed?.name === "ReviewSubmitted") {
+      return parsed.args.reviewId;
+    }
+  }
+  throw new Error("ReviewSubmitted not emitted");
+}
+
+describe("ReviewGuardFHE", function () {
+  let signers: Signers;
+  let reviewGuard: ReviewGuardFHE;
+  let reviewGuardAddress: string;
+
+  /**
+   * Encrypts the overall score and every criterion in one input batch
+   */
+  async function encryptReview(
+    reviewer: HardhatEthersSigner,
+    score: number,
+    criteria = CRITERIA.map(() => score),
+  ) {
+    const input = fhevm.createEncryptedInput(
+      reviewGuardAddress,
+      reviewer.address,
+    );
+    input.add8(score);
+    for (const value of criteria) {
+      input.add8(value);
+    }
+    const encrypted = await input.encrypt();
+
+    return {
+      score: encrypted.handles[0],
+      criteria: encrypted.handles.slice(1),
+      inputProof: encrypted.inputProof,
+    };
+  }
+
+  async function submit(
+    reviewer: HardhatEthersSigner,
+    employeeId: string,
+    score: number,
+    departmentId = ENGINEERING,
+    cycleId = CYCLE,
+    criteria?: number[],
+  ) {
+    const encrypted = await encryptReview(reviewer, score, criteria);
+
+    const tx = await reviewGuard
+      .connect(reviewer)
+      .submitReview(
+        employeeId,
+        cycleId,
+        encrypted.score,
+        encrypted.criteria,
+        encrypted.inputProof,
+        departmentId,
+      );
+    return reviewIdOf(reviewGuard, tx);
+  }
+
+  async function update(
+    reviewer: HardhatEthersSigner,
+    employeeId: string,
+    score: number,
+    cycleId = CYCLE,
+    criteria?: number[],
+  ) {
+    const encrypted = await encryptReview(reviewer, score, criteria);
+
+    const tx = await reviewGuard
+      .connect(reviewer)
+      .updateReview(
+        employeeId,
+        cycleId,
+        encrypted.score,
+        encrypted.criteria,
+        encrypted.inputProof,
+      );
+    await tx.wait();
+  }
+
+  /**
+   * Encrypts the weights for Manager, Peer, DirectReport and Self in one batch
+   */
+  async function setWeights(weights: number[], hrAdmin = signers.deployer) {
+    const input = fhevm.createEncryptedInput(
+      reviewGuardAddress,
+      hrAdmin.address,
+    );
+    for (const weight of weights) {
+      input.add32(weight);
+    }
+    const encrypted = await input.encrypt();
+
+    const tx = await reviewGuard
+      .connect(hrAdmin)
+      .setRelationshipWeights(encrypted.handles, encrypted.inputProof);
+    await tx.wait();
+  }
+
+  async function decryptCriteria(employeeId: string, cycleId = CYCLE) {
+    const sums = await reviewGuard.getEncryptedCriteriaAggregate(
+      employeeId,
+      cycleId,
+    );
+    // The mock coprocessor cannot serve concurrent debugger decryptions
+    const clear: bigint[] = [];
+    for (const handle of sums) {
+      clear.push(await fhevm.debugger.decryptEuint(FhevmType.euint64, handle));
+    }
+    return clear;
+  }
+
+  async function publishAggregate(employeeId: string) {
+    await (
+      await reviewGuard.requestAggregateDecryption(employeeId, CYCLE)
+    ).wait();
+
+    const aggregate = await reviewGuard.getEncryptedAggregate(
+      employeeId,
+      CYCLE,
+    );
+    const decryption = await fhevm.publicDecrypt([
+      aggregate.weightedSum,
+      aggregate.reviewCount,
+      aggregate.totalWeight,
+    ]);
+
+    const tx = await reviewGuard.verifyAggregate(
+      employeeId,
+      CYCLE,
+      decryption.abiEncodedClearValues,
+      decryption.decryptionProof,
+    );
+    await tx.wait();
+    return decryption;
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = {
+      deployer: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+      carol: ethSigners[3],
+      manager: ethSigners[4],
+      employee: ethSigners[5],
+    };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ reviewGuard, reviewGuardAddress } = await deployFixture());
+    await (await reviewGuard.setMinReviewers(2)).wait();
+    await (await reviewGuard.createCycle("2024 H1")).wait();
+    await (await reviewGuard.openCycle(CYCLE)).wait();
+
+    await (
+      await reviewGuard.addEmployee("EMP-001", "Alice Doe", ENGINEERING)
+    ).wait();
+    await (await reviewGuard.addEmployee("EMP-002", "Bob Roe", SALES)).wait();
+
+    // alice is a peer (weight 2), bob and carol report to EMP-001 (weight 1)
+    const relationships: [HardhatEthersSigner, Relationship][] = [
+      [signers.alice, Relationship.Peer],
+      [signers.bob, Relationship.DirectReport],
+      [signers.carol, Relationship.DirectReport],
+    ];
+    for (const [reviewer, relationship] of relationships) {
+      await (
+        await reviewGuard.setReviewerRelationship(
+          "EMP-001",
+          reviewer.address,
+          relationship,
+        )
+      ).wait();
+    }
+  });
+
+  describe("employees", function () {
+    it("registers employees per department", async function () {
+      const employee = await reviewGuard.getEmployee("EMP-001", CYCLE);
+      expect(employee.name).to.eq("Alice Doe");
+      expect(employee.totalScore).to.eq(0);
+      expect(employee.reviewCount).to.eq(0);
+      expect(employee.departmentId).to.eq(ENGINEERING);
+
+      expect(await reviewGuard.getDepartmentEmployees(ENGINEERING)).to.deep.eq([
+        "EMP-001",
+      ]);
+      expect(await reviewGuard.getDepartmentEmployees(SALES)).to.deep.eq([
+        "EMP-002",
+      ]);
+    });
+
+    it("rejects duplicate employee ids", async function () {
+      await expect(
+        reviewGuard.addEmployee("EMP-001", "Someone Else", SALES),
+      ).to.be.revertedWith("Employee already exists");
+    });
+  });
+
+  describe("submitReview", function () {
+    it("stores an encrypted score for the reviewer", async function () {
+      const reviewId = await submit(signers.alice, "EMP-001", 8);
+
+      const review = await reviewGuard.getReview("EMP-001", reviewId);
+      expect(review.cycleId).to.eq(CYCLE);
+      expect(review.departmentId).to.eq(ENGINEERING);
+      expect(review.reviewer).to.eq(signers.alice.address);
+
+      await fhevm.assertCoprocessorInitialized(reviewGuard, "ReviewGuardFHE");
+      expect(await reviewGuard.isAggregateDecryptable("EMP-001", CYCLE)).to.eq(
+        false,
+      );
+    });
+
+    it("emits ReviewSubmitted", async function () {
+      const encrypted = await encryptReview(signers.alice, 7);
+
+      await expect(
+        reviewGuard
+          .connect(signers.alice)
+          .submitReview(
+            "EMP-001",
+            CYCLE,
+            encrypted.score,
+            encrypted.criteria,
+            encrypted.inputProof,
+            ENGINEERING,
+          ),
+      )
+        .to.emit(reviewGuard, "ReviewSubmitted")
+        .withArgs("EMP-001", CYCLE, signers.alice.address, 1);
+    });
+
+    it("rejects unknown employees", async function () {
+      await expect(submit(signers.alice, "EMP-404", 5)).to.be.revertedWith(
+        "Employee does not exist",
+      );
+    });
+
+    it("rejects a department mismatch", async function () {
+      await expect(
+        submit(signers.alice, "EMP-001", 5, SALES),
+      ).to.be.revertedWith("Department mismatch");
+    });
+
+    it("rejects an input proof made for another reviewer", async function () {
+      const encrypted = await encryptReview(signers.alice, 5);
+
+      await expect(
+        reviewGuard
+          .connect(signers.bob)
+          .submitReview(
+            "EMP-001",
+            CYCLE,
+            encrypted.score,
+            encrypted.criteria,
+            encrypted.inputProof,
+            ENGINEERING,
+          ),
+      ).to.be.reverted;
+    });
+  });
+
+  describe("one review per cycle", function () {
+    it("rejects a second submission from the same reviewer", async function () {
+      await submit(signers.alice, "EMP-001", 8);
+
+      expect(
+        await reviewGuard.hasReviewed("EMP-001", CYCLE, signers.alice.address),
+      ).to.eq(true);
+      expect(
+        await reviewGuard.hasReviewed("EMP-001", CYCLE, signers.bob.address),
+      ).to.eq(false);
+      await expect(submit(signers.alice, "EMP-001", 9)).to.be.revertedWith(
+        "Already reviewed",
+      );
+    });
+
+    it("lets the reviewer submit again in another cycle", async function () {
+      await submit(signers.alice, "EMP-001", 8);
+      await (await reviewGuard.createCycle("2024 H2")).wait();
+      await (await reviewGuard.openCycle(2)).wait();
+
+      await submit(signers.alice, "EMP-001", 9, ENGINEERING, 2);
+      expect(
+        await reviewGuard.hasReviewed("EMP-001", 2, signers.alice.address),
+      ).to.eq(true);
+    });
+
+    it("replaces the encrypted score in the aggregate on update", async function () {
+      const reviewId = await submit(signers.alice, "EMP-001", 8);
+      await submit(signers.bob, "EMP-001", 5);
+      // The update is weighted with the table in force at the time
+      await setWeights([3, 3, 1, 1]);
+
+      await expect(update(signers.alice, "EMP-001", 4)).to.not.be.reverted;
+      expect(
+        await reviewGuard.getReviewIdOf(
+          "EMP-001",
+          CYCLE,
+          signers.alice.address,
+        ),
+      ).to.eq(reviewId);
+
+      const aggregate = await reviewGuard.getEncryptedAggregate(
+        "EMP-001",
+        CYCLE,
+      );
+      expect(
+        await fhevm.debugger.decryptEuint(
+          FhevmType.euint64,
+          aggregate.weightedSum,
+        ),
+      ).to.eq(BigInt(4 * 3 + 5 * 1));
+      expect(
+        await fhevm.debugger.decryptEuint(
+          FhevmType.euint32,
+          aggregate.reviewCount,
+        ),
+      ).to.eq(2n);
+    });
+
+    it("emits ReviewUpdated", async function () {
+      const reviewId = await submit(signers.alice, "EMP-001", 8);
+      const encrypted = await encryptReview(signers.alice, 6);
+
+      await expect(
+        reviewGuard
+          .connect(signers.alice)
+          .updateReview(
+            "EMP-001",
+            CYCLE,
+            encrypted.score,
+            encrypted.criteria,
+            encrypted.inputProof,
+          ),
+      )
+        .to.emit(reviewGuard, "ReviewUpdated")
+        .withArgs("EMP-001", CYCLE, signers.alice.address, reviewId);
+    });
+
+    it("rejects updates without a prior review or after the cycle closed", async function () {
+      await expect(update(signers.alice, "EMP-001", 6)).to.be.revertedWith(
+        "No review to update",
+      );
+
+      await submit(signers.alice, "EMP-001", 8);
+      await (await reviewGuard.closeCycle(CYCLE)).wait();
+      await expect(update(signers.alice, "EMP-001", 6)).to.be.revertedWith(
+        "Cycle is not open",
+      );
+    });
+  });
+
+  describe("score range", function () {
+    async function decryptWeightedSum() {
+      const aggregate = await reviewGuard.getEncryptedAggregate(
+        "EMP-001",
+        CYCLE,
+      );
+      return fhevm.debugger.decryptEuint(
+        FhevmType.euint64,
+        aggregate.weightedSum,
+      );
+    }
+
+    it("clamps scores above the cycle's scale", async function () {
+      await submit(signers.alice, "EMP-001", 255);
+
+      expect(await decryptWeightedSum()).to.eq(BigInt(10 * 2));
+      expect(await decryptCriteria("EMP-001")).to.deep.eq([20n, 20n, 20n, 20n]);
+    });
+
+    it("raises a zero score to the bottom of the scale", async function () {
+      await submit(signers.bob, "EMP-001", 0, ENGINEERING, CYCLE, [0, 4, 4, 4]);
+
+      expect(await decryptWeightedSum()).to.eq(1n);
+      expect(await decryptCriteria("EMP-001")).to.deep.eq([1n, 4n, 4n, 4n]);
+    });
+
+    it("keeps the scale a cycle was created with", async function () {
+      await expect(reviewGuard.setMaxScore(5))
+        .to.emit(reviewGuard, "MaxScoreUpdated")
+        .withArgs(5);
+      await (await reviewGuard.createCycle("2024 H2")).wait();
+
+      expect((await reviewGuard.cycles(CYCLE)).maxScore).to.eq(10);
+      expect((await reviewGuard.cycles(2)).maxScore).to.eq(5);
+
+      await submit(signers.alice, "EMP-001", 8);
+      expect(await decryptWeightedSum()).to.eq(BigInt(8 * 2));
+    });
+
+    it("lets only HR admins change the scale", async function () {
+      expect(await reviewGuard.maxScore()).to.eq(10);
+      await expect(
+        reviewGuard.connect(signers.alice).setMaxScore(5),
+      ).to.be.revertedWith("Only HR admin");
+      await expect(reviewGuard.setMaxScore(0)).to.be.revertedWith(
+        "Invalid score scale",
+      );
+    });
+  });
+
+  describe("criteria", function () {
+    it("snapshots the default criteria into new cycles", async function () {
+      expect(await reviewGuard.getCriteria()).to.deep.eq(CRITERIA);
+      expect(await reviewGuard.getCycleCriteria(CYCLE)).to.deep.eq(CRITERIA);
+
+      await expect(reviewGuard.setCriteria(["impact", "craft"]))
+        .to.emit(reviewGuard, "CriteriaUpdated")
+        .withArgs(["impact", "craft"]);
+      await (await reviewGuard.createCycle("2024 H2")).wait();
+
+      expect(await reviewGuard.getCycleCriteria(CYCLE)).to.deep.eq(CRITERIA);
+      expect(await reviewGuard.getCycleCriteria(2)).to.deep.eq([
+        "impact",
+        "craft",
+      ]);
+    });
+
+    it("lets only HR admins configure a bounded criteria list", async function () {
+      await expect(
+        reviewGuard.connect(signers.alice).setCriteria(["impact"]),
+      ).to.be.revertedWith("Only HR admin");
+      await expect(reviewGuard.setCriteria([])).to.be.revertedWith(
+        "Invalid criteria count",
+      );
+      await expect(
+        reviewGuard.setCriteria(Array.from({ length: 9 }, (_, i) => `c${i}`)),
+      ).to.be.revertedWith("Invalid criteria count");
+    });
+
+    it("aggregates every criterion with the review weight", async function () {
+      await submit(
+        signers.alice,
+        "EMP-001",
+        8,
+        ENGINEERING,
+        CYCLE,
+        [9, 7, 8, 6],
+      );
+      await submit(signers.bob, "EMP-001", 5, ENGINEERING, CYCLE, [4, 6, 5, 3]);
+
+      expect(await decryptCriteria("EMP-001")).to.deep.eq([22n, 20n, 21n, 15n]);
+    });
+
+    it("swaps the criteria of an updated review", async function () {
+      await submit(
+        signers.alice,
+        "EMP-001",
+        8,
+        ENGINEERING,
+        CYCLE,
+        [9, 7, 8, 6],
+      );
+      await submit(signers.bob, "EMP-001", 5, ENGINEERING, CYCLE, [4, 6, 5, 3]);
+      await update(signers.alice, "EMP-001", 6, CYCLE, [2, 3, 4, 5]);
+
+      expect(await decryptCriteria("EMP-001")).to.deep.eq([8n, 12n, 13n, 13n]);
+    });
+
+    it("rejects a review with the wrong number of criteria", async function () {
+      await expect(
+        submit(signers.alice, "EMP-001", 8, ENGINEERING, CYCLE, [8, 8]),
+      ).to.be.revertedWith("Criteria mismatch");
+    });
+
+    it("publishes the criteria sums together with the aggregate", async function () {
+      await submit(signers.alice, "EMP-001", 8);
+      await submit(signers.bob, "EMP-001", 5);
+      await (await reviewGuard.closeCycle(CYCLE)).wait();
+      await (
+        await reviewGuard.requestAggregateDecryption("EMP-001", CYCLE)
+      ).wait();
+
+      const sums = await reviewGuard.getEncryptedCriteriaAggregate(
+        "EMP-001",
+        CYCLE,
+      );
+      const decrypted = await fhevm.publicDecrypt([...sums]);
+      expect(
+        sums.map((handle) => decrypted.clearValues[handle as `0x${string}`]),
+      ).to.deep.eq([21n, 21n, 21n, 21n]);
+    });
+  });
+
+  describe("review ids", function () {
+    it("assigns unique ids to reviews mined in the same block", async function () {
+      const reviewers = [signers.alice, signers.bob];
+      const inputs = await Promise.all(
+        reviewers.map((reviewer) => encryptReview(reviewer, 5)),
+      );
+
+      await network.provider.send("evm_setAutomine", [false]);
+      let txs: ContractTransactionResponse[];
+      try {
+        txs = await Promise.all(
+          reviewers.map((reviewer, i) =>
+            reviewGuard.connect(reviewer).submitReview(
+              "EMP-001",
+              CYCLE,
+              inputs[i].score,
+              inputs[i].criteria,
+              inputs[i].inputProof,
+              ENGINEERING,
+              // Both transactions have to fit in a single block
+              { gasLimit: 5_000_000 },
+            ),
+          ),
+        );
+        await network.provider.send("evm_mine");
+      } finally {
+        await network.provider.send("evm_setAutomine", [true]);
+      }
+
+      const receipts = await Promise.all(
+        txs.map((tx) => ethers.provider.getTransactionReceipt(tx.hash)),
+      );
+      expect(receipts[0]!.blockNumber).to.eq(receipts[1]!.blockNumber);
+
+      const [ids, total] = await reviewGuard.getReviewIds("EMP-001", 0, 10);
+      expect(total).to.eq(2);
+      expect(ids).to.deep.eq([1n, 2n]);
+      expect((await reviewGuard.getReview("EMP-001", 1)).reviewer).to.eq(
+        signers.alice.address,
+      );
+      expect((await reviewGuard.getReview("EMP-001", 2)).reviewer).to.eq(
+        signers.bob.address,
+      );
+    });
+
+    it("pages through an employee's review ids", async function () {
+      await submit(signers.alice, "EMP-001", 5);
+      await submit(signers.bob, "EMP-001", 6);
+      await submit(signers.carol, "EMP-001", 7);
+
+      let [ids, total] = await reviewGuard.getReviewIds("EMP-001", 0, 2);
+      expect(ids).to.deep.eq([1n, 2n]);
+      expect(total).to.eq(3);
+
+      [ids, total] = await reviewGuard.getReviewIds("EMP-001", 2, 2);
+      expect(ids).to.deep.eq([3n]);
+
+      [ids, total] = await reviewGuard.getReviewIds("EMP-001", 5, 2);
+      expect(ids).to.deep.eq([]);
+      expect(total).to.eq(3);
+
+      expect((await reviewGuard.getReviewIds("EMP-002", 0, 10)).total).to.eq(0);
+    });
+
+    it("rejects unknown review ids", async function () {
+      const reviewId = await submit(signers.alice, "EMP-001", 5);
+
+      await expect(
+        reviewGuard.getReview("EMP-002", reviewId),
+      ).to.be.revertedWith("Review does not exist");
+      await expect(reviewGuard.getReview("EMP-001", 99)).to.be.revertedWith(
+        "Review does not exist",
+      );
+    });
+  });
+
+  describe("aggregation", function () {
+    it("keeps an encrypted weighted sum, review count and total weight", async function () {
+      await submit(signers.alice, "EMP-001", 8);
+      await submit(signers.bob, "EMP-001", 5);
+
+      const aggregate = await reviewGuard.getEncryptedAggregate(
+        "EMP-001",
+        CYCLE,
+      );
+      expect(
+        await fhevm.debugger.decryptEuint(
+          FhevmType.euint64,
+          aggregate.weightedSum,
+        ),
+      ).to.eq(8n * 2n + 5n * 1n);
+      expect(
+        await fhevm.debugger.decryptEuint(
+          FhevmType.euint32,
+          aggregate.reviewCount,
+        ),
+      ).to.eq(2n);
+      expect(
+        await fhevm.debugger.decryptEuint(
+          FhevmType.euint64,
+          aggregate.totalWeight,
+        ),
+      ).to.eq(2n + 1n);
+    });
+
+    it("moves the total weight with a reweighted update", async function () {
+      await submit(signers.alice, "EMP-001", 8);
+      await submit(signers.bob, "EMP-001", 5);
+      // alice becomes EMP-001's manager, her updated review weighs 3 instead of 2
+      await (
+        await reviewGuard.setReviewerRelationship(
+          "EMP-001",
+          signers.alice.address,
+          Relationship.Manager,
+        )
+      ).wait();
+      await update(signers.alice, "EMP-001", 6);
+
+      const aggregate = await reviewGuard.getEncryptedAggregate(
+        "EMP-001",
+        CYCLE,
+      );
+      expect(
+        await fhevm.debugger.decryptEuint(
+          FhevmType.euint64,
+          aggregate.weightedSum,
+        ),
+      ).to.eq(6n * 3n + 5n * 1n);
+      expect(
+        await fhevm.debugger.decryptEuint(
+          FhevmType.euint64,
+          aggregate.totalWeight,
+        ),
+      ).to.eq(3n + 1n);
+    });
+
+    it("does not expose the aggregate before decryption is requested", async function () {
+      await submit(signers.alice, "EMP-001", 8);
+
+      const aggregate = await reviewGuard.getEncryptedAggregate(
+        "EMP-001",
+        CYCLE,
+      );
+      await expect(fhevm.publicDecrypt([aggregate.weightedSum])).to.be.rejected;
+    });
+
+    it("records the publicly decrypted aggregate after checking KMS signatures", async function () {
+      await submit(signers.alice, "EMP-001", 8);
+      await submit(signers.bob, "EMP-001", 5);
+      await (await reviewGuard.closeCycle(CYCLE)).wait();
+
+      await expect(reviewGuard.requestAggregateDecryption("EMP-001", CYCLE))
+        .to.emit(reviewGuard, "AggregateDecryptionRequested")
+        .withArgs("EMP-001", CYCLE);
+      expect(await reviewGuard.isAggregateDecryptable("EMP-001", CYCLE)).to.eq(
+        true,
+      );
+
+      const aggregate = await reviewGuard.getEncryptedAggregate(
+        "EMP-001",
+        CYCLE,
+      );
+      const decryption = await fhevm.publicDecrypt([
+        aggregate.weightedSum,
+        aggregate.reviewCount,
+        aggregate.totalWeight,
+      ]);
+
+      await expect(
+        reviewGuard.verifyAggregate(
+          "EMP-001",
+          CYCLE,
+          decryption.abiEncodedClearValues,
+          decryption.decryptionProof,
+        ),
+      )
+        .to.emit(reviewGuard, "AggregateDecrypted")
+        .withArgs("EMP-001", CYCLE, 21, 2, 3);
+
+      const employee = await reviewGuard.getEmployee("EMP-001", CYCLE);
+      expect(employee.totalScore).to.eq(21);
+      expect(employee.reviewCount).to.eq(2);
+      expect(employee.totalWeight).to.eq(3);
+    });
+
+    it("rejects clear values that do not match the decryption proof", async function () {
+      await submit(signers.alice, "EMP-001", 3);
+      await submit(signers.bob, "EMP-001", 4);
+      await (await reviewGuard.closeCycle(CYCLE)).wait();
+      await (
+        await reviewGuard.requestAggregateDecryption("EMP-001", CYCLE)
+      ).wait();
+
+      const aggregate = await reviewGuard.getEncryptedAggregate(
+        "EMP-001",
+        CYCLE,
+      );
+      const decryption = await fhevm.publicDecrypt([
+        aggregate.weightedSum,
+        aggregate.reviewCount,
+        aggregate.totalWeight,
+      ]);
+      const forged = ethers.AbiCoder.defaultAbiCoder().encode(
+        ["uint64", "uint32", "uint64"],
+        [11, 2, 2],
+      );
+
+      await expect(
+        reviewGuard.verifyAggregate(
+          "EMP-001",
+          CYCLE,
+          forged,
+          decryption.decryptionProof,
+        ),
+      ).to.be.reverted;
+    });
+
+    it("refuses to publish while the cycle is open", async function () {
+      await submit(signers.alice, "EMP-001", 3);
+      await submit(signers.bob, "EMP-001", 4);
+
+      // Two publications of one open cycle would differ by a single review
+      await expect(
+        reviewGuard.requestAggregateDecryption("EMP-001", CYCLE),
+      ).to.be.revertedWith("Cycle is not closed");
+      expect(await reviewGuard.isAggregateDecryptable("EMP-001", CYCLE)).to.eq(
+        false,
+      );
+    });
+
+    it("rejects decryption requests for employees without reviews", async function () {
+      await (await reviewGuard.closeCycle(CYCLE)).wait();
+
+      await expect(
+        reviewGuard.requestAggregateDecryption("EMP-001", CYCLE),
+      ).to.be.revertedWith("No reviews available");
+    });
+  });
+
+  describe("department analytics", function () {
+    async function decryptDepartment(departmentId = ENGINEERING) {
+      const department = await reviewGuard.getDepartmentAggregate(
+        departmentId,
+        CYCLE,
+      );
+      return {
+        weightedSum: await fhevm.debugger.decryptEuint(
+          FhevmType.euint64,
+          department.weightedSum,
+        ),
+        totalWeight: await fhevm.debugger.decryptEuint(
+          FhevmType.euint64,
+          department.totalWeight,
+        ),
+        reviewCount: await fhevm.debugger.decryptEuint(
+          FhevmType.euint32,
+          department.encryptedReviewCount,
+        ),
+        highPerformerCount: await fhevm.debugger.decryptEuint(
+          FhevmType.euint32,
+          department.highPerformerCount,
+        ),
+        lowPerformerCount: await fhevm.debugger.decryptEuint(
+          FhevmType.euint32,
+          department.lowPerformerCount,
+        ),
+      };
+    }
+
+    beforeEach(async function () {
+      await (
+        await reviewGuard.addEmployee("EMP-003", "Carol Poe", ENGINEERING)
+      ).wait();
+      await (
+        await reviewGuard.setReviewerRelationship(
+          "EMP-003",
+          signers.alice.address,
+          Relationship.Peer,
+        )
+      ).wait();
+    });
+
+    it("sums every review in the department and counts high performers", async function () {
+      await submit(signers.alice, "EMP-001", 9);
+      await submit(signers.bob, "EMP-001", 5);
+      await submit(signers.alice, "EMP-003", 8);
+
+      expect(await decryptDepartment()).to.deep.eq({
+        weightedSum: BigInt(9 * 2 + 5 * 1 + 8 * 2),
+        totalWeight: BigInt(2 + 1 + 2),
+        reviewCount: 3n,
+        highPerformerCount: 2n,
+        lowPerformerCount: 0n,
+      });
+      expect(
+        (await reviewGuard.getDepartmentAggregate(ENGINEERING, CYCLE))
+          .reviewCount,
+      ).to.eq(3);
+      expect(
+        (await reviewGuard.getDepartmentAggregate(SALES, CYCLE)).reviewCount,
+      ).to.eq(0);
+    });
+
+    it("moves an updated review out of the high performers", async function () {
+      await submit(signers.alice, "EMP-001", 9);
+      await submit(signers.bob, "EMP-001", 5);
+      await update(signers.alice, "EMP-001", 4);
+
+      expect(await decryptDepartment()).to.deep.eq({
+        weightedSum: BigInt(4 * 2 + 5 * 1),
+        totalWeight: BigInt(2 + 1),
+        reviewCount: 2n,
+        highPerformerCount: 0n,
+        lowPerformerCount: 1n,
+      });
+    });
+
+    it("counts distinct reviewers rather than reviews", async function () {
+      await submit(signers.alice, "EMP-001", 9);
+      await submit(signers.alice, "EMP-003", 6);
+      await (await reviewGuard.closeCycle(CYCLE)).wait();
+
+      const department = await reviewGuard.getDepartmentAggregate(
+        ENGINEERING,
+        CYCLE,
+      );
+      expect(department.reviewCount).to.eq(2);
+      expect(department.reviewerCount).to.eq(1);
+      await expect(
+        reviewGuard.requestDepartmentDecryption(ENGINEERING, CYCLE),
+      ).to.be.revertedWith("Not enough reviewers");
+    });
+
+    it("publishes department totals only past the anonymity threshold", async function () {
+      await submit(signers.alice, "EMP-001", 9);
+      await submit(signers.alice, "EMP-003", 6);
+      await expect(
+        reviewGuard.requestDepartmentDecryption(ENGINEERING, CYCLE),
+      ).to.be.revertedWith("Cycle is not closed");
+
+      await submit(signers.bob, "EMP-001", 5);
+      await expect(
+        reviewGuard.requestDepartmentDecryption(ENGINEERING, CYCLE),
+      ).to.be.revertedWith("Cycle is not closed");
+
+      await (await reviewGuard.closeCycle(CYCLE)).wait();
+      await expect(reviewGuard.requestDepartmentDecryption(ENGINEERING, CYCLE))
+        .to.emit(reviewGuard, "DepartmentDecryptionRequested")
+        .withArgs(ENGINEERING, CYCLE);
+      expect(
+        await reviewGuard.isDepartmentAggregateDecryptable(ENGINEERING, CYCLE),
+      ).to.eq(true);
+
+      const department = await reviewGuard.getDepartmentAggregate(
+        ENGINEERING,
+        CYCLE,
+      );
+      const decrypted = await fhevm.publicDecrypt([
+        department.weightedSum,
+        department.encryptedReviewCount,
+        department.highPerformerCount,
+      ]);
+      expect(
+        decrypted.clearValues[department.weightedSum as `0x${string}`],
+      ).to.eq(35n);
+      expect(
+        decrypted.clearValues[department.highPerformerCount as `0x${string}`],
+      ).to.eq(1n);
+    });
+
+    it("lets only HR admins and the department manager publish", async function () {
+      await submit(signers.alice, "EMP-001", 9);
+      await submit(signers.bob, "EMP-001", 6);
+      await (await reviewGuard.closeCycle(CYCLE)).wait();
+
+      await expect(
+        reviewGuard
+          .connect(signers.alice)
+          .requestDepartmentDecryption(ENGINEERING, CYCLE),
+      ).to.be.revertedWith("Only HR admin or department manager");
+
+      await (
+        await reviewGuard.setDepartmentManager(
+          ENGINEERING,
+          signers.manager.address,
+          true,
+        )
+      ).wait();
+      await expect(
+        reviewGuard
+          .connect(signers.manager)
+          .requestDepartmentDecryption(ENGINEERING, CYCLE),
+      ).to.not.be.reverted;
+      await expect(
+        reviewGuard
+          .connect(signers.manager)
+          .requestDepartmentDecryption(SALES, CYCLE),
+      ).to.be.revertedWith("Only HR admin or department manager");
+    });
+  });
+
+  describe("performer counts", function () {
+    async function decryptCounts(employeeId = "EMP-001", cycleId = CYCLE) {
+      const counts = await reviewGuard.getEncryptedPerformerCounts(
+        employeeId,
+        cycleId,
+      );
+      return [
+        await fhevm.debugger.decryptEuint(
+          FhevmType.euint32,
+          counts.highPerformerCount,
+        ),
+        await fhevm.debugger.decryptEuint(
+          FhevmType.euint32,
+          counts.lowPerformerCount,
+        ),
+      ];
+    }
+
+    it("counts scores at or above and at or below the thresholds", async function () {
+      await submit(signers.alice, "EMP-001", 8);
+      await submit(signers.bob, "EMP-001", 4);
+      await submit(signers.carol, "EMP-001", 6);
+
+      expect(await decryptCounts()).to.deep.eq([1n, 1n]);
+    });
+
+    it("moves an updated score between the counts", async function () {
+      await submit(signers.alice, "EMP-001", 3);
+      await update(signers.alice, "EMP-001", 9);
+
+      expect(await decryptCounts()).to.deep.eq([1n, 0n]);
+    });
+
+    it("publishes the counts together with the aggregate", async function () {
+      await submit(signers.alice, "EMP-001", 9);
+      await submit(signers.bob, "EMP-001", 2);
+      await (await reviewGuard.closeCycle(CYCLE)).wait();
+      await (
+        await reviewGuard.requestAggregateDecryption("EMP-001", CYCLE)
+      ).wait();
+
+      const counts = await reviewGuard.getEncryptedPerformerCounts(
+        "EMP-001",
+        CYCLE,
+      );
+      const decrypted = await fhevm.publicDecrypt([
+        counts.highPerformerCount,
+        counts.lowPerformerCount,
+      ]);
+      expect(
+        decrypted.clearValues[counts.highPerformerCount as `0x${string}`],
+      ).to.eq(1n);
+      expect(
+        decrypted.clearValues[counts.lowPerformerCount as `0x${string}`],
+      ).to.eq(1n);
+    });
+
+    it("applies the thresholds a cycle was created with", async function () {
+      await expect(reviewGuard.setPerformanceThresholds(6, 5))
+        .to.emit(reviewGuard, "PerformanceThresholdsUpdated")
+        .withArgs(6, 5);
+      await (await reviewGuard.createCycle("2024 H2")).wait();
+      await (await reviewGuard.openCycle(2)).wait();
+
+      const cycle = await reviewGuard.cycles(2);
+      expect(cycle.highPerformerScore).to.eq(6);
+      expect(cycle.lowPerformerScore).to.eq(5);
+
+      await submit(signers.alice, "EMP-001", 6);
+      await submit(signers.alice, "EMP-001", 6, ENGINEERING, 2);
+
+      expect(await decryptCounts("EMP-001", CYCLE)).to.deep.eq([0n, 0n]);
+      expect(await decryptCounts("EMP-001", 2)).to.deep.eq([1n, 0n]);
+    });
+
+    it("lets only HR admins change the thresholds", async function () {
+      await expect(
+        reviewGuard.connect(signers.alice).setPerformanceThresholds(9, 3),
+      ).to.be.revertedWith("Only HR admin");
+      await expect(
+        reviewGuard.setPerformanceThresholds(5, 5),
+      ).to.be.revertedWith("Invalid thresholds");
+    });
+  });
+
+  describe("review cycles", function () {
+    it("walks a cycle through open, close and finalize", async function () {
+      await expect(reviewGuard.createCycle("2024 H2"))
+        .to.emit(reviewGuard, "CycleCreated")
+        .withArgs(2, "2024 H2");
+      expect(await reviewGuard.cycleCount()).to.eq(2);
+
+      await expect(reviewGuard.closeCycle(2)).to.be.revertedWith(
+        "Cycle is not open",
+      );
+      await expect(reviewGuard.openCycle(2))
+        .to.emit(reviewGuard, "CycleStatusChanged")
+        .withArgs(2, CycleStatus.Open);
+      await expect(reviewGuard.finalizeCycle(2)).to.be.revertedWith(
+        "Cycle is not closed",
+      );
+      await (await reviewGuard.closeCycle(2)).wait();
+      await expect(reviewGuard.openCycle(2)).to.be.revertedWith(
+        "Cycle cannot be opened",
+      );
+      await (await reviewGuard.finalizeCycle(2)).wait();
+
+      const cycle = await reviewGuard.cycles(2);
+      expect(cycle.name).to.eq("2024 H2");
+      expect(cycle.status).to.eq(CycleStatus.Finalized);
+      expect(cycle.closedAt).to.be.gte(cycle.openedAt);
+    });
+
+    it("lets only HR admins manage cycles", async function () {
+      await expect(
+        reviewGuard.connect(signers.alice).createCycle("Rogue"),
+      ).to.be.revertedWith("Only HR admin");
+      await expect(
+        reviewGuard.connect(signers.alice).closeCycle(CYCLE),
+      ).to.be.revertedWith("Only HR admin");
+      await expect(reviewGuard.openCycle(42)).to.be.revertedWith(
+        "Cycle does not exist",
+      );
+    });
+
+    it("rejects submissions outside an open cycle", async function () {
+      await (await reviewGuard.createCycle("2024 H2")).wait();
+      await expect(
+        submit(signers.alice, "EMP-001", 5, ENGINEERING, 2),
+      ).to.be.revertedWith("Cycle is not open");
+
+      await (await reviewGuard.closeCycle(CYCLE)).wait();
+      await expect(submit(signers.alice, "EMP-001", 5)).to.be.revertedWith(
+        "Cycle is not open",
+      );
+    });
+
+    it("keeps a separate encrypted aggregate per cycle", async function () {
+      await submit(signers.alice, "EMP-001", 8);
+      await submit(signers.bob, "EMP-001", 5);
+      await (await reviewGuard.closeCycle(CYCLE)).wait();
+
+      await (await reviewGuard.createCycle("2024 H2")).wait();
+      await (await reviewGuard.openCycle(2)).wait();
+      await submit(signers.carol, "EMP-001", 4, ENGINEERING, 2);
+      await (await reviewGuard.closeCycle(2)).wait();
+
+      const first = await reviewGuard.getEncryptedAggregate("EMP-001", CYCLE);
+      const second = await reviewGuard.getEncryptedAggregate("EMP-001", 2);
+      expect(
+        await fhevm.debugger.decryptEuint(FhevmType.euint64, first.weightedSum),
+      ).to.eq(21n);
+      expect(
+        await fhevm.debugger.decryptEuint(
+          FhevmType.euint64,
+          second.weightedSum,
+        ),
+      ).to.eq(4n);
+      expect((await reviewGuard.getEmployee("EMP-001", 2)).reviewerCount).to.eq(
+        1,
+      );
+      await expect(
+        reviewGuard.requestAggregateDecryption("EMP-001", 2),
+      ).to.be.revertedWith("Not enough reviewers");
+    });
+
+    it("freezes recorded results once the cycle is finalized", async function () {
+      await submit(signers.alice, "EMP-001", 8);
+      await submit(signers.bob, "EMP-001", 5);
+      await (await reviewGuard.closeCycle(CYCLE)).wait();
+      await (await reviewGuard.finalizeCycle(CYCLE)).wait();
+
+      await expect(publishAggregate("EMP-001")).to.be.revertedWith(
+        "Cycle already finalized",
+      );
+      await expect(
+        reviewGuard.calculateFinalScore("EMP-001", CYCLE),
+      ).to.be.revertedWith("Cycle already finalized");
+    });
+  });
+
+  describe("weight policy", function () {
+    async function decryptWeight(
+      relationship: Relationship,
+      hrAdmin = signers.deployer,
+    ) {
+      return fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        await reviewGuard.getRelationshipWeight(relationship),
+        reviewGuardAddress,
+        hrAdmin,
+      );
+    }
+
+    it("starts from encrypted default weights only HR can read", async function () {
+      expect(await decryptWeight(Relationship.Manager)).to.eq(3n);
+      expect(await decryptWeight(Relationship.Peer)).to.eq(2n);
+      expect(await decryptWeight(Relationship.DirectReport)).to.eq(1n);
+      expect(await decryptWeight(Relationship.Self)).to.eq(1n);
+
+      await expect(decryptWeight(Relationship.Peer, signers.alice)).to.be
+        .rejected;
+      await expect(
+        reviewGuard.getRelationshipWeight(Relationship.None),
+      ).to.be.revertedWith("Invalid relationship");
+    });
+
+    it("weights new reviews with the encrypted weight table", async function () {
+      await setWeights([4, 5, 1, 1]);
+
+      await submit(signers.alice, "EMP-001", 4);
+      await submit(signers.bob, "EMP-001", 3);
+
+      const aggregate = await reviewGuard.getEncryptedAggregate(
+        "EMP-001",
+        CYCLE,
+      );
+      expect(
+        await fhevm.debugger.decryptEuint(
+          FhevmType.euint64,
+          aggregate.weightedSum,
+        ),
+      ).to.eq(BigInt(4 * 5 + 3 * 1));
+      expect(await decryptWeight(Relationship.Manager)).to.eq(4n);
+    });
+
+    it("counts a zero weight as one", async function () {
+      await setWeights([3, 0, 1, 1]);
+
+      expect(await decryptWeight(Relationship.Peer)).to.eq(1n);
+    });
+
+    it("lets only HR admins set and read the weights", async function () {
+      await expect(setWeights([1, 1, 1, 1], signers.alice)).to.be.revertedWith(
+        "Only HR admin",
+      );
+      await expect(setWeights([3, 2, 1])).to.be.revertedWith(
+        "Invalid weight count",
+      );
+
+      await (await reviewGuard.setHrAdmin(signers.alice.address, true)).wait();
+      await expect(decryptWeight(Relationship.Peer, signers.alice)).to.be
+        .rejected;
+      await (
+        await reviewGuard.connect(signers.alice).allowRelationshipWeights()
+      ).wait();
+      expect(await decryptWeight(Relationship.Peer, signers.alice)).to.eq(2n);
+      await expect(
+        reviewGuard.connect(signers.bob).allowRelationshipWeights(),
+      ).to.be.revertedWith("Only HR admin");
+    });
+
+    it("emits RelationshipWeightsUpdated", async function () {
+      const input = fhevm.createEncryptedInput(
+        reviewGuardAddress,
+        signers.deployer.address,
+      );
+      const encrypted = await input
+        .add32(3)
+        .add32(2)
+        .add32(2)
+        .add32(1)
+        .encrypt();
+
+      await expect(
+        reviewGuard.setRelationshipWeights(
+          encrypted.handles,
+          encrypted.inputProof,
+        ),
+      )
+        .to.emit(reviewGuard, "RelationshipWeightsUpdated")
+        .withArgs(signers.deployer.address);
+    });
+  });
+
+  describe("access control", function () {
+    it("makes the deployer owner and HR admin", async function () {
+      expect(await reviewGuard.owner()).to.eq(signers.deployer.address);
+      expect(await reviewGuard.hrAdmins(signers.deployer.address)).to.eq(true);
+      expect(await reviewGuard.hrAdmins(signers.alice.address)).to.eq(false);
+    });
+
+    it("lets only the owner grant and revoke HR admins", async function () {
+      await expect(reviewGuard.setHrAdmin(signers.alice.address, true))
+        .to.emit(reviewGuard, "HrAdminUpdated")
+        .withArgs(signers.alice.address, true);
+
+      await (
+        await reviewGuard
+          .connect(signers.alice)
+          .addEmployee("EMP-003", "Carol Poe", SALES)
+      ).wait();
+      await expect(
+        reviewGuard
+          .connect(signers.alice)
+          .setHrAdmin(signers.bob.address, true),
+      ).to.be.revertedWith("Only owner");
+      await expect(
+        reviewGuard.setHrAdmin(signers.deployer.address, false),
+      ).to.be.revertedWith("Owner must stay HR admin");
+
+      await (await reviewGuard.setHrAdmin(signers.alice.address, false)).wait();
+      await expect(
+        reviewGuard
+          .connect(signers.alice)
+          .addEmployee("EMP-004", "Dan Moe", SALES),
+      ).to.be.revertedWith("Only HR admin");
+    });
+
+    it("only lets eligible reviewers submit reviews", async function () {
+      await expect(submit(signers.manager, "EMP-001", 5)).to.be.revertedWith(
+        "Not an eligible reviewer",
+      );
+
+      await expect(
+        reviewGuard.setReviewerRelationship(
+          "EMP-001",
+          signers.alice.address,
+          Relationship.None,
+        ),
+      )
+        .to.emit(reviewGuard, "ReviewerRelationshipUpdated")
+        .withArgs("EMP-001", signers.alice.address, Relationship.None);
+      expect(
+        await reviewGuard.isEligibleReviewer("EMP-001", signers.alice.address),
+      ).to.eq(false);
+      await expect(submit(signers.alice, "EMP-001", 5)).to.be.revertedWith(
+        "Not an eligible reviewer",
+      );
+    });
+
+    it("scopes department managers to their own department", async function () {
+      await expect(
+        reviewGuard
+          .connect(signers.manager)
+          .setReviewerRelationship(
+            "EMP-001",
+            signers.bob.address,
+            Relationship.Manager,
+          ),
+      ).to.be.revertedWith("Only HR admin or department manager");
+
+      await expect(
+        reviewGuard.setDepartmentManager(
+          ENGINEERING,
+          signers.manager.address,
+          true,
+        ),
+      )
+        .to.emit(reviewGuard, "DepartmentManagerUpdated")
+        .withArgs(ENGINEERING, signers.manager.address, true);
+
+      await (
+        await reviewGuard
+          .connect(signers.manager)
+          .setReviewerRelationship(
+            "EMP-001",
+            signers.manager.address,
+            Relationship.Manager,
+          )
+      ).wait();
+      await expect(
+        reviewGuard
+          .connect(signers.manager)
+          .setReviewerRelationship(
+            "EMP-002",
+            signers.manager.address,
+            Relationship.Manager,
+          ),
+      ).to.be.revertedWith("Only HR admin or department manager");
+      await expect(
+        reviewGuard
+          .connect(signers.manager)
+          .setDepartmentManager(SALES, signers.manager.address, true),
+      ).to.be.revertedWith("Only HR admin");
+    });
+
+    it("lets department managers publish and finalize their team's scores", async function () {
+      await (
+        await reviewGuard.setDepartmentManager(
+          ENGINEERING,
+          signers.manager.address,
+          true,
+        )
+      ).wait();
+      await submit(signers.alice, "EMP-001", 8);
+      await submit(signers.bob, "EMP-001", 5);
+      await (await reviewGuard.closeCycle(CYCLE)).wait();
+
+      await expect(
+        reviewGuard
+          .connect(signers.alice)
+          .requestAggregateDecryption("EMP-001", CYCLE),
+      ).to.be.revertedWith("Only HR admin or department manager");
+
+      await (
+        await reviewGuard
+          .connect(signers.manager)
+          .requestAggregateDecryption("EMP-001", CYCLE)
+      ).wait();
+      const [weightedSum, reviewCount, totalWeight] =
+        await reviewGuard.getEncryptedAggregate("EMP-001", CYCLE);
+      const decrypted = await fhevm.publicDecrypt([
+        weightedSum,
+        reviewCount,
+        totalWeight,
+      ]);
+
+      await expect(
+        reviewGuard
+          .connect(signers.alice)
+          .verifyAggregate(
+            "EMP-001",
+            CYCLE,
+            decrypted.abiEncodedClearValues,
+            decrypted.decryptionProof,
+          ),
+      ).to.be.revertedWith("Only HR admin or department manager");
+      await (
+        await reviewGuard
+          .connect(signers.manager)
+          .verifyAggregate(
+            "EMP-001",
+            CYCLE,
+            decrypted.abiEncodedClearValues,
+            decrypted.decryptionProof,
+          )
+      ).wait();
+      await expect(
+        reviewGuard
+          .connect(signers.manager)
+          .calculateFinalScore("EMP-001", CYCLE),
+      ).to.emit(reviewGuard, "FinalScoreCalculated");
+    });
+  });
+
+  describe("employee self-view", function () {
+    async function bindWallet(employeeId: string, wallet: string) {
+      await (await reviewGuard.bindEmployeeWallet(employeeId, wallet)).wait();
+    }
+
+    it("lets only HR admins bind a wallet to one employee", async function () {
+      await expect(
+        reviewGuard
+          .connect(signers.alice)
+          .bindEmployeeWallet("EMP-001", signers.employee.address),
+      ).to.be.revertedWith("Only HR admin");
+
+      await expect(
+        reviewGuard.bindEmployeeWallet("EMP-001", signers.employee.address),
+      )
+        .to.emit(reviewGuard, "EmployeeWalletBound")
+        .withArgs("EMP-001", signers.employee.address);
+      expect(await reviewGuard.getEmployeeWallet("EMP-001")).to.eq(
+        signers.employee.address,
+      );
+      expect(await reviewGuard.walletEmployees(signers.employee.address)).to.eq(
+        "EMP-001",
+      );
+      await expect(
+        reviewGuard.bindEmployeeWallet("EMP-002", signers.employee.address),
+      ).to.be.revertedWith("Wallet already bound");
+
+      // Rebinding releases the previous wallet
+      await bindWallet("EMP-001", signers.carol.address);
+      expect(await reviewGuard.walletEmployees(signers.employee.address)).to.eq(
+        "",
+      );
+      await bindWallet("EMP-002", signers.employee.address);
+    });
+
+    it("grants the bound wallet its own aggregate once the cycle closed", async function () {
+      await submit(signers.alice, "EMP-001", 4);
+      await submit(signers.bob, "EMP-001", 3);
+      await bindWallet("EMP-001", signers.employee.address);
+
+      await expect(
+        reviewGuard.connect(signers.employee).allowOwnAggregate(CYCLE),
+      ).to.be.revertedWith("Cycle is not closed");
+
+      await (await reviewGuard.closeCycle(CYCLE)).wait();
+      await expect(
+        reviewGuard.connect(signers.employee).allowOwnAggregate(CYCLE),
+      )
+        .to.emit(reviewGuard, "AggregateAccessGranted")
+        .withArgs("EMP-001", CYCLE, signers.employee.address);
+      expect(
+        await reviewGuard.isAggregateAllowed(
+          "EMP-001",
+          CYCLE,
+          signers.employee.address,
+        ),
+      ).to.eq(true);
+
+      const aggregate = await reviewGuard.getEncryptedAggregate(
+        "EMP-001",
+        CYCLE,
+      );
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint64,
+          aggregate.weightedSum,
+          reviewGuardAddress,
+          signers.employee,
+        ),
+      ).to.eq(BigInt(4 * 2 + 3 * 1));
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          aggregate.reviewCount,
+          reviewGuardAddress,
+          signers.employee,
+        ),
+      ).to.eq(2n);
+
+      // Nobody else gains access, the aggregate is not public either
+      await expect(
+        fhevm.userDecryptEuint(
+          FhevmType.euint64,
+          aggregate.weightedSum,
+          reviewGuardAddress,
+          signers.alice,
+        ),
+      ).to.be.rejected;
+      expect(await reviewGuard.isAggregateDecryptable("EMP-001", CYCLE)).to.eq(
+        false,
+      );
+    });
+
+    it("refuses unbound wallets and aggregates below the threshold", async function () {
+      await submit(signers.alice, "EMP-001", 4);
+      await (await reviewGuard.closeCycle(CYCLE)).wait();
+
+      await expect(
+        reviewGuard.connect(signers.employee).allowOwnAggregate(CYCLE),
+      ).to.be.revertedWith("Wallet not bound");
+
+      await bindWallet("EMP-001", signers.employee.address);
+      await expect(
+        reviewGuard.connect(signers.employee).allowOwnAggregate(CYCLE),
+      ).to.be.revertedWith("Not enough reviewers");
+    });
+  });
+
+  describe("team access", function () {
+    beforeEach(async function () {
+      await (
+        await reviewGuard.addEmployee("EMP-003", "Carol Poe", ENGINEERING)
+      ).wait();
+      await (
+        await reviewGuard.setReviewerRelationship(
+          "EMP-003",
+          signers.alice.address,
+          Relationship.Peer,
+        )
+      ).wait();
+      await (
+        await reviewGuard.setDepartmentManager(
+          ENGINEERING,
+          signers.manager.address,
+          true,
+        )
+      ).wait();
+    });
+
+    it("grants the manager every team aggregate past the threshold", async function () {
+      await submit(signers.alice, "EMP-001", 4);
+      await submit(signers.bob, "EMP-001", 3);
+      await submit(signers.alice, "EMP-003", 5);
+
+      await expect(
+        reviewGuard
+          .connect(signers.manager)
+          .allowTeamAggregates(ENGINEERING, CYCLE),
+      ).to.be.revertedWith("Cycle is not closed");
+
+      await (await reviewGuard.closeCycle(CYCLE)).wait();
+      expect(
+        await reviewGuard
+          .connect(signers.manager)
+          .allowTeamAggregates.staticCall(ENGINEERING, CYCLE),
+      ).to.eq(1);
+      await expect(
+        reviewGuard
+          .connect(signers.manager)
+          .allowTeamAggregates(ENGINEERING, CYCLE),
+      )
+        .to.emit(reviewGuard, "AggregateAccessGranted")
+        .withArgs("EMP-001", CYCLE, signers.manager.address);
+
+      expect(
+        await reviewGuard.isAggregateAllowed(
+          "EMP-001",
+          CYCLE,
+          signers.manager.address,
+        ),
+      ).to.eq(true);
+      // EMP-003 has a single reviewer and stays sealed
+      expect(
+        await reviewGuard.isAggregateAllowed(
+          "EMP-003",
+          CYCLE,
+          signers.manager.address,
+        ),
+      ).to.eq(false);
+
+      const aggregate = await reviewGuard.getEncryptedAggregate(
+        "EMP-001",
+        CYCLE,
+      );
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint64,
+          aggregate.weightedSum,
+          reviewGuardAddress,
+          signers.manager,
+        ),
+      ).to.eq(BigInt(4 * 2 + 3 * 1));
+      expect(await reviewGuard.isAggregateDecryptable("EMP-001", CYCLE)).to.eq(
+        false,
+      );
+    });
+
+    it("lets only HR admins and the department manager grant team access", async function () {
+      await (await reviewGuard.closeCycle(CYCLE)).wait();
+
+      await expect(
+        reviewGuard
+          .connect(signers.alice)
+          .allowTeamAggregates(ENGINEERING, CYCLE),
+      ).to.be.revertedWith("Only HR admin or department manager");
+      await expect(
+        reviewGuard.connect(signers.manager).allowTeamAggregates(SALES, CYCLE),
+      ).to.be.revertedWith("Only HR admin or department manager");
+      expect(
+        await reviewGuard.allowTeamAggregates.staticCall(ENGINEERING, CYCLE),
+      ).to.eq(0);
+    });
+  });
+
+  describe("anonymity threshold", function () {
+    it("defaults to three distinct reviewers", async function () {
+      const fresh = await deployFixture();
+      expect(await fresh.reviewGuard.minReviewers()).to.eq(3);
+    });
+
+    it("lets only HR admins change the threshold", async function () {
+      await expect(reviewGuard.setMinReviewers(4))
+        .to.emit(reviewGuard, "MinReviewersUpdated")
+        .withArgs(4);
+      expect(await reviewGuard.minReviewers()).to.eq(4);
+
+      await expect(
+        reviewGuard.connect(signers.alice).setMinReviewers(1),
+      ).to.be.revertedWith("Only HR admin");
+      await expect(reviewGuard.setMinReviewers(0)).to.be.revertedWith(
+        "Threshold must be positive",
+      );
+    });
+
+    it("refuses to publish the aggregate below the threshold", async function () {
+      await submit(signers.alice, "EMP-001", 8);
+      await (await reviewGuard.closeCycle(CYCLE)).wait();
+
+      await expect(
+        reviewGuard.requestAggregateDecryption("EMP-001", CYCLE),
+      ).to.be.revertedWith("Not enough reviewers");
+    });
+
+    it("keeps the threshold a cycle was created with", async function () {
+      await submit(signers.alice, "EMP-001", 8);
+      await (await reviewGuard.closeCycle(CYCLE)).wait();
+      await (await reviewGuard.setMinReviewers(1)).wait();
+
+      expect((await reviewGuard.cycles(CYCLE)).minReviewers).to.eq(2);
+      await expect(
+        reviewGuard.requestAggregateDecryption("EMP-001", CYCLE),
+      ).to.be.revertedWith("Not enough reviewers");
+      expect(
+        await reviewGuard.allowTeamAggregates.staticCall(ENGINEERING, CYCLE),
+      ).to.eq(0);
+    });
+
+    it("counts an updated review from one wallet once", async function () {
+      await submit(signers.alice, "EMP-001", 8);
+      await update(signers.alice, "EMP-001", 9);
+
+      const employee = await reviewGuard.getEmployee("EMP-001", CYCLE);
+      expect(employee.reviewerCount).to.eq(1);
+      await (await reviewGuard.closeCycle(CYCLE)).wait();
+      await expect(
+        reviewGuard.requestAggregateDecryption("EMP-001", CYCLE),
+      ).to.be.revertedWith("Not enough reviewers");
+    });
+  });
+
+  describe("calculateFinalScore", function () {
+    it("computes the weighted score from the verified aggregate", async function () {
+      await submit(signers.alice, "EMP-001", 8);
+      await submit(signers.bob, "EMP-001", 5);
+      await (await reviewGuard.closeCycle(CYCLE)).wait();
+      await publishAggregate("EMP-001");
+
+      const employee = await reviewGuard.getEmployee("EMP-001", CYCLE);
+      expect(employee.totalScore).to.eq(8 * 2 + 5 * 1);
+      expect(employee.reviewCount).to.eq(2);
+      expect(employee.totalWeight).to.eq(2 + 1);
+
+      await expect(reviewGuard.calculateFinalScore("EMP-001", CYCLE))
+        .to.emit(reviewGuard, "FinalScoreCalculated")
+        .withArgs("EMP-001", CYCLE, 700, 1);
+
+      // Two decimals: (8 * 2 + 5 * 1) / 3 = 7.00, the verified aggregate is left intact
+      const finalScore = await reviewGuard.getFinalScore("EMP-001", CYCLE);
+      expect(finalScore.score).to.eq(700);
+      expect(finalScore.aggregateVersion).to.eq(1);
+      expect(
+        (await reviewGuard.getEmployee("EMP-001", CYCLE)).totalScore,
+      ).to.eq(21);
+    });
+
+    it("refuses to finalize the same aggregate twice", async function () {
+      await submit(signers.alice, "EMP-001", 8);
+      await submit(signers.bob, "EMP-001", 5);
+      await (await reviewGuard.closeCycle(CYCLE)).wait();
+      await publishAggregate("EMP-001");
+      await (await reviewGuard.calculateFinalScore("EMP-001", CYCLE)).wait();
+
+      await expect(
+        reviewGuard.calculateFinalScore("EMP-001", CYCLE),
+      ).to.be.revertedWith("Score already finalized");
+      expect((await reviewGuard.getFinalScore("EMP-001", CYCLE)).score).to.eq(
+        700,
+      );
+    });
+
+    it("refuses to finalize again after the same proof is verified twice", async function () {
+      await submit(signers.alice, "EMP-001", 8);
+      await submit(signers.bob, "EMP-001", 5);
+      await (await reviewGuard.closeCycle(CYCLE)).wait();
+      const decryption = await publishAggregate("EMP-001");
+      await (await reviewGuard.calculateFinalScore("EMP-001", CYCLE)).wait();
+
+      await (
+        await reviewGuard.verifyAggregate(
+          "EMP-001",
+          CYCLE,
+          decryption.abiEncodedClearValues,
+          decryption.decryptionProof,
+        )
+      ).wait();
+
+      await expect(
+        reviewGuard.calculateFinalScore("EMP-001", CYCLE),
+      ).to.be.revertedWith("Score already finalized");
+      expect(
+        (await reviewGuard.getFinalScore("EMP-001", CYCLE)).aggregateVersion,
+      ).to.eq(1);
+    });
+
+    it("keeps final scores per cycle", async function () {
+      await submit(signers.alice, "EMP-001", 8);
+      await submit(signers.bob, "EMP-001", 5);
+      await (await reviewGuard.closeCycle(CYCLE)).wait();
+      await publishAggregate("EMP-001");
+      await (await reviewGuard.calculateFinalScore("EMP-001", CYCLE)).wait();
+
+      const other = await reviewGuard.getFinalScore("EMP-001", 2);
+      expect(other.score).to.eq(0);
+      expect(other.aggregateVersion).to.eq(0);
+    });
+
+    it("rejects employees without a verified aggregate", async function () {
+      await submit(signers.alice, "EMP-001", 8);
+
+      await expect(
+        reviewGuard.calculateFinalScore("EMP-001", CYCLE),
+      ).to.be.revertedWith("No reviews available");
+    });
+  });
+});